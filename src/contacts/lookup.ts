@@ -0,0 +1,89 @@
+export interface Contact {
+  email: string;
+  displayName: string | null;
+  // Language tag such as "pt-BR"
+  locale: string | null;
+  // IANA time zone
+  timezone: string | null;
+}
+
+/** Where recipients missing from the local directory are looked up. */
+export interface ContactLookup {
+  readonly name: string;
+  lookup(userId: string): Promise<Contact | null>;
+}
+
+export const CONTACT_LOOKUPS = ['none', 'stub', 'user-service'] as const;
+
+/** Only the synced directory is used; unknown users have no address. */
+export class NoContactLookup implements ContactLookup {
+  readonly name = 'none';
+
+  async lookup(): Promise<Contact | null> {
+    return null;
+  }
+}
+
+/** Invents `<userId>@<domain>` addresses so local development can send email without the user service. */
+export class StubContactLookup implements ContactLookup {
+  readonly name = 'stub';
+
+  constructor(private domain: string) {}
+
+  async lookup(userId: string): Promise<Contact | null> {
+    return { email: `${userId}@${this.domain}`, displayName: null, locale: null, timezone: null };
+  }
+}
+
+interface UserServiceUser {
+  email?: string;
+  name?: string;
+  displayName?: string;
+  locale?: string;
+  timezone?: string;
+}
+
+/** Asks the user service for `GET /users/:id`. Throws on outages so the caller can retry. */
+export class UserServiceContactLookup implements ContactLookup {
+  readonly name = 'user-service';
+
+  constructor(private baseUrl: string, private serviceToken: string) {}
+
+  async lookup(userId: string): Promise<Contact | null> {
+    const response = await fetch(`${this.baseUrl.replace(/\/+$/, '')}/users/${encodeURIComponent(userId)}`, {
+      headers: { 'x-service-token': this.serviceToken, accept: 'application/json' },
+      signal: AbortSignal.timeout(5000),
+    });
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new Error(`User service responded with ${response.status}`);
+    }
+
+    const body = await response.json() as { data?: UserServiceUser };
+    const user = body.data;
+    if (!user?.email) return null;
+    return {
+      email: user.email,
+      displayName: user.displayName ?? user.name ?? null,
+      locale: user.locale ?? null,
+      timezone: user.timezone ?? null,
+    };
+  }
+}
+
+/** Builds the lookup named by CONTACT_LOOKUP (default `none`). */
+export function createContactLookup(kind = process.env.CONTACT_LOOKUP || 'none'): ContactLookup {
+  switch (kind) {
+    case 'none':
+      return new NoContactLookup();
+    case 'stub':
+      return new StubContactLookup(process.env.CONTACT_STUB_DOMAIN || 'users.nexus.local');
+    case 'user-service':
+      return new UserServiceContactLookup(
+        process.env.USER_SERVICE_URL || 'http://localhost:3001',
+        process.env.NEXUS_SERVICE_TOKEN || 'nexus-internal-service-token',
+      );
+    default:
+      throw new Error(`Unknown CONTACT_LOOKUP "${kind}"; expected one of ${CONTACT_LOOKUPS.join(', ')}`);
+  }
+}
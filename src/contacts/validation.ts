@@ -0,0 +1,30 @@
+import { z } from 'zod';
+import { isValidTimeZone } from '../utils/timezone.js';
+import type { Contact } from './lookup.js';
+
+/** Contact details as accepted from the user service, pushed or looked up. */
+export const contactSchema = z.object({
+  email: z.string().email(),
+  displayName: z.string().min(1).max(200).nullable().optional(),
+  locale: z.string()
+    .regex(/^[A-Za-z]{2,3}(-[A-Za-z0-9]{2,8})*$/, 'Expected a language tag such as "en" or "pt-BR"')
+    .nullable()
+    .optional(),
+  timezone: z.string().refine(isValidTimeZone, 'Unknown IANA time zone').nullable().optional(),
+}).strict();
+
+/**
+ * Checks a lookup answer against the same rules as pushed contacts. Invalid optional
+ * fields become null; without a valid address there is no usable contact.
+ */
+export function sanitizeContact(contact: Contact): Contact | null {
+  const { shape } = contactSchema;
+  if (!shape.email.safeParse(contact.email).success) return null;
+
+  return {
+    email: contact.email,
+    displayName: shape.displayName.safeParse(contact.displayName).success ? contact.displayName ?? null : null,
+    locale: shape.locale.safeParse(contact.locale).success ? contact.locale ?? null : null,
+    timezone: shape.timezone.safeParse(contact.timezone).success ? contact.timezone ?? null : null,
+  };
+}
@@ -1,5 +1,12 @@
 import Database from 'better-sqlite3';
 
+function addColumnIfMissing(db: Database.Database, table: string, column: string, definition: string): void {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  if (!columns.some(c => c.name === column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
 export function initializeDatabase(db: Database.Database): void {
   db.pragma('journal_mode = WAL');
   db.pragma('foreign_keys = ON');
@@ -14,6 +21,12 @@ export function initializeDatabase(db: Database.Database): void {
       body TEXT NOT NULL,
       metadata TEXT NOT NULL DEFAULT '{}',
       read INTEGER NOT NULL DEFAULT 0,
+      delivery_status TEXT,
+      delivery_error TEXT,
+      delivery_refs TEXT NOT NULL DEFAULT '[]',
+      group_key TEXT,
+      digest_id TEXT,
+      email_content TEXT,
       created_at TEXT NOT NULL DEFAULT (datetime('now'))
     );
 
@@ -23,7 +36,17 @@ export function initializeDatabase(db: Database.Database): void {
       task_status_changed TEXT NOT NULL DEFAULT '["in_app"]',
       comment_added TEXT NOT NULL DEFAULT '["in_app"]',
       project_invited TEXT NOT NULL DEFAULT '["in_app","email"]',
-      task_due_soon TEXT NOT NULL DEFAULT '["in_app","email"]'
+      task_due_soon TEXT NOT NULL DEFAULT '["in_app","email"]',
+      timezone TEXT NOT NULL DEFAULT 'UTC',
+      digest_frequency TEXT NOT NULL DEFAULT 'immediate',
+      digest_time TEXT NOT NULL DEFAULT '09:00',
+      digest_day INTEGER NOT NULL DEFAULT 1,
+      quiet_hours_enabled INTEGER NOT NULL DEFAULT 0,
+      quiet_hours_start TEXT NOT NULL DEFAULT '22:00',
+      quiet_hours_end TEXT NOT NULL DEFAULT '07:00',
+      quiet_hours_bypass TEXT NOT NULL DEFAULT '[]',
+      dnd_until TEXT,
+      email_unsubscribed TEXT NOT NULL DEFAULT '[]'
     );
 
     CREATE TABLE IF NOT EXISTS webhooks (
@@ -31,8 +54,27 @@ export function initializeDatabase(db: Database.Database): void {
       user_id TEXT NOT NULL,
       url TEXT NOT NULL,
       secret TEXT NOT NULL,
+      previous_secret TEXT,
+      previous_secret_expires_at TEXT,
       events TEXT NOT NULL DEFAULT '[]',
       active INTEGER NOT NULL DEFAULT 1,
+      verification_status TEXT NOT NULL DEFAULT 'pending' CHECK (verification_status IN ('pending', 'verified', 'failed')),
+      verified_at TEXT,
+      consecutive_failures INTEGER NOT NULL DEFAULT 0,
+      failing_since TEXT,
+      circuit_state TEXT NOT NULL DEFAULT 'closed' CHECK (circuit_state IN ('closed', 'open', 'half_open')),
+      circuit_opened_at TEXT,
+      circuit_probe_at TEXT,
+      disabled_reason TEXT,
+      disabled_at TEXT,
+      created_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+
+    CREATE TABLE IF NOT EXISTS webhook_audit_log (
+      id TEXT PRIMARY KEY,
+      webhook_id TEXT NOT NULL,
+      user_id TEXT NOT NULL,
+      action TEXT NOT NULL,
       created_at TEXT NOT NULL DEFAULT (datetime('now'))
     );
 
@@ -45,19 +87,210 @@ export function initializeDatabase(db: Database.Database): void {
       response_code INTEGER,
       attempts INTEGER NOT NULL DEFAULT 0,
       last_attempt_at TEXT,
+      is_test INTEGER NOT NULL DEFAULT 0,
+      created_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+
+    CREATE TABLE IF NOT EXISTS webhook_delivery_attempts (
+      id TEXT PRIMARY KEY,
+      delivery_id TEXT NOT NULL REFERENCES webhook_deliveries(id) ON DELETE CASCADE,
+      attempt_number INTEGER NOT NULL,
+      started_at TEXT,
+      duration_ms INTEGER,
+      request_headers TEXT NOT NULL DEFAULT '{}',
+      response_code INTEGER,
+      response_headers TEXT NOT NULL DEFAULT '{}',
+      response_body TEXT,
+      error_class TEXT,
+      error TEXT,
       created_at TEXT NOT NULL DEFAULT (datetime('now'))
     );
 
     CREATE TABLE IF NOT EXISTS sent_emails (
       id TEXT PRIMARY KEY,
+      from_email TEXT,
       to_email TEXT NOT NULL,
+      to_name TEXT,
+      cc TEXT NOT NULL DEFAULT '[]',
+      bcc TEXT NOT NULL DEFAULT '[]',
+      reply_to TEXT,
       subject TEXT NOT NULL,
       body TEXT NOT NULL,
+      html TEXT,
+      headers TEXT NOT NULL DEFAULT '{}',
+      attachments TEXT NOT NULL DEFAULT '[]',
+      list_unsubscribe TEXT,
+      raw_message TEXT,
+      message_id TEXT,
+      status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'sent', 'failed', 'suppressed')),
+      error TEXT,
+      attempts INTEGER NOT NULL DEFAULT 0,
+      sent_at TEXT,
+      created_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+
+    CREATE TABLE IF NOT EXISTS jobs (
+      id TEXT PRIMARY KEY,
+      type TEXT NOT NULL,
+      payload TEXT NOT NULL DEFAULT '{}',
+      status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'completed', 'failed')),
+      attempts INTEGER NOT NULL DEFAULT 0,
+      max_attempts INTEGER NOT NULL,
+      next_attempt_at TEXT NOT NULL,
+      lease_owner TEXT,
+      lease_expires_at TEXT,
+      last_error TEXT,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS notification_events (
+      seq INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id TEXT NOT NULL,
+      type TEXT NOT NULL,
+      data TEXT NOT NULL DEFAULT '{}',
       created_at TEXT NOT NULL DEFAULT (datetime('now'))
     );
 
+    CREATE TABLE IF NOT EXISTS digests (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      email TEXT NOT NULL,
+      frequency TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent')),
+      scheduled_for TEXT NOT NULL,
+      sent_at TEXT,
+      email_id TEXT,
+      created_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+
+    CREATE TABLE IF NOT EXISTS scheduled_notifications (
+      id TEXT PRIMARY KEY,
+      correlation_key TEXT NOT NULL,
+      user_id TEXT NOT NULL,
+      request TEXT NOT NULL,
+      send_at TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'cancelled', 'failed')),
+      notification_ids TEXT NOT NULL DEFAULT '[]',
+      error TEXT,
+      sent_at TEXT,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS user_contacts (
+      user_id TEXT PRIMARY KEY,
+      email TEXT NOT NULL,
+      display_name TEXT,
+      locale TEXT,
+      timezone TEXT,
+      source TEXT NOT NULL DEFAULT 'sync' CHECK (source IN ('sync', 'lookup')),
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+
+    CREATE TABLE IF NOT EXISTS email_suppressions (
+      email TEXT PRIMARY KEY,
+      reason TEXT NOT NULL CHECK (reason IN ('bounce', 'complaint')),
+      detail TEXT,
+      message_id TEXT,
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+
+    CREATE TABLE IF NOT EXISTS idempotency_keys (
+      key TEXT PRIMARY KEY,
+      request_hash TEXT NOT NULL,
+      status_code INTEGER NOT NULL,
+      response TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      expires_at TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS realtime_tickets (
+      ticket TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      expires_at TEXT NOT NULL
+    );
+
     CREATE INDEX IF NOT EXISTS idx_notifications_user ON notifications(user_id);
     CREATE INDEX IF NOT EXISTS idx_notifications_read ON notifications(user_id, read);
+    CREATE INDEX IF NOT EXISTS idx_notifications_feed ON notifications(user_id, created_at DESC, id DESC);
+    CREATE INDEX IF NOT EXISTS idx_notifications_type ON notifications(user_id, type, created_at DESC);
+    CREATE INDEX IF NOT EXISTS idx_notifications_channel ON notifications(user_id, channel, created_at DESC);
+    CREATE INDEX IF NOT EXISTS idx_notifications_task ON notifications(user_id, json_extract(metadata, '$.taskId'));
+    CREATE INDEX IF NOT EXISTS idx_notifications_project ON notifications(user_id, json_extract(metadata, '$.projectId'));
     CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_status ON webhook_deliveries(status);
+    CREATE INDEX IF NOT EXISTS idx_webhook_audit_log_webhook ON webhook_audit_log(webhook_id);
+    CREATE INDEX IF NOT EXISTS idx_webhook_delivery_attempts_delivery ON webhook_delivery_attempts(delivery_id);
+    CREATE INDEX IF NOT EXISTS idx_jobs_due ON jobs(status, next_attempt_at);
+    CREATE INDEX IF NOT EXISTS idx_digests_user_status ON digests(user_id, status);
+    CREATE INDEX IF NOT EXISTS idx_scheduled_notifications_due ON scheduled_notifications(status, send_at);
+    CREATE INDEX IF NOT EXISTS idx_scheduled_notifications_key ON scheduled_notifications(correlation_key);
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_scheduled_notifications_pending_key
+      ON scheduled_notifications(correlation_key) WHERE status = 'pending';
+    CREATE INDEX IF NOT EXISTS idx_idempotency_keys_expires ON idempotency_keys(expires_at);
+    CREATE INDEX IF NOT EXISTS idx_notification_events_user ON notification_events(user_id, seq);
+  `);
+
+  // Migrations for databases created before these columns existed
+  addColumnIfMissing(db, 'notifications', 'delivery_status', 'TEXT');
+  addColumnIfMissing(db, 'notifications', 'delivery_error', 'TEXT');
+  addColumnIfMissing(db, 'notifications', 'delivery_refs', "TEXT NOT NULL DEFAULT '[]'");
+  addColumnIfMissing(db, 'notifications', 'group_key', 'TEXT');
+  addColumnIfMissing(db, 'notifications', 'digest_id', 'TEXT');
+  addColumnIfMissing(db, 'notifications', 'email_content', 'TEXT');
+  addColumnIfMissing(db, 'sent_emails', 'html', 'TEXT');
+  addColumnIfMissing(db, 'sent_emails', 'message_id', 'TEXT');
+  // Emails recorded before transports existed were only logged; they are not sent again
+  addColumnIfMissing(db, 'sent_emails', 'status', "TEXT NOT NULL DEFAULT 'sent'");
+  addColumnIfMissing(db, 'sent_emails', 'error', 'TEXT');
+  addColumnIfMissing(db, 'sent_emails', 'attempts', 'INTEGER NOT NULL DEFAULT 0');
+  addColumnIfMissing(db, 'sent_emails', 'sent_at', 'TEXT');
+  addColumnIfMissing(db, 'sent_emails', 'from_email', 'TEXT');
+  addColumnIfMissing(db, 'sent_emails', 'cc', "TEXT NOT NULL DEFAULT '[]'");
+  addColumnIfMissing(db, 'sent_emails', 'bcc', "TEXT NOT NULL DEFAULT '[]'");
+  addColumnIfMissing(db, 'sent_emails', 'reply_to', 'TEXT');
+  addColumnIfMissing(db, 'sent_emails', 'headers', "TEXT NOT NULL DEFAULT '{}'");
+  addColumnIfMissing(db, 'sent_emails', 'attachments', "TEXT NOT NULL DEFAULT '[]'");
+  addColumnIfMissing(db, 'sent_emails', 'list_unsubscribe', 'TEXT');
+  addColumnIfMissing(db, 'sent_emails', 'raw_message', 'TEXT');
+  addColumnIfMissing(db, 'sent_emails', 'to_name', 'TEXT');
+  addColumnIfMissing(db, 'notification_preferences', 'timezone', "TEXT NOT NULL DEFAULT 'UTC'");
+  addColumnIfMissing(db, 'notification_preferences', 'digest_frequency', "TEXT NOT NULL DEFAULT 'immediate'");
+  addColumnIfMissing(db, 'notification_preferences', 'digest_time', "TEXT NOT NULL DEFAULT '09:00'");
+  addColumnIfMissing(db, 'notification_preferences', 'digest_day', 'INTEGER NOT NULL DEFAULT 1');
+  addColumnIfMissing(db, 'notification_preferences', 'quiet_hours_enabled', 'INTEGER NOT NULL DEFAULT 0');
+  addColumnIfMissing(db, 'notification_preferences', 'quiet_hours_start', "TEXT NOT NULL DEFAULT '22:00'");
+  addColumnIfMissing(db, 'notification_preferences', 'quiet_hours_end', "TEXT NOT NULL DEFAULT '07:00'");
+  addColumnIfMissing(db, 'notification_preferences', 'quiet_hours_bypass', "TEXT NOT NULL DEFAULT '[]'");
+  addColumnIfMissing(db, 'notification_preferences', 'dnd_until', 'TEXT');
+  addColumnIfMissing(db, 'notification_preferences', 'email_unsubscribed', "TEXT NOT NULL DEFAULT '[]'");
+  addColumnIfMissing(db, 'webhook_deliveries', 'is_test', 'INTEGER NOT NULL DEFAULT 0');
+  addColumnIfMissing(db, 'webhooks', 'previous_secret', 'TEXT');
+  addColumnIfMissing(db, 'webhooks', 'previous_secret_expires_at', 'TEXT');
+  // Webhooks registered before the verification handshake existed keep receiving deliveries
+  addColumnIfMissing(db, 'webhooks', 'verification_status', "TEXT NOT NULL DEFAULT 'verified'");
+  addColumnIfMissing(db, 'webhooks', 'verified_at', 'TEXT');
+  addColumnIfMissing(db, 'webhooks', 'consecutive_failures', 'INTEGER NOT NULL DEFAULT 0');
+  addColumnIfMissing(db, 'webhooks', 'failing_since', 'TEXT');
+  addColumnIfMissing(db, 'webhooks', 'circuit_state', "TEXT NOT NULL DEFAULT 'closed'");
+  addColumnIfMissing(db, 'webhooks', 'circuit_opened_at', 'TEXT');
+  addColumnIfMissing(db, 'webhooks', 'circuit_probe_at', 'TEXT');
+  addColumnIfMissing(db, 'webhooks', 'disabled_reason', 'TEXT');
+  addColumnIfMissing(db, 'webhooks', 'disabled_at', 'TEXT');
+  addColumnIfMissing(db, 'webhook_delivery_attempts', 'started_at', 'TEXT');
+  addColumnIfMissing(db, 'webhook_delivery_attempts', 'duration_ms', 'INTEGER');
+  addColumnIfMissing(db, 'webhook_delivery_attempts', 'request_headers', "TEXT NOT NULL DEFAULT '{}'");
+  addColumnIfMissing(db, 'webhook_delivery_attempts', 'response_headers', "TEXT NOT NULL DEFAULT '{}'");
+  addColumnIfMissing(db, 'webhook_delivery_attempts', 'error_class', 'TEXT');
+
+  // Notifications sent before grouping existed get the default key (see NotificationService.groupKeyFor)
+  db.exec(`
+    UPDATE notifications SET group_key = COALESCE(type || ':' || json_extract(metadata, '$.taskId'), id)
+    WHERE group_key IS NULL;
+
+    CREATE INDEX IF NOT EXISTS idx_notifications_group ON notifications(user_id, group_key, created_at DESC);
+    CREATE INDEX IF NOT EXISTS idx_notifications_digest ON notifications(digest_id);
   `);
 }
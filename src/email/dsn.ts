@@ -0,0 +1,131 @@
+import type { BounceType, EmailEvent } from '../services/suppression.service.js';
+
+interface MimePart {
+  headers: Record<string, string>;
+  body: string;
+}
+
+interface ContentType {
+  type: string;
+  params: Record<string, string>;
+}
+
+// Header block to lowercase name -> value; continuation lines are unfolded and the first occurrence wins
+function parseFields(block: string): Record<string, string> {
+  const fields: Record<string, string> = {};
+  for (const line of block.replace(/\n[ \t]+/g, ' ').split('\n')) {
+    const colon = line.indexOf(':');
+    if (colon <= 0) continue;
+    const name = line.slice(0, colon).trim().toLowerCase();
+    if (!(name in fields)) fields[name] = line.slice(colon + 1).trim();
+  }
+  return fields;
+}
+
+function splitPart(text: string): MimePart {
+  const end = text.indexOf('\n\n');
+  if (end === -1) return { headers: parseFields(text), body: '' };
+  return { headers: parseFields(text.slice(0, end)), body: text.slice(end + 2) };
+}
+
+function parseContentType(value = 'text/plain'): ContentType {
+  const [type, ...rest] = value.split(';');
+  const params: Record<string, string> = {};
+  for (const param of rest) {
+    const eq = param.indexOf('=');
+    if (eq === -1) continue;
+    params[param.slice(0, eq).trim().toLowerCase()] = param.slice(eq + 1).trim().replace(/^"(.*)"$/, '$1');
+  }
+  return { type: type.trim().toLowerCase(), params };
+}
+
+function decodeBody(body: string, encoding = '7bit'): string {
+  switch (encoding.toLowerCase()) {
+    case 'base64':
+      return Buffer.from(body.replace(/\s+/g, ''), 'base64').toString('utf8');
+    case 'quoted-printable':
+      return body
+        .replace(/=\n/g, '')
+        .replace(/=([0-9A-Fa-f]{2})/g, (_match, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+    default:
+      return body;
+  }
+}
+
+// Leaf parts of a message; attached messages (message/rfc822) are kept whole
+function leafParts(part: MimePart): MimePart[] {
+  const contentType = parseContentType(part.headers['content-type']);
+  const boundary = contentType.params.boundary;
+  if (!contentType.type.startsWith('multipart/') || !boundary) {
+    return [{ headers: part.headers, body: decodeBody(part.body, part.headers['content-transfer-encoding']) }];
+  }
+
+  const escaped = boundary.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const sections = part.body.split(new RegExp(`^--${escaped}(?:--)?[ \\t]*$`, 'm'));
+  // The first section is the preamble and the last the epilogue
+  return sections.slice(1, -1).flatMap(section => leafParts(splitPart(section.replace(/^\n/, ''))));
+}
+
+// "smtp; 550 5.1.1 User unknown" -> "550 5.1.1 User unknown"
+function withoutType(value: string): string {
+  return value.slice(value.indexOf(';') + 1).trim();
+}
+
+// "rfc822; user@example.com" or "User <user@example.com>" -> "user@example.com"
+function addressOf(value: string): string {
+  const address = withoutType(value);
+  return address.match(/<([^>]+)>/)?.[1] ?? address;
+}
+
+function bounceTypeOf(action: string, status: string | undefined): BounceType | null {
+  if (action === 'delayed') return 'transient';
+  if (action !== 'failed') return null;
+  return status?.startsWith('4') ? 'transient' : 'permanent';
+}
+
+function deliveryStatusEvents(body: string, messageId: string | undefined): EmailEvent[] {
+  // One per-message block followed by one block per recipient
+  const [, ...recipients] = body.trim().split(/\n[ \t]*\n/).map(parseFields);
+  const events: EmailEvent[] = [];
+  for (const fields of recipients) {
+    const recipient = fields['final-recipient'] ?? fields['original-recipient'];
+    const bounceType = bounceTypeOf((fields.action ?? '').toLowerCase(), fields.status);
+    if (!recipient || !bounceType) continue;
+
+    const diagnostic = fields['diagnostic-code'] ? withoutType(fields['diagnostic-code']) : fields.status;
+    events.push({ type: 'bounce', email: addressOf(recipient), bounceType, diagnostic, messageId });
+  }
+  return events;
+}
+
+/**
+ * Extracts bounce and complaint events from a raw delivery status notification
+ * (RFC 3464 multipart/report; report-type=delivery-status) or an abuse report
+ * (RFC 5965 report-type=feedback-report). Successful deliveries are left out.
+ */
+export function parseDsn(raw: string): EmailEvent[] {
+  const parts = leafParts(splitPart(raw.replace(/\r\n/g, '\n')));
+
+  // The returned original message, or just its headers, identifies what bounced
+  const original = parts.find(part => /^(message\/rfc822|text\/rfc822-headers)$/.test(
+    parseContentType(part.headers['content-type']).type,
+  ));
+  const originalHeaders = original ? splitPart(original.body).headers : {};
+  const messageId = originalHeaders['message-id'];
+
+  const events: EmailEvent[] = [];
+  for (const part of parts) {
+    const { type } = parseContentType(part.headers['content-type']);
+    if (type === 'message/delivery-status' || type === 'message/global-delivery-status') {
+      events.push(...deliveryStatusEvents(part.body, messageId));
+    }
+    if (type === 'message/feedback-report') {
+      const fields = parseFields(part.body.trim());
+      const recipient = fields['original-rcpt-to'] ?? originalHeaders.to;
+      if (recipient) {
+        events.push({ type: 'complaint', email: addressOf(recipient), diagnostic: fields['feedback-type'], messageId });
+      }
+    }
+  }
+  return events;
+}
@@ -0,0 +1,45 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { nanoid } from 'nanoid';
+import type { EmailTransport, RenderedEmail, TransportResult } from './transport.js';
+
+/** Writes every message to `<dir>/<timestamp>-<id>.eml`. */
+export class FileTransport implements EmailTransport {
+  readonly name = 'file';
+
+  constructor(private dir: string) {}
+
+  async send(email: RenderedEmail): Promise<TransportResult> {
+    await fs.mkdir(this.dir, { recursive: true });
+    const file = path.join(this.dir, `${Date.now()}-${nanoid(10)}.eml`);
+    await fs.writeFile(file, email.raw);
+    return { messageId: email.message.messageId };
+  }
+
+  async close(): Promise<void> {}
+}
+
+/**
+ * Delivers into a Maildir that any mail client can open. Messages are written
+ * under tmp/ and renamed into new/, so readers never see a partial file.
+ */
+export class MaildirTransport implements EmailTransport {
+  readonly name = 'maildir';
+
+  constructor(private dir: string) {}
+
+  async send(email: RenderedEmail): Promise<TransportResult> {
+    for (const sub of ['tmp', 'new', 'cur']) {
+      await fs.mkdir(path.join(this.dir, sub), { recursive: true });
+    }
+
+    const name = `${Date.now()}.${nanoid(10)}.${os.hostname().replace(/[/:]/g, '_')}`;
+    const tmp = path.join(this.dir, 'tmp', name);
+    await fs.writeFile(tmp, email.raw);
+    await fs.rename(tmp, path.join(this.dir, 'new', name));
+    return { messageId: email.message.messageId };
+  }
+
+  async close(): Promise<void> {}
+}
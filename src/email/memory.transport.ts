@@ -0,0 +1,30 @@
+import type { EmailTransport, RenderedEmail, TransportResult } from './transport.js';
+
+/** Keeps sent messages in memory, for tests. */
+export class MemoryTransport implements EmailTransport {
+  readonly name = 'memory';
+  messages: RenderedEmail[] = [];
+
+  async send(email: RenderedEmail): Promise<TransportResult> {
+    this.messages.push(email);
+    return { messageId: email.message.messageId };
+  }
+
+  clear(): void {
+    this.messages = [];
+  }
+
+  async close(): Promise<void> {}
+}
+
+/** Prints each message to the console instead of sending it. */
+export class LogTransport implements EmailTransport {
+  readonly name = 'log';
+
+  async send({ message, envelope }: RenderedEmail): Promise<TransportResult> {
+    console.log(`[EMAIL] To: ${envelope.to.join(', ')} | Subject: ${message.subject} | Body: ${message.text}`);
+    return { messageId: message.messageId };
+  }
+
+  async close(): Promise<void> {}
+}
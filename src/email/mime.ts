@@ -0,0 +1,46 @@
+import MailComposer from 'nodemailer/lib/mail-composer/index.js';
+import type { EmailMessage, RenderedEmail } from './transport.js';
+
+/**
+ * Renders the full RFC 5322 message as it goes over the wire: multipart/alternative
+ * for text and HTML, multipart/related for inline images and multipart/mixed for
+ * attachments. Bcc recipients only end up in the envelope.
+ */
+export async function buildRawMessage(message: EmailMessage): Promise<RenderedEmail> {
+  const headers: Record<string, string> = { ...message.headers };
+  if (message.listUnsubscribe) {
+    headers['List-Unsubscribe'] = `<${message.listUnsubscribe}>`;
+    // RFC 8058: mail clients may unsubscribe with a single POST to the URL
+    if (/^https?:/i.test(message.listUnsubscribe)) {
+      headers['List-Unsubscribe-Post'] = 'List-Unsubscribe=One-Click';
+    }
+  }
+
+  const node = new MailComposer({
+    messageId: message.messageId,
+    from: message.from,
+    to: message.toName ? { name: message.toName, address: message.to } : message.to,
+    cc: message.cc,
+    bcc: message.bcc,
+    replyTo: message.replyTo ?? undefined,
+    subject: message.subject,
+    text: message.text,
+    html: message.html ?? undefined,
+    headers,
+    attachments: message.attachments?.map(attachment => ({
+      filename: attachment.filename,
+      contentType: attachment.contentType,
+      content: attachment.content,
+      encoding: 'base64',
+      cid: attachment.contentId,
+      contentDisposition: attachment.contentId ? 'inline' as const : 'attachment' as const,
+    })),
+  }).compile();
+
+  const envelope = node.getEnvelope();
+  return {
+    message,
+    envelope: { from: envelope.from || message.from, to: envelope.to },
+    raw: await node.build(),
+  };
+}
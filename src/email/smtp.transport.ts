@@ -0,0 +1,65 @@
+import nodemailer from 'nodemailer';
+import { EmailTransportError } from './transport.js';
+import type { EmailTransport, RenderedEmail, TransportResult } from './transport.js';
+
+export interface SmtpTransportOptions {
+  host: string;
+  port: number;
+  // true for implicit TLS (usually port 465); otherwise the connection is upgraded with STARTTLS
+  secure: boolean;
+  // Refuse to send if the server does not offer STARTTLS
+  requireTls: boolean;
+  user?: string;
+  password?: string;
+  maxConnections: number;
+  maxMessages: number;
+}
+
+export function smtpOptionsFromEnv(): SmtpTransportOptions {
+  return {
+    host: process.env.SMTP_HOST || 'localhost',
+    port: parseInt(process.env.SMTP_PORT || '587', 10),
+    secure: process.env.SMTP_SECURE === 'true',
+    requireTls: process.env.SMTP_REQUIRE_TLS !== 'false',
+    user: process.env.SMTP_USER || undefined,
+    password: process.env.SMTP_PASSWORD || undefined,
+    maxConnections: parseInt(process.env.SMTP_POOL_MAX_CONNECTIONS || '5', 10),
+    maxMessages: parseInt(process.env.SMTP_POOL_MAX_MESSAGES || '100', 10),
+  };
+}
+
+/** Sends through an SMTP relay over a pool of reused connections. */
+export class SmtpTransport implements EmailTransport {
+  readonly name = 'smtp';
+  private transporter: nodemailer.Transporter;
+
+  constructor(options: SmtpTransportOptions) {
+    this.transporter = nodemailer.createTransport({
+      pool: true,
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      requireTLS: !options.secure && options.requireTls,
+      auth: options.user ? { user: options.user, pass: options.password } : undefined,
+      maxConnections: options.maxConnections,
+      maxMessages: options.maxMessages,
+    });
+  }
+
+  async send({ message, envelope, raw }: RenderedEmail): Promise<TransportResult> {
+    try {
+      // The pre-rendered message goes out byte for byte, so the stored copy is what the recipient gets
+      await this.transporter.sendMail({ envelope, raw });
+      return { messageId: message.messageId };
+    } catch (err) {
+      const responseCode = (err as { responseCode?: number }).responseCode;
+      // 5xx replies are final; 4xx and connection errors are worth retrying
+      const permanent = responseCode !== undefined && responseCode >= 500 && responseCode < 600;
+      throw new EmailTransportError((err as Error).message, permanent);
+    }
+  }
+
+  async close(): Promise<void> {
+    this.transporter.close();
+  }
+}
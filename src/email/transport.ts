@@ -0,0 +1,82 @@
+import { FileTransport, MaildirTransport } from './file.transport.js';
+import { LogTransport, MemoryTransport } from './memory.transport.js';
+import { SmtpTransport, smtpOptionsFromEnv } from './smtp.transport.js';
+
+export interface EmailAttachment {
+  filename: string;
+  contentType: string;
+  // Base64-encoded content
+  content: string;
+  // Set for inline images; the HTML part references them as `cid:<contentId>`
+  contentId?: string;
+}
+
+export interface EmailMessage {
+  // RFC 5322 Message-ID including the angle brackets; fixed before the first attempt so retries reuse it
+  messageId: string;
+  from: string;
+  to: string;
+  // Display name shown with the recipient address
+  toName?: string | null;
+  cc?: string[];
+  // Only part of the envelope, never of the rendered headers
+  bcc?: string[];
+  replyTo?: string | null;
+  subject: string;
+  text: string;
+  html?: string | null;
+  headers?: Record<string, string>;
+  attachments?: EmailAttachment[];
+  // https: or mailto: URL for the List-Unsubscribe header
+  listUnsubscribe?: string | null;
+}
+
+export interface EmailEnvelope {
+  from: string;
+  to: string[];
+}
+
+/** A message rendered once by buildRawMessage; transports send `raw` as is. */
+export interface RenderedEmail {
+  message: EmailMessage;
+  envelope: EmailEnvelope;
+  raw: Buffer;
+}
+
+export interface TransportResult {
+  messageId: string;
+}
+
+export class EmailTransportError extends Error {
+  // Permanent failures (e.g. an SMTP 5xx rejection) are not retried
+  constructor(message: string, public permanent = false) {
+    super(message);
+    this.name = 'EmailTransportError';
+  }
+}
+
+export interface EmailTransport {
+  readonly name: string;
+  send(email: RenderedEmail): Promise<TransportResult>;
+  close(): Promise<void>;
+}
+
+export const EMAIL_TRANSPORTS = ['log', 'memory', 'file', 'maildir', 'smtp'] as const;
+
+/** Builds the transport named by EMAIL_TRANSPORT (default `log`, which only prints to the console). */
+export function createEmailTransport(kind = process.env.EMAIL_TRANSPORT || 'log'): EmailTransport {
+  switch (kind) {
+    case 'log':
+      return new LogTransport();
+    case 'memory':
+      return new MemoryTransport();
+    case 'file':
+      return new FileTransport(process.env.EMAIL_FILE_DIR || './data/emails');
+    case 'maildir':
+      return new MaildirTransport(process.env.EMAIL_MAILDIR || './data/maildir');
+    case 'smtp':
+      return new SmtpTransport(smtpOptionsFromEnv());
+    default:
+      throw new Error(`Unknown EMAIL_TRANSPORT "${kind}"; expected one of ${EMAIL_TRANSPORTS.join(', ')}`);
+  }
+}
@@ -0,0 +1,249 @@
+import http from 'http';
+import { Duplex } from 'stream';
+import Database from 'better-sqlite3';
+import { nanoid } from 'nanoid';
+import { RawData, WebSocket, WebSocketServer } from 'ws';
+import { z } from 'zod';
+import { NotificationService } from '../services/notification.service.js';
+import { NotificationEvent, NotificationEventService } from '../services/notification-events.service.js';
+import { RealtimeTicketService } from '../services/realtime-ticket.service.js';
+
+export const WEBSOCKET_PATH = '/notifications/ws';
+
+export interface WebSocketGatewayOptions {
+  heartbeatMs?: number;
+  maxConnectionsPerUser?: number;
+  // Outgoing bytes a client may leave unread before it is disconnected
+  maxBufferedBytes?: number;
+}
+
+interface Connection {
+  id: string;
+  userId: string;
+  socket: WebSocket;
+  alive: boolean;
+  // Events at or below it were already sent (a replayed event can still be flushed live)
+  lastSentSeq: number;
+  unsubscribe: () => void;
+}
+
+const requestId = z.string().max(100).optional();
+
+const commandSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('mark_read'), id: z.string().min(1), requestId }),
+  z.object({ type: z.literal('mark_all_read'), requestId }),
+  z.object({ type: z.literal('ack'), seq: z.number().int().min(0), requestId }),
+  z.object({ type: z.literal('ping'), requestId }),
+]);
+
+type Command = z.infer<typeof commandSchema>;
+
+const MAX_MESSAGE_BYTES = 16 * 1024;
+const DEFAULTS: Required<WebSocketGatewayOptions> = {
+  heartbeatMs: parseInt(process.env.WS_HEARTBEAT_MS || '30000', 10),
+  maxConnectionsPerUser: parseInt(process.env.WS_MAX_CONNECTIONS_PER_USER || '5', 10),
+  maxBufferedBytes: parseInt(process.env.WS_MAX_BUFFERED_BYTES || '1048576', 10),
+};
+
+function rejectUpgrade(socket: Duplex, status: number, message: string): void {
+  const body = JSON.stringify({ success: false, error: { message } });
+  socket.end(
+    `HTTP/1.1 ${status} ${http.STATUS_CODES[status]}\r\n` +
+    'Content-Type: application/json\r\n' +
+    `Content-Length: ${Buffer.byteLength(body)}\r\n` +
+    'Connection: close\r\n\r\n' +
+    body,
+  );
+}
+
+/**
+ * WebSocket endpoint at /notifications/ws on the app's HTTP server. Every
+ * connection of a user subscribes to that user's notification events, so
+ * each open tab gets the same pushes, and can send mark-read/ack commands.
+ * The highest acknowledged `seq` of a user is where a reconnect without
+ * `lastEventId` resumes.
+ */
+export class WebSocketGateway {
+  private readonly wss = new WebSocketServer({ noServer: true, maxPayload: MAX_MESSAGE_BYTES });
+  private readonly connections = new Map<string, Set<Connection>>();
+  // Highest `seq` acknowledged per user, kept across reconnects
+  private readonly ackedSeqs = new Map<string, number>();
+  private readonly options: Required<WebSocketGatewayOptions>;
+  private heartbeat: NodeJS.Timeout | null = null;
+
+  constructor(server: http.Server, private db: Database.Database, options: WebSocketGatewayOptions = {}) {
+    this.options = { ...DEFAULTS, ...options };
+
+    server.on('upgrade', (req, socket, head) => this.handleUpgrade(req, socket, head));
+    server.on('listening', () => this.startHeartbeat());
+    server.on('close', () => this.close());
+  }
+
+  connectionCount(userId: string): number {
+    return this.connections.get(userId)?.size ?? 0;
+  }
+
+  ackedSeq(userId: string): number | null {
+    return this.ackedSeqs.get(userId) ?? null;
+  }
+
+  /** Closes every connection, e.g. on shutdown; the HTTP server waits for them otherwise. */
+  close(): void {
+    if (this.heartbeat) {
+      clearInterval(this.heartbeat);
+      this.heartbeat = null;
+    }
+    for (const connections of this.connections.values()) {
+      for (const connection of connections) {
+        connection.socket.close(1001, 'Server shutting down');
+      }
+    }
+  }
+
+  private handleUpgrade(req: http.IncomingMessage, socket: Duplex, head: Buffer): void {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    if (url.pathname !== WEBSOCKET_PATH) {
+      rejectUpgrade(socket, 404, 'Not found');
+      return;
+    }
+
+    const ticket = url.searchParams.get('ticket');
+    const userId = ticket
+      ? new RealtimeTicketService(this.db).redeem(ticket)
+      : (req.headers['x-user-id'] as string | undefined);
+    if (!userId) {
+      rejectUpgrade(socket, 401, 'Authentication required');
+      return;
+    }
+    if (this.connectionCount(userId) >= this.options.maxConnectionsPerUser) {
+      rejectUpgrade(socket, 429, 'Too many open connections');
+      return;
+    }
+
+    const lastEventId = Number(url.searchParams.get('lastEventId') ?? NaN);
+    this.wss.handleUpgrade(req, socket, head, ws => {
+      this.register(ws, userId, Number.isInteger(lastEventId) && lastEventId >= 0 ? lastEventId : null);
+    });
+  }
+
+  private register(socket: WebSocket, userId: string, lastEventId: number | null): void {
+    const events = new NotificationEventService(this.db);
+    const resumeFrom = lastEventId ?? this.ackedSeq(userId);
+    const connection: Connection = {
+      id: nanoid(),
+      userId,
+      socket,
+      alive: true,
+      lastSentSeq: resumeFrom ?? 0,
+      unsubscribe: () => {},
+    };
+
+    if (!this.connections.has(userId)) this.connections.set(userId, new Set());
+    this.connections.get(userId)!.add(connection);
+
+    const unreadCount = new NotificationService(this.db).getUnreadCount(userId);
+    this.send(connection, { type: 'ready', data: { connectionId: connection.id, unreadCount } });
+    // Replay and subscribe run synchronously, so no event can slip in between
+    if (resumeFrom !== null) {
+      for (const event of events.since(userId, resumeFrom)) {
+        this.pushEvent(connection, event);
+      }
+    }
+    connection.unsubscribe = events.subscribe(userId, event => this.pushEvent(connection, event));
+
+    socket.on('pong', () => { connection.alive = true; });
+    socket.on('message', (data, isBinary) => this.handleMessage(connection, data, isBinary));
+    socket.on('close', () => this.unregister(connection));
+    socket.on('error', () => socket.terminate());
+  }
+
+  private unregister(connection: Connection): void {
+    connection.unsubscribe();
+    const connections = this.connections.get(connection.userId);
+    connections?.delete(connection);
+    if (connections?.size === 0) this.connections.delete(connection.userId);
+  }
+
+  private pushEvent(connection: Connection, event: NotificationEvent): void {
+    if (event.seq <= connection.lastSentSeq) return;
+    connection.lastSentSeq = event.seq;
+    if (event.type === 'notification.created') {
+      this.send(connection, { type: 'notification', seq: event.seq, data: event.data.notification });
+    } else {
+      this.send(connection, { type: event.type, seq: event.seq, data: event.data });
+    }
+  }
+
+  private handleMessage(connection: Connection, data: RawData, isBinary: boolean): void {
+    let command: Command;
+    try {
+      if (isBinary) throw new Error('Binary messages are not supported');
+      const parsed = commandSchema.safeParse(JSON.parse(data.toString()));
+      if (!parsed.success) throw new Error('Unknown or invalid command');
+      command = parsed.data;
+    } catch (err) {
+      this.send(connection, { type: 'error', error: { code: 'VALIDATION_ERROR', message: (err as Error).message } });
+      return;
+    }
+
+    const service = new NotificationService(this.db);
+    switch (command.type) {
+      case 'mark_read': {
+        // The resulting read event reaches every tab, including this one
+        const notification = service.markAsRead(command.id, connection.userId);
+        if (!notification) {
+          this.reply(connection, command, { ok: false, error: { code: 'NOT_FOUND', message: 'Notification not found' } });
+        } else {
+          this.reply(connection, command, { ok: true, data: notification });
+        }
+        break;
+      }
+      case 'mark_all_read':
+        this.reply(connection, command, { ok: true, data: { updated: service.markAllAsRead(connection.userId) } });
+        break;
+      case 'ack': {
+        const seq = Math.max(this.ackedSeq(connection.userId) ?? 0, command.seq);
+        this.ackedSeqs.set(connection.userId, seq);
+        this.reply(connection, command, { ok: true, data: { seq } });
+        break;
+      }
+      case 'ping':
+        this.send(connection, { type: 'pong', requestId: command.requestId });
+        break;
+    }
+  }
+
+  private reply(connection: Connection, command: Command, result: Record<string, unknown>): void {
+    this.send(connection, { type: 'result', command: command.type, requestId: command.requestId, ...result });
+  }
+
+  private send(connection: Connection, message: Record<string, unknown>): void {
+    const { socket } = connection;
+    if (socket.readyState !== WebSocket.OPEN) return;
+
+    // A client that stops reading would otherwise grow this buffer without bound;
+    // it can reconnect with lastEventId to catch up.
+    if (socket.bufferedAmount > this.options.maxBufferedBytes) {
+      socket.close(1013, 'Client is not keeping up');
+      return;
+    }
+    socket.send(JSON.stringify(message));
+  }
+
+  private startHeartbeat(): void {
+    if (this.heartbeat) return;
+    this.heartbeat = setInterval(() => {
+      for (const connections of this.connections.values()) {
+        for (const connection of connections) {
+          if (!connection.alive) {
+            connection.socket.terminate();
+            continue;
+          }
+          connection.alive = false;
+          connection.socket.ping();
+        }
+      }
+    }, this.options.heartbeatMs);
+    this.heartbeat.unref();
+  }
+}
@@ -1,11 +1,59 @@
 import { createApp } from './server.js';
-import { getDatabase } from './db/client.js';
+import { getDatabase, closeDatabase } from './db/client.js';
+import { WebhookService } from './services/webhook.service.js';
+import { NotificationEventService } from './services/notification-events.service.js';
+import { IdempotencyService } from './services/idempotency.service.js';
+import { QueueWorker } from './workers/queue.worker.js';
+import { createJobHandlers } from './workers/job-handlers.js';
+import { createEmailTransport } from './email/transport.js';
+import { createContactLookup } from './contacts/lookup.js';
+import { NotificationScheduler } from './workers/scheduler.worker.js';
 
 const PORT = parseInt(process.env.PORT || '3003', 10);
 
 const db = getDatabase();
-const { app } = createApp({ db });
+const { server, gateway } = createApp({ db });
 
-app.listen(PORT, () => {
+const webhooks = new WebhookService(db);
+webhooks.encryptLegacySecrets();
+
+const resumed = webhooks.resumePending();
+if (resumed > 0) {
+  console.log(`Resumed ${resumed} pending webhook deliveries`);
+}
+
+// Stream events are only needed for reconnect replay; drop old ones and expired idempotency keys hourly
+const events = new NotificationEventService(db);
+const idempotency = new IdempotencyService(db);
+const prune = () => {
+  events.prune();
+  idempotency.prune();
+};
+prune();
+const pruneTimer = setInterval(prune, 60 * 60 * 1000);
+
+const emailTransport = createEmailTransport();
+const contactLookup = createContactLookup();
+const worker = new QueueWorker(db, createJobHandlers(db, { emailTransport, contactLookup }));
+worker.start();
+
+const scheduler = new NotificationScheduler(db);
+scheduler.start();
+
+server.listen(PORT, () => {
   console.log(`Notification service running on port ${PORT}`);
 });
+
+async function shutdown(): Promise<void> {
+  clearInterval(pruneTimer);
+  gateway.close();
+  server.close();
+  scheduler.stop();
+  await worker.stop();
+  await emailTransport.close();
+  closeDatabase();
+  process.exit(0);
+}
+
+process.on('SIGTERM', shutdown);
+process.on('SIGINT', shutdown);
@@ -42,3 +42,16 @@ export function serviceAuthMiddleware(req: Request, res: Response, next: NextFun
     error: { code: 'FORBIDDEN', message: 'Service token required' },
   });
 }
+
+// Runs after authMiddleware on routes meant for operators rather than end users
+export function adminMiddleware(req: AuthenticatedRequest, res: Response, next: NextFunction): void {
+  if (req.userRole === 'admin') {
+    next();
+    return;
+  }
+
+  res.status(403).json({
+    success: false,
+    error: { code: 'FORBIDDEN', message: 'Admin role required' },
+  });
+}
@@ -0,0 +1,66 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { ContactService } from '../services/contact.service.js';
+import { contactSchema } from '../contacts/validation.js';
+import { serviceAuthMiddleware } from '../middleware/auth.middleware.js';
+import { NotFoundError, ValidationError } from '../middleware/error.middleware.js';
+
+const router = Router();
+
+const CONTACT_SYNC_MAX = 500;
+
+const userIdSchema = z.string().min(1).max(255);
+
+const contactSyncSchema = z.object({
+  contacts: z.array(contactSchema.extend({ userId: userIdSchema })).min(1).max(CONTACT_SYNC_MAX),
+});
+
+// PUT /contacts/:userId - create or replace a user's contact details (called by the user service)
+router.put('/contacts/:userId', serviceAuthMiddleware, (req: Request, res: Response) => {
+  const parsed = contactSchema.safeParse(req.body);
+  if (!parsed.success) {
+    throw new ValidationError('Invalid contact data', parsed.error.flatten().fieldErrors);
+  }
+
+  const db = req.app.get('db');
+  const contact = new ContactService(db).upsert(req.params.userId, parsed.data);
+  res.json({ success: true, data: contact });
+});
+
+// POST /contacts/sync - upsert many contacts in one transaction
+router.post('/contacts/sync', serviceAuthMiddleware, (req: Request, res: Response) => {
+  const parsed = contactSyncSchema.safeParse(req.body);
+  if (!parsed.success) {
+    throw new ValidationError('Invalid contacts', parsed.error.flatten().fieldErrors);
+  }
+
+  const db = req.app.get('db');
+  const contacts = new ContactService(db).upsertMany(parsed.data.contacts);
+  res.json({ success: true, data: { synced: contacts.length } });
+});
+
+// GET /contacts/:userId - the directory entry used for email delivery
+router.get('/contacts/:userId', serviceAuthMiddleware, (req: Request, res: Response) => {
+  const db = req.app.get('db');
+  const contact = new ContactService(db).get(req.params.userId);
+
+  if (!contact) {
+    throw new NotFoundError('Contact not found');
+  }
+
+  res.json({ success: true, data: contact });
+});
+
+// DELETE /contacts/:userId - forget a user's contact details
+router.delete('/contacts/:userId', serviceAuthMiddleware, (req: Request, res: Response) => {
+  const db = req.app.get('db');
+  const deleted = new ContactService(db).remove(req.params.userId);
+
+  if (!deleted) {
+    throw new NotFoundError('Contact not found');
+  }
+
+  res.json({ success: true, data: { deleted: true } });
+});
+
+export default router;
@@ -0,0 +1,124 @@
+import express, { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { EmailService } from '../services/email.service.js';
+import { SuppressionService } from '../services/suppression.service.js';
+import { parseDsn } from '../email/dsn.js';
+import { adminMiddleware, authMiddleware, serviceAuthMiddleware } from '../middleware/auth.middleware.js';
+import { NotFoundError, ValidationError } from '../middleware/error.middleware.js';
+
+const router = Router();
+
+const EMAIL_EVENTS_MAX = 500;
+
+const emailEventSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('bounce'),
+    email: z.string().email(),
+    bounceType: z.enum(['permanent', 'transient']),
+    diagnostic: z.string().max(1000).optional(),
+    messageId: z.string().max(998).optional(),
+  }),
+  z.object({
+    type: z.literal('complaint'),
+    email: z.string().email(),
+    diagnostic: z.string().max(1000).optional(),
+    messageId: z.string().max(998).optional(),
+  }),
+]);
+
+const emailEventsSchema = z.object({
+  events: z.array(emailEventSchema).min(1).max(EMAIL_EVENTS_MAX),
+});
+
+const suppressionListSchema = z.object({
+  page: z.coerce.number().int().positive().optional(),
+  pageSize: z.coerce.number().int().positive().max(100).optional(),
+  reason: z.enum(['bounce', 'complaint']).optional(),
+  email: z.string().min(1).optional(),
+});
+
+// POST /emails/events - bounce and complaint events from the mail provider
+router.post('/emails/events', serviceAuthMiddleware, (req: Request, res: Response) => {
+  const parsed = emailEventsSchema.safeParse(req.body);
+  if (!parsed.success) {
+    throw new ValidationError('Invalid email events', parsed.error.flatten().fieldErrors);
+  }
+
+  const db = req.app.get('db');
+  const results = new SuppressionService(db).ingest(parsed.data.events);
+  res.json({ success: true, data: { results } });
+});
+
+// POST /emails/events/dsn - a raw bounce message (DSN) or abuse report, as received
+router.post(
+  '/emails/events/dsn',
+  serviceAuthMiddleware,
+  express.text({ type: () => true, limit: '1mb' }),
+  (req: Request, res: Response) => {
+    if (typeof req.body !== 'string' || req.body.trim() === '') {
+      throw new ValidationError('Request body must be the raw message');
+    }
+
+    const events = parseDsn(req.body);
+    if (events.length === 0) {
+      throw new ValidationError('No bounce or complaint reports found in the message');
+    }
+
+    const db = req.app.get('db');
+    const results = new SuppressionService(db).ingest(events);
+    res.json({ success: true, data: { results } });
+  },
+);
+
+// GET /emails/suppressions - suppressed addresses (filters: reason, email substring)
+router.get('/emails/suppressions', authMiddleware, adminMiddleware, (req: Request, res: Response) => {
+  const parsed = suppressionListSchema.safeParse(req.query);
+  if (!parsed.success) {
+    throw new ValidationError('Invalid query parameters', parsed.error.flatten().fieldErrors);
+  }
+
+  const db = req.app.get('db');
+  res.json({ success: true, data: new SuppressionService(db).list(parsed.data) });
+});
+
+// DELETE /emails/suppressions/:email - allow an address to receive email again
+router.delete('/emails/suppressions/:email', authMiddleware, adminMiddleware, (req: Request, res: Response) => {
+  const db = req.app.get('db');
+  const removed = new SuppressionService(db).remove(req.params.email);
+
+  if (!removed) {
+    throw new NotFoundError('Address is not suppressed');
+  }
+
+  res.json({ success: true, data: removed });
+});
+
+// GET /emails/:id - delivery record of a sent email (support tooling)
+router.get('/emails/:id', serviceAuthMiddleware, (req: Request, res: Response) => {
+  const db = req.app.get('db');
+  const email = new EmailService(db).getById(req.params.id);
+
+  if (!email) {
+    throw new NotFoundError('Email not found');
+  }
+
+  res.json({ success: true, data: email });
+});
+
+// GET /emails/:id/raw - the full MIME message exactly as it was handed to the transport
+router.get('/emails/:id/raw', serviceAuthMiddleware, (req: Request, res: Response) => {
+  const db = req.app.get('db');
+  const service = new EmailService(db);
+
+  if (!service.getById(req.params.id)) {
+    throw new NotFoundError('Email not found');
+  }
+  const raw = service.getRawMessage(req.params.id);
+  if (raw === null) {
+    throw new NotFoundError('Email has not been rendered yet');
+  }
+
+  res.type('message/rfc822').send(raw);
+});
+
+export default router;
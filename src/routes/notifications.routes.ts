@@ -1,8 +1,16 @@
+import Database from 'better-sqlite3';
 import { Router, Response } from 'express';
 import { z } from 'zod';
-import { NotificationService } from '../services/notification.service.js';
+import { METADATA_KEY_PATTERN, NotificationService, decodeCursor } from '../services/notification.service.js';
+import type { SendNotificationRequest } from '../services/notification.service.js';
+import { NotificationEvent, NotificationEventService } from '../services/notification-events.service.js';
+import { RealtimeTicketService } from '../services/realtime-ticket.service.js';
+import { ScheduledNotificationService } from '../services/scheduled-notification.service.js';
+import { IdempotencyService, StoredResponse, hashPayload } from '../services/idempotency.service.js';
+import { ContactService } from '../services/contact.service.js';
+import { TemplateError, templateRegistry } from '../templates/registry.js';
 import { AuthenticatedRequest, authMiddleware, serviceAuthMiddleware } from '../middleware/auth.middleware.js';
-import { NotFoundError, ValidationError } from '../middleware/error.middleware.js';
+import { AppError, ConflictError, NotFoundError, ValidationError } from '../middleware/error.middleware.js';
 
 const router = Router();
 
@@ -16,13 +24,126 @@ const notificationTypeSchema = z.enum([
 
 const notificationChannelSchema = z.enum(['in_app', 'email', 'webhook']);
 
-const sendNotificationSchema = z.object({
+// Up to a year ahead
+const MAX_DELAY_SECONDS = 365 * 24 * 60 * 60;
+
+const sendTimeSchema = z.object({
+  sendAt: z.string().datetime({ offset: true }).optional(),
+  delaySeconds: z.number().int().positive().max(MAX_DELAY_SECONDS).optional(),
+});
+
+function hasOneSendTime(value: { sendAt?: string; delaySeconds?: number }): boolean {
+  return value.sendAt === undefined || value.delaySeconds === undefined;
+}
+
+function resolveSendTime(value: { sendAt?: string; delaySeconds?: number }): Date | null {
+  if (value.sendAt !== undefined) return new Date(value.sendAt);
+  if (value.delaySeconds !== undefined) return new Date(Date.now() + value.delaySeconds * 1000);
+  return null;
+}
+
+// "en", "pt-BR"
+const localeSchema = z.string().regex(/^[A-Za-z]{2,3}(-[A-Za-z0-9]{2,8})*$/, 'Expected a language tag such as "en" or "pt-BR"');
+
+const templateVariablesSchema = z.record(
+  z.string().regex(METADATA_KEY_PATTERN),
+  z.union([z.string(), z.number(), z.boolean()]).transform(String),
+);
+
+const sendNotificationFields = z.object({
   userId: z.string().min(1),
   type: notificationTypeSchema,
-  title: z.string().min(1),
-  body: z.string().min(1),
+  // Raw text, or a template rendered from variables and metadata
+  title: z.string().min(1).optional(),
+  body: z.string().min(1).optional(),
+  templateId: z.string().min(1).max(100).optional(),
+  locale: localeSchema.optional(),
+  variables: templateVariablesSchema.optional(),
   metadata: z.record(z.string()).optional(),
   channels: z.array(notificationChannelSchema).optional(),
+  channelMode: z.enum(['exact', 'intersect']).optional(),
+  email: z.string().email().optional(),
+  groupKey: z.string().min(1).max(200).optional(),
+  digestible: z.boolean().optional(),
+  // Producer key for rescheduling or cancelling a scheduled send
+  correlationKey: z.string().min(1).max(200).optional(),
+  // Same as the Idempotency-Key header, for clients that cannot set headers
+  dedupeKey: z.string().min(1).max(255).optional(),
+}).merge(sendTimeSchema);
+
+type SendRuleFields = {
+  title?: string;
+  body?: string;
+  templateId?: string;
+  sendAt?: string;
+  delaySeconds?: number;
+  correlationKey?: string;
+};
+
+function hasOneContentSource(value: SendRuleFields): boolean {
+  if (value.templateId !== undefined) return value.title === undefined && value.body === undefined;
+  return value.title !== undefined && value.body !== undefined;
+}
+
+function withSendRules<T extends z.ZodTypeAny>(schema: T) {
+  return schema
+    .refine((value: SendRuleFields) => hasOneContentSource(value), {
+      message: 'Provide either templateId or both title and body',
+      path: ['templateId'],
+    })
+    .refine((value: SendRuleFields) => hasOneSendTime(value), { message: 'Use either sendAt or delaySeconds', path: ['sendAt'] })
+    .refine((value: SendRuleFields) => value.correlationKey === undefined || resolveSendTime(value) !== null, {
+      message: 'correlationKey requires sendAt or delaySeconds',
+      path: ['correlationKey'],
+    });
+}
+
+const sendNotificationSchema = withSendRules(sendNotificationFields);
+
+const SEND_BATCH_MAX_ITEMS = parseInt(process.env.SEND_BATCH_MAX_ITEMS || '500', 10);
+
+// Items are validated one by one so a bad item fails alone
+const batchItemSchema = withSendRules(sendNotificationFields.omit({ dedupeKey: true }));
+
+// One notification fanned out to many recipients. A correlation key cannot be shared, so it is not allowed here.
+const batchTemplateSchema = withSendRules(
+  sendNotificationFields.omit({ userId: true, email: true, dedupeKey: true, correlationKey: true }).strict(),
+);
+
+const sendBatchSchema = z.union([
+  z.object({
+    recipients: z.array(z.object({
+      userId: z.string().min(1),
+      email: z.string().email().optional(),
+      locale: localeSchema.optional(),
+    }).strict()).min(1).max(SEND_BATCH_MAX_ITEMS)
+      .refine(recipients => new Set(recipients.map(r => r.userId)).size === recipients.length, 'Duplicate userId'),
+    notification: batchTemplateSchema,
+  }).strict(),
+  z.object({
+    items: z.array(z.unknown()).min(1).max(SEND_BATCH_MAX_ITEMS),
+  }).strict(),
+]);
+
+const templatePreviewSchema = z.object({
+  templateId: z.string().min(1).max(100),
+  locale: localeSchema.optional(),
+  variables: templateVariablesSchema.optional(),
+  metadata: z.record(z.string()).optional(),
+});
+
+const idempotencyKeySchema = z.string().min(1).max(255);
+
+const rescheduleSchema = sendTimeSchema
+  .refine(hasOneSendTime, { message: 'Use either sendAt or delaySeconds', path: ['sendAt'] })
+  .refine(value => resolveSendTime(value) !== null, { message: 'sendAt or delaySeconds is required', path: ['sendAt'] });
+
+const scheduledListSchema = z.object({
+  page: z.coerce.number().int().positive().optional(),
+  pageSize: z.coerce.number().int().positive().max(100).optional(),
+  userId: z.string().min(1).optional(),
+  correlationKey: z.string().min(1).optional(),
+  status: z.enum(['pending', 'sent', 'cancelled', 'failed']).optional(),
 });
 
 const paginationSchema = z.object({
@@ -30,6 +151,93 @@ const paginationSchema = z.object({
   pageSize: z.coerce.number().int().positive().max(100).optional(),
 });
 
+// Comma-separated list, e.g. ?type=comment_added,task_assigned
+function csvOf<T extends z.ZodTypeAny>(item: T) {
+  return z.string().transform(value => value.split(',').map(part => part.trim())).pipe(z.array(item).min(1));
+}
+
+const listQuerySchema = paginationSchema.extend({
+  cursor: z.string().min(1).optional(),
+  limit: z.coerce.number().int().positive().max(100).optional(),
+  type: csvOf(notificationTypeSchema.or(z.enum(['webhook_disabled', 'digest']))).optional(),
+  channel: csvOf(notificationChannelSchema).optional(),
+  read: z.enum(['true', 'false']).transform(value => value === 'true').optional(),
+  since: z.string().datetime({ offset: true }).optional(),
+  until: z.string().datetime({ offset: true }).optional(),
+  // ?metadata[taskId]=abc
+  metadata: z.record(z.string().regex(METADATA_KEY_PATTERN), z.string()).optional(),
+});
+
+const unreadCountSchema = z.object({
+  by: z.enum(['item', 'group']).optional(),
+});
+
+const lastEventIdSchema = z.coerce.number().int().min(0);
+
+// Comment lines keep proxies from closing idle streams
+const STREAM_HEARTBEAT_MS = 25_000;
+
+function writeEvent(res: Response, event: NotificationEvent): void {
+  res.write(`id: ${event.seq}\nevent: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`);
+}
+
+// Metadata doubles as template variables; explicit variables win
+function renderTemplate(templateId: string, locale: string | undefined, variables: Record<string, string>) {
+  try {
+    return templateRegistry.render(templateId, locale, variables);
+  } catch (err) {
+    if (err instanceof TemplateError) {
+      const field = err.missingVariables.length > 0 ? 'variables' : 'templateId';
+      throw new ValidationError('Invalid template data', { [field]: [err.message] });
+    }
+    throw err;
+  }
+}
+
+type SendFields = Omit<z.infer<typeof sendNotificationFields>, 'dedupeKey'>;
+
+// Replaces templateId/locale/variables with the rendered title, body and email.
+// Without a locale the recipient's locale from the directory is used.
+function renderContent(
+  db: Database.Database,
+  data: Omit<SendFields, 'sendAt' | 'delaySeconds' | 'correlationKey'>,
+): SendNotificationRequest {
+  const { templateId, locale, variables, title, body, ...rest } = data;
+  if (templateId === undefined) {
+    return { ...rest, title: title!, body: body! };
+  }
+
+  const recipientLocale = locale ?? new ContactService(db).get(data.userId)?.locale ?? undefined;
+  const rendered = renderTemplate(templateId, recipientLocale, { ...data.metadata, ...variables });
+  if (rendered.type !== data.type) {
+    throw new ValidationError('Invalid template data', {
+      templateId: [`Template "${templateId}" is for ${rendered.type} notifications`],
+    });
+  }
+  return { ...rest, title: rendered.title, body: rendered.body, emailContent: rendered.email };
+}
+
+// Sends now (201 with the notifications) or stores a scheduled send (202 with the schedule)
+function sendOrSchedule(
+  db: Database.Database,
+  data: SendFields,
+): StoredResponse {
+  const { sendAt, delaySeconds, correlationKey, ...fields } = data;
+  const request = renderContent(db, fields);
+
+  const scheduledFor = resolveSendTime({ sendAt, delaySeconds });
+  if (scheduledFor) {
+    const scheduled = new ScheduledNotificationService(db);
+    if (correlationKey && scheduled.getPendingByKey(correlationKey)) {
+      throw new ConflictError('A scheduled notification with this correlationKey is already pending');
+    }
+    return { statusCode: 202, body: { success: true, data: scheduled.schedule(request, scheduledFor, correlationKey) } };
+  }
+
+  const notifications = new NotificationService(db).send(request);
+  return { statusCode: 201, body: { success: true, data: notifications } };
+}
+
 // POST /notifications/send - requires service token (called by other services)
 router.post('/notifications/send', serviceAuthMiddleware, (req: AuthenticatedRequest, res: Response) => {
   const parsed = sendNotificationSchema.safeParse(req.body);
@@ -37,22 +245,165 @@ router.post('/notifications/send', serviceAuthMiddleware, (req: AuthenticatedReq
     throw new ValidationError('Invalid notification data', parsed.error.flatten().fieldErrors);
   }
 
+  const { dedupeKey, ...payload } = parsed.data;
+  const header = req.header('Idempotency-Key');
+  const headerKey = header === undefined ? undefined : idempotencyKeySchema.safeParse(header);
+  if (headerKey && !headerKey.success) {
+    throw new ValidationError('Invalid Idempotency-Key header', { 'Idempotency-Key': ['Must be 1-255 characters'] });
+  }
+  if (headerKey && dedupeKey !== undefined && headerKey.data !== dedupeKey) {
+    throw new ValidationError('Invalid notification data', { dedupeKey: ['Does not match the Idempotency-Key header'] });
+  }
+
+  const db: Database.Database = req.app.get('db');
+  const key = headerKey?.data ?? dedupeKey;
+  if (!key) {
+    const response = sendOrSchedule(db, payload);
+    res.status(response.statusCode).json(response.body);
+    return;
+  }
+
+  // Lookup, send and save in one transaction so concurrent retries cannot both send
+  const idempotency = new IdempotencyService(db);
+  const requestHash = hashPayload(payload);
+  const { response, replayed } = db.transaction(() => {
+    const found = idempotency.lookup(key, requestHash);
+    if (found.status === 'mismatch') {
+      throw new ConflictError('Idempotency key was already used with a different payload');
+    }
+    if (found.status === 'hit') {
+      return { response: found.response, replayed: true };
+    }
+
+    const response = sendOrSchedule(db, payload);
+    idempotency.save(key, requestHash, response);
+    return { response, replayed: false };
+  })();
+
+  if (replayed) {
+    res.setHeader('Idempotent-Replayed', 'true');
+  }
+  res.status(response.statusCode).json(response.body);
+});
+
+// POST /notifications/send-batch - many recipients or many notifications in one transaction
+router.post('/notifications/send-batch', serviceAuthMiddleware, (req: AuthenticatedRequest, res: Response) => {
+  const parsed = sendBatchSchema.safeParse(req.body);
+  if (!parsed.success) {
+    throw new ValidationError('Invalid batch', parsed.error.flatten().fieldErrors);
+  }
+
+  const { data } = parsed;
+  const items: unknown[] = 'items' in data
+    ? data.items
+    : data.recipients.map(recipient => ({ ...data.notification, ...recipient }));
+
+  const db: Database.Database = req.app.get('db');
+  const results = db.transaction(() => items.map((item, index) => {
+    const userId = (item as { userId?: unknown })?.userId;
+    try {
+      const itemParsed = batchItemSchema.safeParse(item);
+      if (!itemParsed.success) {
+        throw new ValidationError('Invalid notification data', itemParsed.error.flatten().fieldErrors);
+      }
+      // Each item runs in its own savepoint so a failure only undoes that item
+      const response = db.transaction(() => sendOrSchedule(db, itemParsed.data))();
+      return { index, userId, status: response.statusCode, ...(response.body as object) };
+    } catch (err) {
+      if (!(err instanceof AppError)) {
+        console.error('Batch item failed:', err);
+      }
+      const error = err instanceof AppError
+        ? { code: err.code, message: err.message, ...(err.details ? { details: err.details } : {}) }
+        : { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' };
+      return { index, userId, status: err instanceof AppError ? err.statusCode : 500, success: false, error };
+    }
+  }))();
+
+  const failed = results.filter(result => !result.success).length;
+  res.json({ success: true, data: { succeeded: results.length - failed, failed, results } });
+});
+
+// GET /notifications/templates - available templates with their locales and variables
+router.get('/notifications/templates', serviceAuthMiddleware, (_req: AuthenticatedRequest, res: Response) => {
+  res.json({ success: true, data: templateRegistry.list() });
+});
+
+// POST /notifications/templates/preview - render a template without sending it
+router.post('/notifications/templates/preview', serviceAuthMiddleware, (req: AuthenticatedRequest, res: Response) => {
+  const parsed = templatePreviewSchema.safeParse(req.body);
+  if (!parsed.success) {
+    throw new ValidationError('Invalid preview request', parsed.error.flatten().fieldErrors);
+  }
+
+  const { templateId, locale, variables, metadata } = parsed.data;
+  res.json({ success: true, data: renderTemplate(templateId, locale, { ...metadata, ...variables }) });
+});
+
+// GET /notifications/scheduled - list scheduled sends (service token)
+router.get('/notifications/scheduled', serviceAuthMiddleware, (req: AuthenticatedRequest, res: Response) => {
+  const parsed = scheduledListSchema.safeParse(req.query);
+  if (!parsed.success) {
+    throw new ValidationError('Invalid query parameters', parsed.error.flatten().fieldErrors);
+  }
+
   const db = req.app.get('db');
-  const service = new NotificationService(db);
-  const notifications = service.send(parsed.data);
-  res.status(201).json({ success: true, data: notifications });
+  const service = new ScheduledNotificationService(db);
+  res.json({ success: true, data: service.list(parsed.data) });
+});
+
+// PATCH /notifications/scheduled/:key - move a pending scheduled send
+router.patch('/notifications/scheduled/:key', serviceAuthMiddleware, (req: AuthenticatedRequest, res: Response) => {
+  const parsed = rescheduleSchema.safeParse(req.body);
+  if (!parsed.success) {
+    throw new ValidationError('Invalid schedule', parsed.error.flatten().fieldErrors);
+  }
+
+  const db = req.app.get('db');
+  const service = new ScheduledNotificationService(db);
+  const scheduled = service.reschedule(req.params.key, resolveSendTime(parsed.data)!);
+  if (!scheduled) {
+    throw new NotFoundError('No pending scheduled notification for this key');
+  }
+  res.json({ success: true, data: scheduled });
+});
+
+// DELETE /notifications/scheduled/:key - cancel a pending scheduled send
+router.delete('/notifications/scheduled/:key', serviceAuthMiddleware, (req: AuthenticatedRequest, res: Response) => {
+  const db = req.app.get('db');
+  const service = new ScheduledNotificationService(db);
+  const scheduled = service.cancel(req.params.key);
+  if (!scheduled) {
+    throw new NotFoundError('No pending scheduled notification for this key');
+  }
+  res.json({ success: true, data: scheduled });
 });
 
-// GET /notifications - user's notifications (paginated)
+// GET /notifications - user's notifications. Cursor mode when `cursor` or `limit`
+// is given, page-number mode (page/pageSize) otherwise; filters apply to both.
 router.get('/notifications', authMiddleware, (req: AuthenticatedRequest, res: Response) => {
-  const parsed = paginationSchema.safeParse(req.query);
+  const parsed = listQuerySchema.safeParse(req.query);
   if (!parsed.success) {
-    throw new ValidationError('Invalid pagination parameters', parsed.error.flatten().fieldErrors);
+    throw new ValidationError('Invalid query parameters', parsed.error.flatten().fieldErrors);
   }
 
+  const { page, pageSize, cursor: rawCursor, limit, type, channel, ...filters } = parsed.data;
   const db = req.app.get('db');
   const service = new NotificationService(db);
-  const result = service.list(req.userId!, parsed.data);
+  const query = { ...filters, types: type, channels: channel };
+
+  if (rawCursor === undefined && limit === undefined) {
+    const result = service.list(req.userId!, { ...query, page, pageSize });
+    res.json({ success: true, data: result });
+    return;
+  }
+
+  const cursor = rawCursor !== undefined ? decodeCursor(rawCursor) : undefined;
+  if (cursor === null) {
+    throw new ValidationError('Invalid query parameters', { cursor: ['Invalid cursor'] });
+  }
+
+  const result = service.listByCursor(req.userId!, { ...query, cursor, limit });
   res.json({ success: true, data: result });
 });
 
@@ -77,12 +428,110 @@ router.post('/notifications/read-all', authMiddleware, (req: AuthenticatedReques
   res.json({ success: true, data: { updated: count } });
 });
 
-// GET /notifications/unread-count - get unread count
+// GET /notifications/groups - collapsed feed, one entry per group (cursor paginated)
+router.get('/notifications/groups', authMiddleware, (req: AuthenticatedRequest, res: Response) => {
+  const parsed = listQuerySchema.omit({ page: true, pageSize: true }).safeParse(req.query);
+  if (!parsed.success) {
+    throw new ValidationError('Invalid query parameters', parsed.error.flatten().fieldErrors);
+  }
+
+  const { cursor: rawCursor, type, channel, ...filters } = parsed.data;
+  const cursor = rawCursor !== undefined ? decodeCursor(rawCursor) : undefined;
+  if (cursor === null) {
+    throw new ValidationError('Invalid query parameters', { cursor: ['Invalid cursor'] });
+  }
+
+  const db = req.app.get('db');
+  const service = new NotificationService(db);
+  const result = service.listGroups(req.userId!, { ...filters, types: type, channels: channel, cursor });
+  res.json({ success: true, data: result });
+});
+
+// POST /notifications/groups/:groupKey/read - mark every notification in a group as read
+router.post('/notifications/groups/:groupKey/read', authMiddleware, (req: AuthenticatedRequest, res: Response) => {
+  const db = req.app.get('db');
+  const service = new NotificationService(db);
+  const count = service.markGroupAsRead(req.userId!, req.params.groupKey);
+
+  if (count === null) {
+    throw new NotFoundError('Notification group not found');
+  }
+
+  res.json({ success: true, data: { updated: count } });
+});
+
+// GET /notifications/unread-count - unread notifications, or groups with ?by=group
 router.get('/notifications/unread-count', authMiddleware, (req: AuthenticatedRequest, res: Response) => {
+  const parsed = unreadCountSchema.safeParse(req.query);
+  if (!parsed.success) {
+    throw new ValidationError('Invalid query parameters', parsed.error.flatten().fieldErrors);
+  }
+
   const db = req.app.get('db');
   const service = new NotificationService(db);
-  const count = service.getUnreadCount(req.userId!);
+  const count = parsed.data.by === 'group'
+    ? service.getUnreadGroupCount(req.userId!)
+    : service.getUnreadCount(req.userId!);
   res.json({ success: true, data: { count } });
 });
 
+// GET /notifications/stream - Server-Sent Events for the user's notifications.
+// Reconnecting clients send Last-Event-ID (or ?lastEventId=) to replay what they missed.
+router.get('/notifications/stream', authMiddleware, (req: AuthenticatedRequest, res: Response) => {
+  const rawLastEventId = req.header('last-event-id') ?? req.query.lastEventId;
+  let lastEventId: number | null = null;
+  if (rawLastEventId !== undefined) {
+    const parsed = lastEventIdSchema.safeParse(rawLastEventId);
+    if (!parsed.success) {
+      throw new ValidationError('Invalid Last-Event-ID', parsed.error.flatten().formErrors);
+    }
+    lastEventId = parsed.data;
+  }
+
+  const db = req.app.get('db');
+  const events = new NotificationEventService(db);
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+  res.write('retry: 3000\n\n');
+
+  // Replay and subscribe run synchronously, so no event can slip in between. An event
+  // committed but still held for its transaction's flush can be replayed and then
+  // pushed again, so anything at or below the last sent seq is dropped.
+  let lastSentSeq = lastEventId ?? 0;
+  const push = (event: NotificationEvent) => {
+    if (event.seq <= lastSentSeq) return;
+    lastSentSeq = event.seq;
+    writeEvent(res, event);
+  };
+  if (lastEventId !== null) {
+    for (const event of events.since(req.userId!, lastEventId)) {
+      push(event);
+    }
+  }
+  const unsubscribe = events.subscribe(req.userId!, push);
+
+  // Current count as a snapshot; it has no id so it does not move the resume point
+  const count = new NotificationService(db).getUnreadCount(req.userId!);
+  res.write(`event: unread_count\ndata: ${JSON.stringify({ count })}\n\n`);
+
+  const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), STREAM_HEARTBEAT_MS);
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+});
+
+// POST /notifications/ws-ticket - short-lived ticket for the WebSocket handshake (?ticket=)
+router.post('/notifications/ws-ticket', authMiddleware, (req: AuthenticatedRequest, res: Response) => {
+  const db = req.app.get('db');
+  const service = new RealtimeTicketService(db);
+  const ticket = service.issue(req.userId!);
+  res.status(201).json({ success: true, data: ticket });
+});
+
 export default router;
@@ -3,10 +3,19 @@ import { z } from 'zod';
 import { PreferencesService } from '../services/preferences.service.js';
 import { AuthenticatedRequest, authMiddleware } from '../middleware/auth.middleware.js';
 import { ValidationError } from '../middleware/error.middleware.js';
+import { TIME_OF_DAY_PATTERN, isValidTimeZone } from '../utils/timezone.js';
 
 const router = Router();
 
 const notificationChannelSchema = z.enum(['in_app', 'email', 'webhook']);
+const notificationTypeSchema = z.enum([
+  'task_assigned',
+  'task_status_changed',
+  'comment_added',
+  'project_invited',
+  'task_due_soon',
+]);
+const timeOfDaySchema = z.string().regex(TIME_OF_DAY_PATTERN, 'Expected HH:MM');
 
 const updatePreferencesSchema = z.object({
   taskAssigned: z.array(notificationChannelSchema).optional(),
@@ -14,6 +23,19 @@ const updatePreferencesSchema = z.object({
   commentAdded: z.array(notificationChannelSchema).optional(),
   projectInvited: z.array(notificationChannelSchema).optional(),
   taskDueSoon: z.array(notificationChannelSchema).optional(),
+  timezone: z.string().refine(isValidTimeZone, 'Unknown IANA time zone').optional(),
+  digest: z.object({
+    frequency: z.enum(['immediate', 'hourly', 'daily', 'weekly']).optional(),
+    time: timeOfDaySchema.optional(),
+    dayOfWeek: z.number().int().min(0).max(6).optional(),
+  }).strict().optional(),
+  quietHours: z.object({
+    enabled: z.boolean().optional(),
+    start: timeOfDaySchema.optional(),
+    end: timeOfDaySchema.optional(),
+    bypassTypes: z.array(notificationTypeSchema).optional(),
+  }).strict().optional(),
+  doNotDisturbUntil: z.string().datetime({ offset: true }).nullable().optional(),
 }).strict();
 
 // GET /preferences - get user notification preferences (with defaults)
@@ -0,0 +1,68 @@
+import express, { Router, Request, Response } from 'express';
+import { UnsubscribeService, verifyUnsubscribeToken } from '../services/unsubscribe.service.js';
+import type { UnsubscribeClaims } from '../services/unsubscribe.service.js';
+import type { NotificationType } from '../services/notification.service.js';
+import { ValidationError } from '../middleware/error.middleware.js';
+
+const router = Router();
+
+// These pages are opened from email clients, without a session; the token is the only credential
+const INVALID_LINK = 'This unsubscribe link is invalid or has expired';
+
+function describeType(type: NotificationType | null): string {
+  return type ? `"${type.replace(/_/g, ' ')}" emails` : 'all email';
+}
+
+function page(title: string, body: string): string {
+  return `<!doctype html>
+<html lang="en">
+<head><meta charset="utf-8"><meta name="viewport" content="width=device-width"><title>${title}</title></head>
+<body>
+<h1>${title}</h1>
+${body}
+</body>
+</html>`;
+}
+
+function claimsFrom(req: Request): UnsubscribeClaims | null {
+  return verifyUnsubscribeToken(req.params.token);
+}
+
+// GET /unsubscribe/:token - confirmation page; link scanners prefetch URLs, so GET never changes anything
+router.get('/unsubscribe/:token', (req: Request, res: Response) => {
+  const claims = claimsFrom(req);
+  if (!claims) {
+    res.status(400).type('html').send(page('Link expired', `<p>${INVALID_LINK}.</p>`));
+    return;
+  }
+
+  const forms: string[] = [];
+  if (claims.type) {
+    forms.push(`<form method="post"><button>Unsubscribe from ${describeType(claims.type)}</button></form>`);
+  }
+  forms.push('<form method="post"><input type="hidden" name="scope" value="all"><button>Unsubscribe from all email</button></form>');
+
+  res.type('html').send(page('Unsubscribe', `<p>In-app notifications are not affected.</p>\n${forms.join('\n')}`));
+});
+
+// POST /unsubscribe/:token - RFC 8058 one-click target (body "List-Unsubscribe=One-Click") and the page's forms
+router.post('/unsubscribe/:token', express.urlencoded({ extended: false }), (req: Request, res: Response) => {
+  const claims = claimsFrom(req);
+  if (!claims) {
+    throw new ValidationError(INVALID_LINK);
+  }
+
+  const db = req.app.get('db');
+  const result = new UnsubscribeService(db).unsubscribe(claims, req.body?.scope === 'all');
+
+  res.format({
+    json: () => {
+      res.json({ success: true, data: { userId: result.userId, type: result.type, channel: 'email' } });
+    },
+    html: () => {
+      res.send(page('Unsubscribed', `<p>You will no longer receive ${describeType(result.type)}.</p>`));
+    },
+  });
+});
+
+export default router;
@@ -1,8 +1,9 @@
 import { Router, Response } from 'express';
 import { z } from 'zod';
-import { WebhookService } from '../services/webhook.service.js';
+import { WebhookConfig, WebhookService } from '../services/webhook.service.js';
 import { AuthenticatedRequest, authMiddleware } from '../middleware/auth.middleware.js';
-import { NotFoundError, ValidationError } from '../middleware/error.middleware.js';
+import { ConflictError, NotFoundError, ValidationError } from '../middleware/error.middleware.js';
+import { webhookUrlPolicy } from '../utils/url-policy.js';
 
 const router = Router();
 
@@ -16,7 +17,7 @@ const notificationTypeSchema = z.enum([
 
 const createWebhookSchema = z.object({
   url: z.string().url(),
-  secret: z.string().min(1),
+  secret: z.string().min(1).optional(),
   events: z.array(notificationTypeSchema).min(1),
 });
 
@@ -27,17 +28,48 @@ const updateWebhookSchema = z.object({
   active: z.boolean().optional(),
 }).strict();
 
-// POST /webhooks - create webhook config
-router.post('/webhooks', authMiddleware, (req: AuthenticatedRequest, res: Response) => {
+const rotateSecretSchema = z.object({
+  secret: z.string().min(1).optional(),
+  graceSeconds: z.number().int().min(0).max(7 * 24 * 60 * 60).optional(),
+}).strict();
+
+const testEventSchema = z.object({
+  type: notificationTypeSchema,
+});
+
+const redeliverFailedSchema = z.object({
+  since: z.string().datetime({ offset: true }),
+});
+
+// Rejects URLs pointing at internal networks. Hosts that do not resolve yet are
+// accepted here; every delivery checks the URL again before connecting.
+async function assertAllowedUrl(url: string): Promise<void> {
+  const result = await webhookUrlPolicy.check(url, { allowUnresolved: true });
+  if (!result.allowed) {
+    throw new ValidationError('Webhook URL is not allowed', { url: [result.reason] });
+  }
+}
+
+// Redeliveries would go to an endpoint that has not proven it belongs to the user
+function assertVerified(webhook: WebhookConfig): void {
+  if (webhook.verificationStatus !== 'verified') {
+    throw new ConflictError('Webhook is not verified');
+  }
+}
+
+// POST /webhooks - create webhook config and run the verification handshake
+router.post('/webhooks', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
   const parsed = createWebhookSchema.safeParse(req.body);
   if (!parsed.success) {
     throw new ValidationError('Invalid webhook data', parsed.error.flatten().fieldErrors);
   }
+  await assertAllowedUrl(parsed.data.url);
 
   const db = req.app.get('db');
   const service = new WebhookService(db);
-  const webhook = service.create(req.userId!, parsed.data);
-  res.status(201).json({ success: true, data: webhook });
+  const { secret, ...created } = service.create(req.userId!, parsed.data);
+  const webhook = await service.verify(created.id, req.userId!);
+  res.status(201).json({ success: true, data: { ...webhook, secret } });
 });
 
 // GET /webhooks - list user's webhooks
@@ -48,12 +80,15 @@ router.get('/webhooks', authMiddleware, (req: AuthenticatedRequest, res: Respons
   res.json({ success: true, data: webhooks });
 });
 
-// PATCH /webhooks/:id - update webhook
-router.patch('/webhooks/:id', authMiddleware, (req: AuthenticatedRequest, res: Response) => {
+// PATCH /webhooks/:id - update webhook (a new URL is verified again)
+router.patch('/webhooks/:id', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
   const parsed = updateWebhookSchema.safeParse(req.body);
   if (!parsed.success) {
     throw new ValidationError('Invalid webhook update data', parsed.error.flatten().fieldErrors);
   }
+  if (parsed.data.url) {
+    await assertAllowedUrl(parsed.data.url);
+  }
 
   const db = req.app.get('db');
   const service = new WebhookService(db);
@@ -63,9 +98,89 @@ router.patch('/webhooks/:id', authMiddleware, (req: AuthenticatedRequest, res: R
     throw new NotFoundError('Webhook not found');
   }
 
+  if (webhook.verificationStatus === 'pending') {
+    res.json({ success: true, data: await service.verify(webhook.id, req.userId!) });
+    return;
+  }
+
   res.json({ success: true, data: webhook });
 });
 
+// POST /webhooks/:id/verify - retry the verification handshake
+router.post('/webhooks/:id/verify', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  const db = req.app.get('db');
+  const service = new WebhookService(db);
+  const webhook = await service.verify(req.params.id, req.userId!);
+
+  if (!webhook) {
+    throw new NotFoundError('Webhook not found');
+  }
+
+  res.json({ success: true, data: webhook });
+});
+
+// POST /webhooks/:id/test - send a synthetic event and return the delivery result
+router.post('/webhooks/:id/test', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  const parsed = testEventSchema.safeParse(req.body);
+  if (!parsed.success) {
+    throw new ValidationError('Invalid test event', parsed.error.flatten().fieldErrors);
+  }
+
+  const db = req.app.get('db');
+  const service = new WebhookService(db);
+  const result = await service.sendTestEvent(req.params.id, req.userId!, parsed.data.type);
+
+  if (!result) {
+    throw new NotFoundError('Webhook not found');
+  }
+
+  res.json({ success: true, data: result });
+});
+
+// POST /webhooks/:id/secret/rotate - new signing secret, old one keeps signing during the grace window
+router.post('/webhooks/:id/secret/rotate', authMiddleware, (req: AuthenticatedRequest, res: Response) => {
+  const parsed = rotateSecretSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    throw new ValidationError('Invalid secret rotation data', parsed.error.flatten().fieldErrors);
+  }
+
+  const db = req.app.get('db');
+  const service = new WebhookService(db);
+  const webhook = service.rotateSecret(req.params.id, req.userId!, parsed.data);
+
+  if (!webhook) {
+    throw new NotFoundError('Webhook not found');
+  }
+
+  res.json({ success: true, data: webhook });
+});
+
+// POST /webhooks/:id/secret/reveal - return the plaintext secret (audited)
+router.post('/webhooks/:id/secret/reveal', authMiddleware, (req: AuthenticatedRequest, res: Response) => {
+  const db = req.app.get('db');
+  const service = new WebhookService(db);
+  const secret = service.revealSecret(req.params.id, req.userId!);
+
+  if (secret === null) {
+    throw new NotFoundError('Webhook not found');
+  }
+
+  res.json({ success: true, data: { secret } });
+});
+
+// GET /webhooks/:id/audit - secret reveal/rotation history
+router.get('/webhooks/:id/audit', authMiddleware, (req: AuthenticatedRequest, res: Response) => {
+  const db = req.app.get('db');
+  const service = new WebhookService(db);
+  const entries = service.getAuditLog(req.params.id, req.userId!);
+
+  if (!entries) {
+    throw new NotFoundError('Webhook not found');
+  }
+
+  res.json({ success: true, data: entries });
+});
+
 // DELETE /webhooks/:id - delete webhook
 router.delete('/webhooks/:id', authMiddleware, (req: AuthenticatedRequest, res: Response) => {
   const db = req.app.get('db');
@@ -87,4 +202,71 @@ router.get('/webhooks/:id/deliveries', authMiddleware, (req: AuthenticatedReques
   res.json({ success: true, data: deliveries });
 });
 
+// GET /webhooks/:id/deliveries/:deliveryId/attempts - per-attempt request/response log
+router.get('/webhooks/:id/deliveries/:deliveryId/attempts', authMiddleware, (req: AuthenticatedRequest, res: Response) => {
+  const db = req.app.get('db');
+  const service = new WebhookService(db);
+  const attempts = service.getAttempts(req.params.id, req.params.deliveryId, req.userId!);
+
+  if (!attempts) {
+    throw new NotFoundError('Delivery not found');
+  }
+
+  res.json({ success: true, data: attempts });
+});
+
+// GET /webhooks/:id/dead-letters - failed deliveries with per-attempt responses
+router.get('/webhooks/:id/dead-letters', authMiddleware, (req: AuthenticatedRequest, res: Response) => {
+  const db = req.app.get('db');
+  const service = new WebhookService(db);
+  const deadLetters = service.getDeadLetters(req.params.id, req.userId!);
+
+  if (!deadLetters) {
+    throw new NotFoundError('Webhook not found');
+  }
+
+  res.json({ success: true, data: deadLetters });
+});
+
+// POST /webhooks/:id/deliveries/redeliver-failed - requeue every delivery failed since a point in time
+router.post('/webhooks/:id/deliveries/redeliver-failed', authMiddleware, (req: AuthenticatedRequest, res: Response) => {
+  const parsed = redeliverFailedSchema.safeParse(req.body);
+  if (!parsed.success) {
+    throw new ValidationError('Invalid redelivery request', parsed.error.flatten().fieldErrors);
+  }
+
+  const db = req.app.get('db');
+  const service = new WebhookService(db);
+  const webhook = service.getById(req.params.id, req.userId!);
+
+  if (!webhook) {
+    throw new NotFoundError('Webhook not found');
+  }
+  assertVerified(webhook);
+
+  const deliveries = service.redeliverFailedSince(webhook.id, req.userId!, new Date(parsed.data.since))!;
+
+  res.status(202).json({ success: true, data: { requeued: deliveries.length, deliveries } });
+});
+
+// POST /webhooks/:id/deliveries/:deliveryId/redeliver - requeue a single delivery
+router.post('/webhooks/:id/deliveries/:deliveryId/redeliver', authMiddleware, (req: AuthenticatedRequest, res: Response) => {
+  const db = req.app.get('db');
+  const service = new WebhookService(db);
+  const delivery = service.getDelivery(req.params.id, req.params.deliveryId, req.userId!);
+
+  if (!delivery) {
+    throw new NotFoundError('Delivery not found');
+  }
+  if (delivery.status === 'pending') {
+    throw new ConflictError('Delivery is still pending');
+  }
+  if (delivery.test) {
+    throw new ConflictError('Test deliveries cannot be redelivered');
+  }
+  assertVerified(service.getById(req.params.id, req.userId!)!);
+
+  res.status(202).json({ success: true, data: service.redeliver(delivery.id) });
+});
+
 export default router;
@@ -1,4 +1,5 @@
 import express from 'express';
+import http from 'http';
 import 'express-async-errors';
 import Database from 'better-sqlite3';
 import { initializeDatabase } from './db/schema.js';
@@ -6,13 +7,26 @@ import healthRoutes from './routes/health.routes.js';
 import notificationsRoutes from './routes/notifications.routes.js';
 import preferencesRoutes from './routes/preferences.routes.js';
 import webhooksRoutes from './routes/webhooks.routes.js';
+import emailsRoutes from './routes/emails.routes.js';
+import unsubscribeRoutes from './routes/unsubscribe.routes.js';
+import contactsRoutes from './routes/contacts.routes.js';
 import { errorMiddleware } from './middleware/error.middleware.js';
+import { WebSocketGateway, WebSocketGatewayOptions } from './gateway/websocket.gateway.js';
 
 export interface AppOptions {
   db?: Database.Database;
+  websocket?: WebSocketGatewayOptions;
 }
 
-export function createApp(options: AppOptions = {}): { app: express.Express; db: Database.Database } {
+export interface AppInstance {
+  app: express.Express;
+  db: Database.Database;
+  // Serves both the Express app and the WebSocket gateway; call listen() on this
+  server: http.Server;
+  gateway: WebSocketGateway;
+}
+
+export function createApp(options: AppOptions = {}): AppInstance {
   const app = express();
   const db = options.db || new Database(':memory:');
 
@@ -30,9 +44,15 @@ export function createApp(options: AppOptions = {}): { app: express.Express; db:
   app.use(notificationsRoutes);
   app.use(preferencesRoutes);
   app.use(webhooksRoutes);
+  app.use(emailsRoutes);
+  app.use(unsubscribeRoutes);
+  app.use(contactsRoutes);
 
   // Error handler (must be last)
   app.use(errorMiddleware);
 
-  return { app, db };
+  const server = http.createServer(app);
+  const gateway = new WebSocketGateway(server, db, options.websocket);
+
+  return { app, db, server, gateway };
 }
@@ -0,0 +1,93 @@
+import Database from 'better-sqlite3';
+import { sanitizeContact } from '../contacts/validation.js';
+import type { Contact, ContactLookup } from '../contacts/lookup.js';
+
+// `sync`: pushed by the user service; `lookup`: cached from a ContactLookup
+export type ContactSource = 'sync' | 'lookup';
+
+export interface UserContact extends Contact {
+  userId: string;
+  source: ContactSource;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ContactInput {
+  email: string;
+  displayName?: string | null;
+  locale?: string | null;
+  timezone?: string | null;
+}
+
+interface UserContactRow {
+  user_id: string;
+  email: string;
+  display_name: string | null;
+  locale: string | null;
+  timezone: string | null;
+  source: string;
+  created_at: string;
+  updated_at: string;
+}
+
+function rowToContact(row: UserContactRow): UserContact {
+  return {
+    userId: row.user_id,
+    email: row.email,
+    displayName: row.display_name,
+    locale: row.locale,
+    timezone: row.timezone,
+    source: row.source as ContactSource,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/** Recipient directory: the email address, name, locale and time zone of each user. */
+export class ContactService {
+  constructor(private db: Database.Database) {}
+
+  get(userId: string): UserContact | null {
+    const row = this.db.prepare(
+      'SELECT * FROM user_contacts WHERE user_id = ?'
+    ).get(userId) as UserContactRow | undefined;
+    return row ? rowToContact(row) : null;
+  }
+
+  /** Creates or replaces the contact; fields left out are cleared. */
+  upsert(userId: string, input: ContactInput, source: ContactSource = 'sync'): UserContact {
+    this.db.prepare(`
+      INSERT INTO user_contacts (user_id, email, display_name, locale, timezone, source, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, datetime('now'), datetime('now'))
+      ON CONFLICT(user_id) DO UPDATE SET
+        email = excluded.email,
+        display_name = excluded.display_name,
+        locale = excluded.locale,
+        timezone = excluded.timezone,
+        source = excluded.source,
+        updated_at = excluded.updated_at
+    `).run(userId, input.email, input.displayName ?? null, input.locale ?? null, input.timezone ?? null, source);
+    return this.get(userId)!;
+  }
+
+  upsertMany(contacts: (ContactInput & { userId: string })[]): UserContact[] {
+    return this.db.transaction(() => contacts.map(({ userId, ...input }) => this.upsert(userId, input)))();
+  }
+
+  remove(userId: string): boolean {
+    return this.db.prepare('DELETE FROM user_contacts WHERE user_id = ?').run(userId).changes > 0;
+  }
+
+  /**
+   * The local contact, or else the lookup's answer, which is cached locally once it
+   * passes the same checks as synced contacts.
+   */
+  async resolve(userId: string, lookup: ContactLookup): Promise<UserContact | null> {
+    const local = this.get(userId);
+    if (local) return local;
+
+    const found = await lookup.lookup(userId);
+    const contact = found ? sanitizeContact(found) : null;
+    return contact ? this.upsert(userId, contact, 'lookup') : null;
+  }
+}
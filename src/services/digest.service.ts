@@ -0,0 +1,198 @@
+import Database from 'better-sqlite3';
+import { nanoid } from 'nanoid';
+import { EmailService } from './email.service.js';
+import { QueueService } from './queue.service.js';
+import { DigestFrequency, DigestSchedule, PreferencesService, isEmailUnsubscribed } from './preferences.service.js';
+import { EMAIL_UNSUBSCRIBED_ERROR } from './dispatch.service.js';
+import { NotificationService } from './notification.service.js';
+import { withUnsubscribeLinks } from './unsubscribe.service.js';
+import type { Notification, NotificationType } from './notification.service.js';
+import { parseTimeOfDay, zonedParts, zonedTimeToUtc } from '../utils/timezone.js';
+
+export const DIGEST_SEND_JOB = 'digest.send';
+
+// Types buffered when the sender does not say whether a notification is digestible
+export const DEFAULT_DIGESTIBLE_TYPES: NotificationType[] = ['comment_added', 'task_status_changed'];
+
+export interface Digest {
+  id: string;
+  userId: string;
+  email: string;
+  frequency: DigestFrequency;
+  status: 'pending' | 'sent';
+  scheduledFor: string;
+  sentAt: string | null;
+  emailId: string | null;
+  notificationIds: string[];
+  createdAt: string;
+}
+
+interface DigestRow {
+  id: string;
+  user_id: string;
+  email: string;
+  frequency: string;
+  status: string;
+  scheduled_for: string;
+  sent_at: string | null;
+  email_id: string | null;
+  created_at: string;
+}
+
+/**
+ * When the next digest on the schedule goes out: the top of the next hour,
+ * or the next occurrence of the local time (on the given weekday for weekly).
+ */
+export function nextDigestAt(schedule: DigestSchedule, timeZone: string, now = new Date()): Date {
+  if (schedule.frequency === 'hourly' || schedule.frequency === 'immediate') {
+    const next = new Date(now);
+    next.setUTCMinutes(0, 0, 0);
+    next.setUTCHours(next.getUTCHours() + 1);
+    return next;
+  }
+
+  const local = zonedParts(now, timeZone);
+  const minutes = parseTimeOfDay(schedule.time);
+  const daysAhead = schedule.frequency === 'weekly' ? (schedule.dayOfWeek - local.weekday + 7) % 7 : 0;
+  const at = (extraDays: number) => zonedTimeToUtc({
+    year: local.year,
+    month: local.month,
+    day: local.day + daysAhead + extraDays,
+    hour: Math.floor(minutes / 60),
+    minute: minutes % 60,
+  }, timeZone);
+
+  const candidate = at(0);
+  if (candidate > now) return candidate;
+  return at(schedule.frequency === 'weekly' ? 7 : 1);
+}
+
+export class DigestService {
+  constructor(private db: Database.Database) {}
+
+  /**
+   * Buffers an email notification into the user's open digest, opening one
+   * and scheduling its send job if needed. Returns null when the user's
+   * schedule is immediate and the email should go out now.
+   */
+  add(notification: Notification, email: string, now = new Date()): Digest | null {
+    const preferences = new PreferencesService(this.db).get(notification.userId);
+    const { frequency } = preferences.digest;
+    if (frequency === 'immediate') return null;
+
+    const digestId = this.db.transaction(() => {
+      const open = this.db.prepare(`
+        SELECT id FROM digests WHERE user_id = ? AND status = 'pending' AND frequency = ?
+        ORDER BY scheduled_for ASC LIMIT 1
+      `).get(notification.userId, frequency) as { id: string } | undefined;
+
+      let id = open?.id;
+      if (!id) {
+        id = nanoid();
+        const scheduledFor = nextDigestAt(preferences.digest, preferences.timezone, now);
+        this.db.prepare(`
+          INSERT INTO digests (id, user_id, email, frequency, status, scheduled_for, created_at)
+          VALUES (?, ?, ?, ?, 'pending', ?, datetime('now'))
+        `).run(id, notification.userId, email, frequency, scheduledFor.toISOString());
+        new QueueService(this.db).enqueue(DIGEST_SEND_JOB, { digestId: id }, { runAt: scheduledFor });
+      }
+
+      // The latest known address wins
+      this.db.prepare('UPDATE digests SET email = ? WHERE id = ?').run(email, id);
+      this.db.prepare('UPDATE notifications SET digest_id = ? WHERE id = ?').run(id, notification.id);
+      return id;
+    })();
+
+    return this.getById(digestId);
+  }
+
+  getById(digestId: string): Digest | null {
+    const row = this.db.prepare('SELECT * FROM digests WHERE id = ?').get(digestId) as DigestRow | undefined;
+    return row ? this.rowToDigest(row) : null;
+  }
+
+  /**
+   * Renders the buffered notifications into one email, links them to it and
+   * leaves a summary in the in-app feed. Sending a digest twice is a no-op.
+   */
+  send(digestId: string): Digest | null {
+    const row = this.db.prepare('SELECT * FROM digests WHERE id = ?').get(digestId) as DigestRow | undefined;
+    if (!row) return null;
+    if (row.status === 'sent') return this.rowToDigest(row);
+
+    // Entries buffered before the user unsubscribed from their type leave the digest
+    const preferences = new PreferencesService(this.db).get(row.user_id);
+    const buffered = this.db.prepare(
+      'SELECT id, type FROM notifications WHERE digest_id = ?'
+    ).all(digestId) as { id: string; type: NotificationType }[];
+    const skip = this.db.prepare(`
+      UPDATE notifications SET digest_id = NULL, delivery_status = 'skipped', delivery_error = ?, delivery_refs = '[]'
+      WHERE id = ?
+    `);
+    for (const entry of buffered.filter(entry => isEmailUnsubscribed(preferences, entry.type))) {
+      skip.run(EMAIL_UNSUBSCRIBED_ERROR, entry.id);
+    }
+
+    const items = this.db.prepare(
+      'SELECT title, body FROM notifications WHERE digest_id = ? ORDER BY created_at ASC, id ASC'
+    ).all(digestId) as { title: string; body: string }[];
+
+    if (items.length === 0) {
+      this.db.prepare(
+        "UPDATE digests SET status = 'sent', sent_at = datetime('now') WHERE id = ?"
+      ).run(digestId);
+      return this.getById(digestId);
+    }
+
+    const subject = `Your ${row.frequency} digest: ${items.length} new notification${items.length === 1 ? '' : 's'}`;
+    const body = items.map(item => `- ${item.title}\n  ${item.body}`).join('\n\n');
+    const email = new EmailService(this.db).send(
+      withUnsubscribeLinks({ to: row.email, subject, text: body }, { userId: row.user_id, type: null }),
+    );
+
+    this.db.transaction(() => {
+      this.db.prepare(`
+        UPDATE digests SET status = 'sent', sent_at = datetime('now'), email_id = ? WHERE id = ?
+      `).run(email.id, digestId);
+      this.db.prepare(`
+        UPDATE notifications SET delivery_status = ?, delivery_error = ?, delivery_refs = ?
+        WHERE digest_id = ?
+      `).run(
+        email.status === 'suppressed' ? 'skipped' : 'queued',
+        email.error,
+        JSON.stringify([digestId, email.id]),
+        digestId,
+      );
+    })();
+
+    new NotificationService(this.db).send({
+      userId: row.user_id,
+      type: 'digest',
+      title: subject,
+      body: items.map(item => item.title).join('\n'),
+      metadata: { digestId, emailId: email.id },
+      channels: ['in_app'],
+    });
+
+    return this.getById(digestId);
+  }
+
+  private rowToDigest(row: DigestRow): Digest {
+    const ids = this.db.prepare(
+      'SELECT id FROM notifications WHERE digest_id = ? ORDER BY created_at ASC, id ASC'
+    ).all(row.id) as { id: string }[];
+
+    return {
+      id: row.id,
+      userId: row.user_id,
+      email: row.email,
+      frequency: row.frequency as DigestFrequency,
+      status: row.status as Digest['status'],
+      scheduledFor: row.scheduled_for,
+      sentAt: row.sent_at,
+      emailId: row.email_id,
+      notificationIds: ids.map(r => r.id),
+      createdAt: row.created_at,
+    };
+  }
+}
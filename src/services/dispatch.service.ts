@@ -0,0 +1,165 @@
+import Database from 'better-sqlite3';
+import { ContactService } from './contact.service.js';
+import { DigestService } from './digest.service.js';
+import { EmailService } from './email.service.js';
+import { PreferencesService, isEmailUnsubscribed, quietUntil } from './preferences.service.js';
+import { QueueService } from './queue.service.js';
+import { withUnsubscribeLinks } from './unsubscribe.service.js';
+import { WebhookService } from './webhook.service.js';
+import { isSystemNotificationType } from './notification.service.js';
+import type { Notification, NotificationChannel } from './notification.service.js';
+
+export const DISPATCH_DEFERRED_JOB = 'notification.dispatch';
+
+export type DeliveryStatus = 'delivered' | 'queued' | 'deferred' | 'skipped' | 'failed';
+
+export const EMAIL_UNSUBSCRIBED_ERROR = 'Recipient unsubscribed from these emails';
+
+export interface DeliveryResult {
+  channel: NotificationChannel;
+  status: DeliveryStatus;
+  error: string | null;
+  // IDs of the records created by the channel (sent_emails / webhook_deliveries)
+  references: string[];
+}
+
+export interface DispatchRecipient {
+  // Overrides the address in the recipient directory
+  email?: string;
+}
+
+export interface DispatchOptions {
+  // Email may be held back for the recipient's digest
+  digestible?: boolean;
+  // Set when running a delivery that was already held for quiet hours
+  ignoreQuietHours?: boolean;
+  // Set once the contact lookup has run, so a missing address fails instead of queueing another lookup
+  recipientResolved?: boolean;
+}
+
+export class DispatchService {
+  constructor(private db: Database.Database) {}
+
+  dispatch(notification: Notification, recipient: DispatchRecipient = {}, options: DispatchOptions = {}): DeliveryResult {
+    try {
+      switch (notification.channel) {
+        case 'in_app':
+          return this.result(notification.channel, 'delivered');
+        case 'email':
+          return this.dispatchEmail(notification, recipient, options);
+        case 'webhook':
+          return this.dispatchWebhook(notification, options);
+      }
+    } catch (err) {
+      return this.result(notification.channel, 'failed', { error: (err as Error).message });
+    }
+  }
+
+  private dispatchEmail(notification: Notification, recipient: DispatchRecipient, options: DispatchOptions): DeliveryResult {
+    // Holds whatever the channel mode, so explicit `channels: ['email']` cannot bypass an unsubscribe
+    if (isEmailUnsubscribed(new PreferencesService(this.db).get(notification.userId), notification.type)) {
+      return this.result('email', 'skipped', { error: EMAIL_UNSUBSCRIBED_ERROR });
+    }
+
+    const contact = new ContactService(this.db).get(notification.userId);
+    const address = recipient.email ?? contact?.email;
+    if (!address) {
+      if (options.recipientResolved) {
+        return this.result('email', 'failed', { error: 'No email address known for recipient' });
+      }
+      // The contact lookup is asynchronous, so the worker resolves the address and dispatches again
+      new QueueService(this.db).enqueue(
+        DISPATCH_DEFERRED_JOB,
+        { notificationId: notification.id, email: null, digestible: options.digestible ?? false },
+      );
+      return this.result('email', 'queued');
+    }
+
+    if (options.digestible) {
+      const digest = new DigestService(this.db).add(notification, address);
+      if (digest) {
+        return this.result('email', 'queued', { references: [digest.id] });
+      }
+    }
+
+    const until = this.quietUntil(notification, options);
+    if (until) {
+      return this.defer(notification, until, recipient, options);
+    }
+
+    // The directory's name only belongs to the directory's address
+    const toName = contact && contact.email === address ? contact.displayName : null;
+    const content = notification.emailContent;
+    const draft = content
+      ? { to: address, toName, subject: content.subject, text: content.text, html: content.html }
+      : { to: address, toName, subject: notification.title, text: notification.body };
+    const email = new EmailService(this.db).send(
+      withUnsubscribeLinks(draft, { userId: notification.userId, type: notification.type }),
+    );
+    if (email.status === 'suppressed') {
+      return this.result('email', 'skipped', { error: email.error!, references: [email.id] });
+    }
+    return this.result('email', 'queued', { references: [email.id] });
+  }
+
+  private dispatchWebhook(notification: Notification, options: DispatchOptions): DeliveryResult {
+    if (isSystemNotificationType(notification.type)) {
+      return this.result('webhook', 'skipped', { error: 'System notifications are not sent to webhooks' });
+    }
+
+    const until = this.quietUntil(notification, options);
+    if (until) {
+      return this.defer(notification, until, {}, options);
+    }
+
+    const deliveries = new WebhookService(this.db).enqueue(
+      notification.type,
+      {
+        event: notification.type,
+        notificationId: notification.id,
+        userId: notification.userId,
+        title: notification.title,
+        body: notification.body,
+        metadata: notification.metadata,
+        createdAt: notification.createdAt,
+      },
+      notification.userId,
+    );
+
+    if (deliveries.length === 0) {
+      return this.result('webhook', 'skipped', { error: 'No active webhooks subscribed to this event' });
+    }
+
+    return this.result('webhook', 'queued', { references: deliveries.map(d => d.id) });
+  }
+
+  private quietUntil(notification: Notification, options: DispatchOptions): Date | null {
+    if (options.ignoreQuietHours) return null;
+    return quietUntil(new PreferencesService(this.db).get(notification.userId), notification.type);
+  }
+
+  // Queues the channel delivery to run again once the recipient's quiet hours end
+  private defer(
+    notification: Notification,
+    until: Date,
+    recipient: DispatchRecipient,
+    options: DispatchOptions,
+  ): DeliveryResult {
+    new QueueService(this.db).enqueue(
+      DISPATCH_DEFERRED_JOB,
+      { notificationId: notification.id, email: recipient.email ?? null, digestible: options.digestible ?? false },
+      { runAt: until },
+    );
+    return this.result(notification.channel, 'deferred', {
+      error: `Held for quiet hours until ${until.toISOString()}`,
+    });
+  }
+
+  private result(
+    channel: NotificationChannel,
+    status: DeliveryStatus,
+    extra: { error?: string; references?: string[] } = {},
+  ): DeliveryResult {
+    return { channel, status, error: extra.error ?? null, references: extra.references ?? [] };
+  }
+}
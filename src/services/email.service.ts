@@ -1,47 +1,223 @@
 import Database from 'better-sqlite3';
 import { nanoid } from 'nanoid';
+import { QueueService } from './queue.service.js';
+import { SuppressionService } from './suppression.service.js';
+import type { EmailSuppression } from './suppression.service.js';
+import { buildRawMessage } from '../email/mime.js';
+import { EmailTransportError } from '../email/transport.js';
+import type { EmailAttachment, EmailTransport } from '../email/transport.js';
+
+export const EMAIL_SEND_JOB = 'email.send';
+
+const EMAIL_FROM = process.env.EMAIL_FROM || 'Nexus <notifications@nexus.local>';
+const EMAIL_MAX_ATTEMPTS = parseInt(process.env.EMAIL_MAX_ATTEMPTS || '5', 10);
+const DEFAULT_LIST_UNSUBSCRIBE = process.env.EMAIL_LIST_UNSUBSCRIBE_URL || null;
+
+// Set by the renderer; a custom header must not override them
+const RESERVED_HEADERS = new Set([
+  'from', 'to', 'cc', 'bcc', 'reply-to', 'subject', 'date', 'message-id',
+  'mime-version', 'content-type', 'content-transfer-encoding',
+  'list-unsubscribe', 'list-unsubscribe-post',
+]);
+const HEADER_NAME = /^[!-9;-~]+$/;
+
+export type SentEmailStatus = 'queued' | 'sent' | 'failed' | 'suppressed';
+
+/** What callers provide; the sender and Message-ID are filled in by EmailService. */
+export interface EmailDraft {
+  to: string;
+  toName?: string | null;
+  cc?: string[];
+  bcc?: string[];
+  replyTo?: string;
+  subject: string;
+  text: string;
+  html?: string;
+  headers?: Record<string, string>;
+  attachments?: EmailAttachment[];
+  // Defaults to EMAIL_LIST_UNSUBSCRIBE_URL; null leaves the header out
+  listUnsubscribe?: string | null;
+}
+
+export interface EmailAttachmentSummary {
+  filename: string;
+  contentType: string;
+  contentId: string | null;
+  size: number;
+}
 
 export interface SentEmail {
   id: string;
+  messageId: string | null;
+  fromEmail: string;
   toEmail: string;
+  toName: string | null;
+  cc: string[];
+  bcc: string[];
+  replyTo: string | null;
   subject: string;
   body: string;
+  html: string | null;
+  headers: Record<string, string>;
+  attachments: EmailAttachmentSummary[];
+  listUnsubscribe: string | null;
+  status: SentEmailStatus;
+  error: string | null;
+  attempts: number;
+  sentAt: string | null;
   createdAt: string;
 }
 
+// Subject and text/HTML bodies rendered from a template for the email channel
+export interface EmailContent {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface EmailSendResult {
+  ok: boolean;
+  error: string | null;
+  // Not worth retrying, e.g. the server rejected the recipient
+  permanent: boolean;
+}
+
 interface SentEmailRow {
   id: string;
+  message_id: string | null;
+  from_email: string | null;
   to_email: string;
+  to_name: string | null;
+  cc: string;
+  bcc: string;
+  reply_to: string | null;
   subject: string;
   body: string;
+  html: string | null;
+  headers: string;
+  attachments: string;
+  list_unsubscribe: string | null;
+  raw_message: string | null;
+  status: string;
+  error: string | null;
+  attempts: number;
+  sent_at: string | null;
   created_at: string;
 }
 
 function rowToSentEmail(row: SentEmailRow): SentEmail {
+  const attachments = JSON.parse(row.attachments) as EmailAttachment[];
   return {
     id: row.id,
+    messageId: row.message_id,
+    fromEmail: row.from_email ?? EMAIL_FROM,
     toEmail: row.to_email,
+    toName: row.to_name,
+    cc: JSON.parse(row.cc),
+    bcc: JSON.parse(row.bcc),
+    replyTo: row.reply_to,
     subject: row.subject,
     body: row.body,
+    html: row.html,
+    headers: JSON.parse(row.headers),
+    attachments: attachments.map(attachment => ({
+      filename: attachment.filename,
+      contentType: attachment.contentType,
+      contentId: attachment.contentId ?? null,
+      size: Buffer.byteLength(attachment.content, 'base64'),
+    })),
+    listUnsubscribe: row.list_unsubscribe,
+    status: row.status as SentEmailStatus,
+    error: row.error,
+    attempts: row.attempts,
+    sentAt: row.sent_at,
     createdAt: row.created_at,
   };
 }
 
+function messageIdFor(id: string, from: string): string {
+  const domain = from.match(/@([^>\s]+)>?\s*$/)?.[1] ?? 'localhost';
+  return `<${id}@${domain}>`;
+}
+
+function suppressedError(suppression: EmailSuppression): string {
+  return `Address is suppressed after a ${suppression.reason}`;
+}
+
+// Copies are dropped silently; only a suppressed `to` address suppresses the whole email
+function withoutSuppressed(suppressions: SuppressionService, addresses: string[]): string[] {
+  return addresses.filter(address => !suppressions.get(address));
+}
+
+function checkHeaders(headers: Record<string, string>): void {
+  for (const [name, value] of Object.entries(headers)) {
+    if (!HEADER_NAME.test(name) || RESERVED_HEADERS.has(name.toLowerCase())) {
+      throw new Error(`Header "${name}" cannot be set on an email`);
+    }
+    if (/[\r\n]/.test(value)) {
+      throw new Error(`Header "${name}" contains a line break`);
+    }
+  }
+}
+
 export class EmailService {
   constructor(private db: Database.Database) {}
 
-  send(toEmail: string, subject: string, body: string): SentEmail {
+  /**
+   * Records the email as `queued` and hands it to the job queue; the transport is never
+   * called inline. An email to a suppressed address is recorded as `suppressed` instead,
+   * and suppressed cc/bcc addresses are left out.
+   */
+  send(draft: EmailDraft): SentEmail {
+    checkHeaders(draft.headers ?? {});
+
     const id = nanoid();
+    const suppressions = new SuppressionService(this.db);
+    const suppression = suppressions.get(draft.to);
+    this.db.transaction(() => {
+      this.db.prepare(`
+        INSERT INTO sent_emails (
+          id, message_id, from_email, to_email, to_name, cc, bcc, reply_to, subject, body, html,
+          headers, attachments, list_unsubscribe, status, error, created_at
+        )
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, datetime('now'))
+      `).run(
+        id,
+        messageIdFor(id, EMAIL_FROM),
+        EMAIL_FROM,
+        draft.to,
+        draft.toName ?? null,
+        JSON.stringify(withoutSuppressed(suppressions, draft.cc ?? [])),
+        JSON.stringify(withoutSuppressed(suppressions, draft.bcc ?? [])),
+        draft.replyTo ?? null,
+        draft.subject,
+        draft.text,
+        draft.html ?? null,
+        JSON.stringify(draft.headers ?? {}),
+        JSON.stringify(draft.attachments ?? []),
+        draft.listUnsubscribe === undefined ? DEFAULT_LIST_UNSUBSCRIBE : draft.listUnsubscribe,
+        suppression ? 'suppressed' : 'queued',
+        suppression ? suppressedError(suppression) : null,
+      );
+      if (!suppression) {
+        new QueueService(this.db).enqueue(EMAIL_SEND_JOB, { emailId: id }, { maxAttempts: EMAIL_MAX_ATTEMPTS });
+      }
+    })();
 
-    console.log(`[EMAIL] To: ${toEmail} | Subject: ${subject} | Body: ${body}`);
+    return this.getById(id)!;
+  }
 
-    this.db.prepare(`
-      INSERT INTO sent_emails (id, to_email, subject, body, created_at)
-      VALUES (?, ?, ?, ?, datetime('now'))
-    `).run(id, toEmail, subject, body);
+  getById(id: string): SentEmail | null {
+    const row = this.db.prepare('SELECT * FROM sent_emails WHERE id = ?').get(id) as SentEmailRow | undefined;
+    return row ? rowToSentEmail(row) : null;
+  }
 
-    const row = this.db.prepare('SELECT * FROM sent_emails WHERE id = ?').get(id) as SentEmailRow;
-    return rowToSentEmail(row);
+  /** The message exactly as last handed to the transport, or null if it was never attempted. */
+  getRawMessage(id: string): string | null {
+    const row = this.db.prepare('SELECT raw_message FROM sent_emails WHERE id = ?').get(id) as
+      | Pick<SentEmailRow, 'raw_message'>
+      | undefined;
+    return row?.raw_message ?? null;
   }
 
   list(): SentEmail[] {
@@ -50,4 +226,68 @@ export class EmailService {
     ).all() as SentEmailRow[];
     return rows.map(rowToSentEmail);
   }
+
+  /**
+   * Renders the message, makes a single send attempt through the transport and
+   * records its outcome. The email stays queued after a temporary failure unless
+   * this was its final attempt.
+   */
+  async deliver(id: string, transport: EmailTransport, finalAttempt: boolean): Promise<EmailSendResult> {
+    const row = this.db.prepare('SELECT * FROM sent_emails WHERE id = ?').get(id) as SentEmailRow | undefined;
+    if (!row) {
+      return { ok: false, error: 'Email no longer exists', permanent: true };
+    }
+    if (row.status !== 'queued') {
+      return { ok: row.status === 'sent', error: row.error, permanent: true };
+    }
+
+    // The addresses may have bounced since the email was queued
+    const suppressions = new SuppressionService(this.db);
+    const suppression = suppressions.get(row.to_email);
+    if (suppression) {
+      const error = suppressedError(suppression);
+      this.db.prepare(
+        "UPDATE sent_emails SET status = 'suppressed', error = ? WHERE id = ?"
+      ).run(error, id);
+      return { ok: false, error, permanent: true };
+    }
+
+    const from = row.from_email ?? EMAIL_FROM;
+    let raw: string | null = null;
+    try {
+      const rendered = await buildRawMessage({
+        messageId: row.message_id ?? messageIdFor(row.id, from),
+        from,
+        to: row.to_email,
+        toName: row.to_name,
+        cc: withoutSuppressed(suppressions, JSON.parse(row.cc)),
+        bcc: withoutSuppressed(suppressions, JSON.parse(row.bcc)),
+        replyTo: row.reply_to,
+        subject: row.subject,
+        text: row.body,
+        html: row.html,
+        headers: JSON.parse(row.headers),
+        attachments: JSON.parse(row.attachments),
+        listUnsubscribe: row.list_unsubscribe,
+      });
+      raw = rendered.raw.toString('utf8');
+
+      const result = await transport.send(rendered);
+      this.db.prepare(`
+        UPDATE sent_emails
+        SET status = 'sent', message_id = ?, raw_message = ?, error = NULL, attempts = attempts + 1,
+            sent_at = datetime('now')
+        WHERE id = ?
+      `).run(result.messageId, raw, id);
+      return { ok: true, error: null, permanent: false };
+    } catch (err) {
+      const error = (err as Error).message;
+      const permanent = err instanceof EmailTransportError && err.permanent;
+      this.db.prepare(`
+        UPDATE sent_emails SET status = ?, raw_message = COALESCE(?, raw_message), error = ?, attempts = attempts + 1
+        WHERE id = ?
+      `).run(permanent || finalAttempt ? 'failed' : 'queued', raw, error, id);
+      return { ok: false, error, permanent };
+    }
+  }
 }
@@ -0,0 +1,64 @@
+import Database from 'better-sqlite3';
+import crypto from 'crypto';
+
+export interface StoredResponse {
+  statusCode: number;
+  body: unknown;
+}
+
+export type IdempotencyLookup =
+  | { status: 'miss' }
+  | { status: 'hit'; response: StoredResponse }
+  // The key was used for a different payload
+  | { status: 'mismatch' };
+
+const TTL_HOURS = parseInt(process.env.IDEMPOTENCY_KEY_TTL_HOURS || '24', 10);
+
+// JSON with object keys sorted, so equal payloads hash equally regardless of key order
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+export function hashPayload(payload: unknown): string {
+  return crypto.createHash('sha256').update(canonicalJson(payload)).digest('hex');
+}
+
+/**
+ * Remembers the response sent for an idempotency key so a retried request
+ * gets the original response instead of repeating its side effects.
+ */
+export class IdempotencyService {
+  constructor(private db: Database.Database) {}
+
+  lookup(key: string, requestHash: string, now = new Date()): IdempotencyLookup {
+    const row = this.db.prepare(
+      'SELECT request_hash, status_code, response FROM idempotency_keys WHERE key = ? AND expires_at > ?'
+    ).get(key, now.toISOString()) as { request_hash: string; status_code: number; response: string } | undefined;
+
+    if (!row) return { status: 'miss' };
+    if (row.request_hash !== requestHash) return { status: 'mismatch' };
+    return { status: 'hit', response: { statusCode: row.status_code, body: JSON.parse(row.response) } };
+  }
+
+  save(key: string, requestHash: string, response: StoredResponse, now = new Date()): void {
+    const expiresAt = new Date(now.getTime() + TTL_HOURS * 60 * 60 * 1000).toISOString();
+    // An expired row for the same key is replaced
+    this.db.prepare(`
+      INSERT OR REPLACE INTO idempotency_keys (key, request_hash, status_code, response, created_at, expires_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).run(key, requestHash, response.statusCode, JSON.stringify(response.body), now.toISOString(), expiresAt);
+  }
+
+  prune(now = new Date()): number {
+    return this.db.prepare('DELETE FROM idempotency_keys WHERE expires_at <= ?').run(now.toISOString()).changes;
+  }
+}
@@ -0,0 +1,144 @@
+import Database from 'better-sqlite3';
+import { EventEmitter } from 'events';
+
+export type NotificationEventType =
+  | 'notification.created'
+  | 'notification.read'
+  | 'notification.read_all'
+  | 'notification.group_read'
+  | 'unread_count';
+
+export interface NotificationEvent {
+  // Monotonically increasing across all users; used as the SSE event id
+  seq: number;
+  userId: string;
+  type: NotificationEventType;
+  data: Record<string, unknown>;
+  createdAt: string;
+}
+
+export type NotificationEventListener = (event: NotificationEvent) => void;
+
+interface EventRow {
+  seq: number;
+  user_id: string;
+  type: string;
+  data: string;
+  created_at: string;
+}
+
+function rowToEvent(row: EventRow): NotificationEvent {
+  return {
+    seq: row.seq,
+    userId: row.user_id,
+    type: row.type as NotificationEventType,
+    data: JSON.parse(row.data),
+    createdAt: row.created_at,
+  };
+}
+
+const RETENTION_HOURS = parseInt(process.env.NOTIFICATION_EVENT_RETENTION_HOURS || '24', 10);
+
+// Services are created per request, so live listeners hang off the database instead
+const emitters = new WeakMap<Database.Database, EventEmitter>();
+
+function emitterFor(db: Database.Database): EventEmitter {
+  let emitter = emitters.get(db);
+  if (!emitter) {
+    emitter = new EventEmitter();
+    // One listener per open stream
+    emitter.setMaxListeners(0);
+    emitters.set(db, emitter);
+  }
+  return emitter;
+}
+
+// Events published inside a transaction, pushed once it has ended
+const pending = new WeakMap<Database.Database, NotificationEvent[]>();
+
+/**
+ * Pushes the events held back by an open transaction. better-sqlite3 runs a
+ * transaction synchronously, so by the time this runs it has committed or rolled
+ * back; only events whose row is still there went out with a commit. A rolled
+ * back seq can be reused by a later insert, so the row must match the event too.
+ */
+function flushPending(db: Database.Database): void {
+  if (!db.open) {
+    pending.delete(db);
+    return;
+  }
+  if (db.inTransaction) {
+    setImmediate(() => flushPending(db));
+    return;
+  }
+
+  const events = pending.get(db) ?? [];
+  pending.delete(db);
+
+  const emitter = emitterFor(db);
+  const select = db.prepare('SELECT * FROM notification_events WHERE seq = ?');
+  const emitted = new Set<number>();
+  for (const event of events) {
+    const row = select.get(event.seq) as EventRow | undefined;
+    if (!row || emitted.has(row.seq)) continue;
+    if (row.user_id !== event.userId || row.type !== event.type || row.data !== JSON.stringify(event.data)) continue;
+
+    emitted.add(row.seq);
+    emitter.emit(`user:${row.user_id}`, rowToEvent(row));
+  }
+}
+
+/**
+ * Per-user event log behind the real-time streams. Every event is stored
+ * before it is pushed, so a client reconnecting with the last sequence it saw
+ * can replay what it missed. Inside a transaction the push waits until the
+ * transaction ends, and is dropped if it rolled back.
+ */
+export class NotificationEventService {
+  constructor(private db: Database.Database) {}
+
+  publish(userId: string, type: NotificationEventType, data: Record<string, unknown>): NotificationEvent {
+    const { lastInsertRowid } = this.db.prepare(
+      'INSERT INTO notification_events (user_id, type, data) VALUES (?, ?, ?)'
+    ).run(userId, type, JSON.stringify(data));
+
+    const row = this.db.prepare('SELECT * FROM notification_events WHERE seq = ?').get(lastInsertRowid) as EventRow;
+    const event = rowToEvent(row);
+    const held = pending.get(this.db);
+    // Queued behind held events so listeners still see them in seq order
+    if (!this.db.inTransaction && !held) {
+      emitterFor(this.db).emit(`user:${userId}`, event);
+      return event;
+    }
+
+    if (held) {
+      held.push(event);
+    } else {
+      pending.set(this.db, [event]);
+      queueMicrotask(() => flushPending(this.db));
+    }
+    return event;
+  }
+
+  /** Events for the user after the given sequence, oldest first. */
+  since(userId: string, seq: number): NotificationEvent[] {
+    const rows = this.db.prepare(
+      'SELECT * FROM notification_events WHERE user_id = ? AND seq > ? ORDER BY seq ASC'
+    ).all(userId, seq) as EventRow[];
+    return rows.map(rowToEvent);
+  }
+
+  /** Registers a listener for the user's live events and returns its unsubscribe function. */
+  subscribe(userId: string, listener: NotificationEventListener): () => void {
+    const emitter = emitterFor(this.db);
+    emitter.on(`user:${userId}`, listener);
+    return () => emitter.off(`user:${userId}`, listener);
+  }
+
+  /** Deletes events older than the retention window; returns how many were removed. */
+  prune(retentionHours = RETENTION_HOURS): number {
+    return this.db.prepare(
+      "DELETE FROM notification_events WHERE created_at < datetime('now', ?)"
+    ).run(`-${retentionHours} hours`).changes;
+  }
+}
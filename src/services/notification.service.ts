@@ -1,13 +1,27 @@
 import Database from 'better-sqlite3';
 import { nanoid } from 'nanoid';
+import { DispatchService, DeliveryResult, DeliveryStatus } from './dispatch.service.js';
+import { NotificationEventService } from './notification-events.service.js';
+import { DEFAULT_DIGESTIBLE_TYPES } from './digest.service.js';
+import { PreferencesService } from './preferences.service.js';
+import type { EmailContent } from './email.service.js';
 
 export type NotificationChannel = 'in_app' | 'email' | 'webhook';
+// System notifications are raised by this service itself, not by producers
+export type SystemNotificationType = 'webhook_disabled' | 'digest';
 export type NotificationType =
   | 'task_assigned'
   | 'task_status_changed'
   | 'comment_added'
   | 'project_invited'
-  | 'task_due_soon';
+  | 'task_due_soon'
+  | SystemNotificationType;
+
+const SYSTEM_NOTIFICATION_TYPES: NotificationType[] = ['webhook_disabled', 'digest'];
+
+export function isSystemNotificationType(type: NotificationType): type is SystemNotificationType {
+  return SYSTEM_NOTIFICATION_TYPES.includes(type);
+}
 
 export interface Notification {
   id: string;
@@ -18,9 +32,25 @@ export interface Notification {
   body: string;
   metadata: Record<string, string>;
   read: boolean;
+  delivery: NotificationDelivery | null;
+  groupKey: string;
+  // Set when the email for this notification went out as part of a digest
+  digestId: string | null;
+  // Template-rendered email; without it the email uses title and body
+  emailContent: EmailContent | null;
   createdAt: string;
 }
 
+export interface NotificationDelivery {
+  status: DeliveryStatus;
+  error: string | null;
+  references: string[];
+}
+
+// How sender-requested channels combine with the recipient's preferences:
+// 'exact' uses them as given, 'intersect' drops channels the user has opted out of.
+export type ChannelMode = 'exact' | 'intersect';
+
 export interface SendNotificationRequest {
   userId: string;
   type: NotificationType;
@@ -28,6 +58,23 @@ export interface SendNotificationRequest {
   body: string;
   metadata?: Record<string, string>;
   channels?: NotificationChannel[];
+  channelMode?: ChannelMode;
+  // Recipient address used by the email channel
+  email?: string;
+  // Notifications sharing a key collapse into one group; defaults to `<type>:<metadata.taskId>`
+  groupKey?: string;
+  // Whether the email may wait for the recipient's digest; defaults by type
+  digestible?: boolean;
+  emailContent?: EmailContent;
+}
+
+export interface NotificationGroup {
+  groupKey: string;
+  latest: Notification;
+  count: number;
+  unreadCount: number;
+  // Distinct metadata.actorId values, most recent first
+  actors: string[];
 }
 
 export interface PaginationQuery {
@@ -43,6 +90,56 @@ export interface PaginatedResponse<T> {
   hasMore: boolean;
 }
 
+export interface NotificationFilters {
+  types?: NotificationType[];
+  channels?: NotificationChannel[];
+  read?: boolean;
+  // Inclusive createdAt range, any format SQLite's datetime() understands
+  since?: string;
+  until?: string;
+  // Exact matches on metadata values
+  metadata?: Record<string, string>;
+}
+
+// Position after the last item of a page; ordering is (created_at DESC, id DESC)
+export interface NotificationCursor {
+  createdAt: string;
+  id: string;
+}
+
+export interface CursorQuery {
+  cursor?: NotificationCursor;
+  limit?: number;
+}
+
+export interface CursorPage<T> {
+  items: T[];
+  nextCursor: string | null;
+  hasMore: boolean;
+}
+
+const MAX_GROUP_ACTORS = 5;
+
+// Metadata keys are inlined into json paths, so they are restricted to safe characters
+export const METADATA_KEY_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+export function encodeCursor(cursor: NotificationCursor): string {
+  return Buffer.from(JSON.stringify([cursor.createdAt, cursor.id])).toString('base64url');
+}
+
+/** Returns null for anything that is not a cursor produced by encodeCursor. */
+export function decodeCursor(value: string): NotificationCursor | null {
+  try {
+    const decoded = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    if (Array.isArray(decoded) && decoded.length === 2 && decoded.every(part => typeof part === 'string')) {
+      return { createdAt: decoded[0], id: decoded[1] };
+    }
+  } catch {
+    // Falls through to null
+  }
+  return null;
+}
+
 interface NotificationRow {
   id: string;
   user_id: string;
@@ -52,9 +149,20 @@ interface NotificationRow {
   body: string;
   metadata: string;
   read: number;
+  delivery_status: string | null;
+  delivery_error: string | null;
+  delivery_refs: string;
+  group_key: string | null;
+  digest_id: string | null;
+  email_content: string | null;
   created_at: string;
 }
 
+interface GroupRow extends NotificationRow {
+  group_count: number;
+  group_unread: number;
+}
+
 function rowToNotification(row: NotificationRow): Notification {
   return {
     id: row.id,
@@ -65,6 +173,16 @@ function rowToNotification(row: NotificationRow): Notification {
     body: row.body,
     metadata: JSON.parse(row.metadata),
     read: row.read === 1,
+    delivery: row.delivery_status
+      ? {
+          status: row.delivery_status as DeliveryStatus,
+          error: row.delivery_error,
+          references: JSON.parse(row.delivery_refs),
+        }
+      : null,
+    groupKey: row.group_key ?? row.id,
+    digestId: row.digest_id,
+    emailContent: row.email_content ? JSON.parse(row.email_content) : null,
     createdAt: row.created_at,
   };
 }
@@ -73,38 +191,103 @@ export class NotificationService {
   constructor(private db: Database.Database) {}
 
   send(req: SendNotificationRequest): Notification[] {
-    const channels = req.channels || ['in_app'];
+    const channels = this.resolveChannels(req);
     const notifications: Notification[] = [];
 
+    const dispatcher = new DispatchService(this.db);
+    const digestible = req.digestible ?? DEFAULT_DIGESTIBLE_TYPES.includes(req.type);
+
     const stmt = this.db.prepare(`
-      INSERT INTO notifications (id, user_id, type, channel, title, body, metadata, read, created_at)
-      VALUES (?, ?, ?, ?, ?, ?, ?, 0, datetime('now'))
+      INSERT INTO notifications (id, user_id, type, channel, title, body, metadata, group_key, email_content, read, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 0, datetime('now'))
     `);
 
     for (const channel of channels) {
       const id = nanoid();
       const metadata = JSON.stringify(req.metadata || {});
-      stmt.run(id, req.userId, req.type, channel, req.title, req.body, metadata);
+      // Only the email row needs the email variant
+      const emailContent = channel === 'email' && req.emailContent ? JSON.stringify(req.emailContent) : null;
+      stmt.run(id, req.userId, req.type, channel, req.title, req.body, metadata, this.groupKeyFor(req) ?? id, emailContent);
+
+      const inserted = this.db.prepare('SELECT * FROM notifications WHERE id = ?').get(id) as NotificationRow;
+      const result = dispatcher.dispatch(rowToNotification(inserted), { email: req.email }, { digestible });
+      notifications.push(this.recordDelivery(id, result)!);
+    }
 
-      const row = this.db.prepare('SELECT * FROM notifications WHERE id = ?').get(id) as NotificationRow;
-      notifications.push(rowToNotification(row));
+    const events = new NotificationEventService(this.db);
+    for (const notification of notifications.filter(n => n.channel === 'in_app')) {
+      events.publish(req.userId, 'notification.created', { notification });
+    }
+    if (notifications.length > 0) {
+      this.publishUnreadCount(req.userId);
     }
 
     return notifications;
   }
 
-  list(userId: string, query: PaginationQuery = {}): PaginatedResponse<Notification> {
+  getById(notificationId: string): Notification | null {
+    const row = this.db.prepare('SELECT * FROM notifications WHERE id = ?').get(notificationId) as NotificationRow | undefined;
+    return row ? rowToNotification(row) : null;
+  }
+
+  recordDelivery(notificationId: string, result: DeliveryResult): Notification | null {
+    this.db.prepare(`
+      UPDATE notifications SET delivery_status = ?, delivery_error = ?, delivery_refs = ? WHERE id = ?
+    `).run(result.status, result.error, JSON.stringify(result.references), notificationId);
+    return this.getById(notificationId);
+  }
+
+  /**
+   * Moves the email notifications carried by a sent email (directly or through
+   * a digest) on from `queued` once the email job has an outcome.
+   */
+  recordEmailOutcome(emailId: string, status: DeliveryStatus, error: string | null): number {
+    return this.db.prepare(`
+      UPDATE notifications SET delivery_status = ?, delivery_error = ?
+      WHERE channel = 'email' AND delivery_status = 'queued'
+        AND EXISTS (SELECT 1 FROM json_each(notifications.delivery_refs) WHERE value = ?)
+    `).run(status, error, emailId).changes;
+  }
+
+  /**
+   * Explicit key, else type plus the task the notification is about. Null means
+   * the notification is a group of its own (keyed by its id).
+   */
+  groupKeyFor(req: SendNotificationRequest): string | null {
+    if (req.groupKey) return req.groupKey;
+    const taskId = req.metadata?.taskId;
+    return taskId ? `${req.type}:${taskId}` : null;
+  }
+
+  /**
+   * Without explicit channels the recipient's preferences for the type decide.
+   * In 'intersect' mode the requested channels are filtered by those preferences.
+   */
+  resolveChannels(req: SendNotificationRequest): NotificationChannel[] {
+    if (req.channels && (req.channelMode ?? 'exact') === 'exact') {
+      return req.channels;
+    }
+
+    const allowed = new PreferencesService(this.db).getChannels(req.userId, req.type);
+    if (!req.channels) return allowed;
+
+    return req.channels.filter(channel => allowed.includes(channel));
+  }
+
+  /** Page-number listing, kept for older clients; prefer listByCursor. */
+  list(userId: string, query: PaginationQuery & NotificationFilters = {}): PaginatedResponse<Notification> {
     const page = Math.max(1, query.page || 1);
     const pageSize = Math.min(100, Math.max(1, query.pageSize || 20));
     const offset = (page - 1) * pageSize;
+    const { where, params } = this.filterClause(userId, query);
 
     const total = (this.db.prepare(
-      'SELECT COUNT(*) as count FROM notifications WHERE user_id = ?'
-    ).get(userId) as { count: number }).count;
+      `SELECT COUNT(*) as count FROM notifications WHERE ${where}`
+    ).get(...params) as { count: number }).count;
 
     const rows = this.db.prepare(
-      'SELECT * FROM notifications WHERE user_id = ? ORDER BY created_at DESC LIMIT ? OFFSET ?'
-    ).all(userId, pageSize, offset) as NotificationRow[];
+      `SELECT * FROM notifications WHERE ${where} ORDER BY created_at DESC, id DESC LIMIT ? OFFSET ?`
+    ).all(...params, pageSize, offset) as NotificationRow[];
 
     return {
       items: rows.map(rowToNotification),
@@ -115,6 +298,89 @@ export class NotificationService {
     };
   }
 
+  /**
+   * Keyset pagination on (created_at, id): a page starts strictly after the
+   * cursor, so notifications arriving in the meantime do not shift later pages.
+   */
+  listByCursor(userId: string, query: CursorQuery & NotificationFilters = {}): CursorPage<Notification> {
+    const limit = Math.min(100, Math.max(1, query.limit || 20));
+    const { where, params } = this.filterClause(userId, query);
+
+    let keyset = '';
+    if (query.cursor) {
+      keyset = ' AND (created_at < ? OR (created_at = ? AND id < ?))';
+      params.push(query.cursor.createdAt, query.cursor.createdAt, query.cursor.id);
+    }
+
+    // One extra row tells whether another page exists without a COUNT(*)
+    const rows = this.db.prepare(
+      `SELECT * FROM notifications WHERE ${where}${keyset} ORDER BY created_at DESC, id DESC LIMIT ?`
+    ).all(...params, limit + 1) as NotificationRow[];
+
+    const hasMore = rows.length > limit;
+    const items = rows.slice(0, limit).map(rowToNotification);
+    const last = items[items.length - 1];
+
+    return {
+      items,
+      nextCursor: hasMore ? encodeCursor({ createdAt: last.createdAt, id: last.id }) : null,
+      hasMore,
+    };
+  }
+
+  /**
+   * Collapsed feed: one entry per group, ordered and paged by the group's latest
+   * notification. Filters narrow the members before grouping.
+   */
+  listGroups(userId: string, query: CursorQuery & NotificationFilters = {}): CursorPage<NotificationGroup> {
+    const limit = Math.min(100, Math.max(1, query.limit || 20));
+    const { where, params } = this.filterClause(userId, query);
+
+    let keyset = '';
+    const keysetParams: unknown[] = [];
+    if (query.cursor) {
+      keyset = ' AND (created_at < ? OR (created_at = ? AND id < ?))';
+      keysetParams.push(query.cursor.createdAt, query.cursor.createdAt, query.cursor.id);
+    }
+
+    const rows = this.db.prepare(`
+      SELECT * FROM (
+        SELECT *,
+          ROW_NUMBER() OVER (PARTITION BY group_key ORDER BY created_at DESC, id DESC) AS group_rank,
+          COUNT(*) OVER (PARTITION BY group_key) AS group_count,
+          SUM(1 - read) OVER (PARTITION BY group_key) AS group_unread
+        FROM notifications WHERE ${where}
+      )
+      WHERE group_rank = 1${keyset}
+      ORDER BY created_at DESC, id DESC
+      LIMIT ?
+    `).all(...params, ...keysetParams, limit + 1) as GroupRow[];
+
+    const hasMore = rows.length > limit;
+    const actorsStmt = this.db.prepare(`
+      SELECT json_extract(metadata, '$.actorId') AS actor FROM notifications
+      WHERE ${where} AND group_key = ? AND json_extract(metadata, '$.actorId') IS NOT NULL
+      GROUP BY actor
+      ORDER BY MAX(created_at) DESC
+      LIMIT ?
+    `);
+
+    const items = rows.slice(0, limit).map(row => ({
+      groupKey: row.group_key ?? row.id,
+      latest: rowToNotification(row),
+      count: row.group_count,
+      unreadCount: row.group_unread,
+      actors: (actorsStmt.all(...params, row.group_key, MAX_GROUP_ACTORS) as { actor: string }[]).map(a => a.actor),
+    }));
+    const last = items[items.length - 1]?.latest;
+
+    return {
+      items,
+      nextCursor: hasMore ? encodeCursor({ createdAt: last.createdAt, id: last.id }) : null,
+      hasMore,
+    };
+  }
+
   markAsRead(notificationId: string, userId: string): Notification | null {
     const row = this.db.prepare(
       'SELECT * FROM notifications WHERE id = ? AND user_id = ?'
@@ -126,6 +392,11 @@ export class NotificationService {
       'UPDATE notifications SET read = 1 WHERE id = ?'
     ).run(notificationId);
 
+    if (row.read === 0) {
+      new NotificationEventService(this.db).publish(userId, 'notification.read', { id: notificationId });
+      this.publishUnreadCount(userId);
+    }
+
     return rowToNotification({ ...row, read: 1 });
   }
 
@@ -133,13 +404,86 @@ export class NotificationService {
     const result = this.db.prepare(
       'UPDATE notifications SET read = 1 WHERE user_id = ? AND read = 0'
     ).run(userId);
+
+    if (result.changes > 0) {
+      new NotificationEventService(this.db).publish(userId, 'notification.read_all', { updated: result.changes });
+      this.publishUnreadCount(userId);
+    }
+
     return result.changes;
   }
 
+  /** Marks every member of the group read; returns how many changed, or null for an unknown group. */
+  markGroupAsRead(userId: string, groupKey: string): number | null {
+    const exists = this.db.prepare(
+      'SELECT 1 FROM notifications WHERE user_id = ? AND group_key = ? LIMIT 1'
+    ).get(userId, groupKey);
+    if (!exists) return null;
+
+    const result = this.db.prepare(
+      'UPDATE notifications SET read = 1 WHERE user_id = ? AND group_key = ? AND read = 0'
+    ).run(userId, groupKey);
+
+    if (result.changes > 0) {
+      new NotificationEventService(this.db).publish(userId, 'notification.group_read', { groupKey, updated: result.changes });
+      this.publishUnreadCount(userId);
+    }
+
+    return result.changes;
+  }
+
+  /** Number of groups with at least one unread notification. */
+  getUnreadGroupCount(userId: string): number {
+    const row = this.db.prepare(
+      'SELECT COUNT(DISTINCT group_key) as count FROM notifications WHERE user_id = ? AND read = 0'
+    ).get(userId) as { count: number };
+    return row.count;
+  }
+
   getUnreadCount(userId: string): number {
     const row = this.db.prepare(
       'SELECT COUNT(*) as count FROM notifications WHERE user_id = ? AND read = 0'
     ).get(userId) as { count: number };
     return row.count;
   }
+
+  private filterClause(userId: string, filters: NotificationFilters): { where: string; params: unknown[] } {
+    const conditions = ['user_id = ?'];
+    const params: unknown[] = [userId];
+
+    if (filters.types?.length) {
+      conditions.push(`type IN (${filters.types.map(() => '?').join(', ')})`);
+      params.push(...filters.types);
+    }
+    if (filters.channels?.length) {
+      conditions.push(`channel IN (${filters.channels.map(() => '?').join(', ')})`);
+      params.push(...filters.channels);
+    }
+    if (filters.read !== undefined) {
+      conditions.push('read = ?');
+      params.push(filters.read ? 1 : 0);
+    }
+    if (filters.since) {
+      conditions.push('created_at >= datetime(?)');
+      params.push(filters.since);
+    }
+    if (filters.until) {
+      conditions.push('created_at <= datetime(?)');
+      params.push(filters.until);
+    }
+    for (const [key, value] of Object.entries(filters.metadata ?? {})) {
+      if (!METADATA_KEY_PATTERN.test(key)) {
+        throw new Error(`Invalid metadata key: ${key}`);
+      }
+      // Inlined (not bound) so the expression matches the json_extract indexes
+      conditions.push(`json_extract(metadata, '$.${key}') = ?`);
+      params.push(value);
+    }
+
+    return { where: conditions.join(' AND '), params };
+  }
+
+  private publishUnreadCount(userId: string): void {
+    new NotificationEventService(this.db).publish(userId, 'unread_count', { count: this.getUnreadCount(userId) });
+  }
 }
@@ -1,7 +1,29 @@
 import Database from 'better-sqlite3';
+import { ContactService } from './contact.service.js';
+import type { NotificationType } from './notification.service.js';
+import { parseTimeOfDay, zonedParts, zonedTimeToUtc } from '../utils/timezone.js';
 
 export type NotificationChannel = 'in_app' | 'email' | 'webhook';
 
+export type DigestFrequency = 'immediate' | 'hourly' | 'daily' | 'weekly';
+
+export interface DigestSchedule {
+  frequency: DigestFrequency;
+  // Local "HH:MM" for daily and weekly digests
+  time: string;
+  // 0 = Sunday, for weekly digests
+  dayOfWeek: number;
+}
+
+export interface QuietHours {
+  enabled: boolean;
+  // Local "HH:MM"; a window whose end is before its start runs past midnight
+  start: string;
+  end: string;
+  // Types delivered on every channel even inside the window
+  bypassTypes: NotificationType[];
+}
+
 export interface NotificationPreferences {
   userId: string;
   taskAssigned: NotificationChannel[];
@@ -9,6 +31,14 @@ export interface NotificationPreferences {
   commentAdded: NotificationChannel[];
   projectInvited: NotificationChannel[];
   taskDueSoon: NotificationChannel[];
+  // IANA time zone the schedule times are in
+  timezone: string;
+  digest: DigestSchedule;
+  quietHours: QuietHours;
+  // Holds email and webhook delivery until this instant (ISO 8601)
+  doNotDisturbUntil: string | null;
+  // Types turned off through an unsubscribe link; email is never sent for them, even to explicit channels
+  emailUnsubscribed: PreferenceKey[];
 }
 
 const DEFAULT_PREFERENCES: Omit<NotificationPreferences, 'userId'> = {
@@ -17,8 +47,45 @@ const DEFAULT_PREFERENCES: Omit<NotificationPreferences, 'userId'> = {
   commentAdded: ['in_app'],
   projectInvited: ['in_app', 'email'],
   taskDueSoon: ['in_app', 'email'],
+  timezone: 'UTC',
+  digest: { frequency: 'immediate', time: '09:00', dayOfWeek: 1 },
+  quietHours: { enabled: false, start: '22:00', end: '07:00', bypassTypes: [] },
+  doNotDisturbUntil: null,
+  emailUnsubscribed: [],
 };
 
+export type PreferenceKey = Exclude<
+  keyof NotificationPreferences,
+  'userId' | 'timezone' | 'digest' | 'quietHours' | 'doNotDisturbUntil' | 'emailUnsubscribed'
+>;
+
+export type PreferencesUpdate = Partial<Omit<NotificationPreferences, 'userId' | 'digest' | 'quietHours'>> & {
+  digest?: Partial<DigestSchedule>;
+  quietHours?: Partial<QuietHours>;
+};
+
+// System notifications have no preference of their own and always go in-app
+const SYSTEM_CHANNELS: NotificationChannel[] = ['in_app'];
+
+const PREFERENCE_KEYS: Partial<Record<NotificationType, PreferenceKey>> = {
+  task_assigned: 'taskAssigned',
+  task_status_changed: 'taskStatusChanged',
+  comment_added: 'commentAdded',
+  project_invited: 'projectInvited',
+  task_due_soon: 'taskDueSoon',
+};
+
+/** The preference field holding the channels for `type`, or null for system types. */
+export function preferenceKeyFor(type: NotificationType): PreferenceKey | null {
+  return PREFERENCE_KEYS[type] ?? null;
+}
+
+/** Whether the user unsubscribed from email about `type`. */
+export function isEmailUnsubscribed(preferences: NotificationPreferences, type: NotificationType): boolean {
+  const key = preferenceKeyFor(type);
+  return key !== null && preferences.emailUnsubscribed.includes(key);
+}
+
 interface PreferencesRow {
   user_id: string;
   task_assigned: string;
@@ -26,6 +93,16 @@ interface PreferencesRow {
   comment_added: string;
   project_invited: string;
   task_due_soon: string;
+  timezone: string;
+  digest_frequency: string;
+  digest_time: string;
+  digest_day: number;
+  quiet_hours_enabled: number;
+  quiet_hours_start: string;
+  quiet_hours_end: string;
+  quiet_hours_bypass: string;
+  dnd_until: string | null;
+  email_unsubscribed: string;
 }
 
 function safeParseChannels(json: string, fallback: NotificationChannel[]): NotificationChannel[] {
@@ -46,7 +123,66 @@ function rowToPreferences(row: PreferencesRow): NotificationPreferences {
     commentAdded: safeParseChannels(row.comment_added, DEFAULT_PREFERENCES.commentAdded),
     projectInvited: safeParseChannels(row.project_invited, DEFAULT_PREFERENCES.projectInvited),
     taskDueSoon: safeParseChannels(row.task_due_soon, DEFAULT_PREFERENCES.taskDueSoon),
+    timezone: row.timezone,
+    digest: {
+      frequency: row.digest_frequency as DigestFrequency,
+      time: row.digest_time,
+      dayOfWeek: row.digest_day,
+    },
+    quietHours: {
+      enabled: row.quiet_hours_enabled === 1,
+      start: row.quiet_hours_start,
+      end: row.quiet_hours_end,
+      bypassTypes: JSON.parse(row.quiet_hours_bypass),
+    },
+    doNotDisturbUntil: row.dnd_until,
+    emailUnsubscribed: JSON.parse(row.email_unsubscribed),
+  };
+}
+
+// End of the quiet-hours window `at` falls in, or null when it is outside the window
+function quietWindowEnd(quietHours: QuietHours, timeZone: string, at: Date): Date | null {
+  const start = parseTimeOfDay(quietHours.start);
+  const end = parseTimeOfDay(quietHours.end);
+  if (!quietHours.enabled || start === end) return null;
+
+  const local = zonedParts(at, timeZone);
+  const minutes = local.hour * 60 + local.minute;
+  const inside = start < end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+  if (!inside) return null;
+
+  // Past midnight the window ends on the next local day
+  const nextDay = start > end && minutes >= start ? 1 : 0;
+  const wallClock = {
+    year: local.year,
+    month: local.month,
+    day: local.day + nextDay,
+    hour: Math.floor(end / 60),
+    minute: end % 60,
   };
+  // When clocks go back the end time can occur twice; inside the repeated hour
+  // its first occurrence has already passed
+  const until = zonedTimeToUtc(wallClock, timeZone);
+  return until > at ? until : zonedTimeToUtc(wallClock, timeZone, 'later');
+}
+
+/**
+ * When email and webhook delivery of `type` may resume, or null if it may go
+ * out now. Do-not-disturb and quiet hours chain: DND ending inside the quiet
+ * window holds delivery until the window ends, and vice versa.
+ */
+export function quietUntil(preferences: NotificationPreferences, type: NotificationType, now = new Date()): Date | null {
+  if (preferences.quietHours.bypassTypes.includes(type)) return null;
+
+  const dnd = preferences.doNotDisturbUntil ? new Date(preferences.doNotDisturbUntil) : null;
+  let until: Date | null = null;
+  for (;;) {
+    const at: Date = until ?? now;
+    const next: Date | null = dnd && dnd > at ? dnd : quietWindowEnd(preferences.quietHours, preferences.timezone, at);
+    // Callers defer to the result, so it must lie ahead
+    if (!next || next <= at) return until;
+    until = next;
+  }
 }
 
 export class PreferencesService {
@@ -58,13 +194,20 @@ export class PreferencesService {
     ).get(userId) as PreferencesRow | undefined;
 
     if (!row) {
-      return { userId, ...DEFAULT_PREFERENCES };
+      // Until the user picks one, the directory's time zone applies
+      const timezone = new ContactService(this.db).get(userId)?.timezone ?? DEFAULT_PREFERENCES.timezone;
+      return { userId, ...DEFAULT_PREFERENCES, timezone };
     }
 
     return rowToPreferences(row);
   }
 
-  update(userId: string, preferences: Partial<Omit<NotificationPreferences, 'userId'>>): NotificationPreferences {
+  getChannels(userId: string, type: NotificationType): NotificationChannel[] {
+    const key = PREFERENCE_KEYS[type];
+    return key ? this.get(userId)[key] : SYSTEM_CHANNELS;
+  }
+
+  update(userId: string, preferences: PreferencesUpdate): NotificationPreferences {
     const existing = this.get(userId);
 
     const updated = {
@@ -73,17 +216,41 @@ export class PreferencesService {
       commentAdded: preferences.commentAdded ?? existing.commentAdded,
       projectInvited: preferences.projectInvited ?? existing.projectInvited,
       taskDueSoon: preferences.taskDueSoon ?? existing.taskDueSoon,
+      timezone: preferences.timezone ?? existing.timezone,
+      digest: { ...existing.digest, ...preferences.digest },
+      quietHours: { ...existing.quietHours, ...preferences.quietHours },
+      doNotDisturbUntil: preferences.doNotDisturbUntil === undefined
+        ? existing.doNotDisturbUntil
+        : preferences.doNotDisturbUntil && new Date(preferences.doNotDisturbUntil).toISOString(),
+      // Turning email back on for a type lifts its unsubscribe
+      emailUnsubscribed: (preferences.emailUnsubscribed ?? existing.emailUnsubscribed)
+        .filter(key => !preferences[key]?.includes('email')),
     };
 
     this.db.prepare(`
-      INSERT INTO notification_preferences (user_id, task_assigned, task_status_changed, comment_added, project_invited, task_due_soon)
-      VALUES (?, ?, ?, ?, ?, ?)
+      INSERT INTO notification_preferences (
+        user_id, task_assigned, task_status_changed, comment_added, project_invited, task_due_soon,
+        timezone, digest_frequency, digest_time, digest_day,
+        quiet_hours_enabled, quiet_hours_start, quiet_hours_end, quiet_hours_bypass, dnd_until,
+        email_unsubscribed
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       ON CONFLICT(user_id) DO UPDATE SET
         task_assigned = excluded.task_assigned,
         task_status_changed = excluded.task_status_changed,
         comment_added = excluded.comment_added,
         project_invited = excluded.project_invited,
-        task_due_soon = excluded.task_due_soon
+        task_due_soon = excluded.task_due_soon,
+        timezone = excluded.timezone,
+        digest_frequency = excluded.digest_frequency,
+        digest_time = excluded.digest_time,
+        digest_day = excluded.digest_day,
+        quiet_hours_enabled = excluded.quiet_hours_enabled,
+        quiet_hours_start = excluded.quiet_hours_start,
+        quiet_hours_end = excluded.quiet_hours_end,
+        quiet_hours_bypass = excluded.quiet_hours_bypass,
+        dnd_until = excluded.dnd_until,
+        email_unsubscribed = excluded.email_unsubscribed
     `).run(
       userId,
       JSON.stringify(updated.taskAssigned),
@@ -91,6 +258,16 @@ export class PreferencesService {
       JSON.stringify(updated.commentAdded),
       JSON.stringify(updated.projectInvited),
       JSON.stringify(updated.taskDueSoon),
+      updated.timezone,
+      updated.digest.frequency,
+      updated.digest.time,
+      updated.digest.dayOfWeek,
+      updated.quietHours.enabled ? 1 : 0,
+      updated.quietHours.start,
+      updated.quietHours.end,
+      JSON.stringify(updated.quietHours.bypassTypes),
+      updated.doNotDisturbUntil,
+      JSON.stringify(updated.emailUnsubscribed),
     );
 
     return { userId, ...updated };
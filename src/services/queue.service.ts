@@ -0,0 +1,193 @@
+import Database from 'better-sqlite3';
+import { nanoid } from 'nanoid';
+
+export type JobStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+export interface Job {
+  id: string;
+  type: string;
+  payload: Record<string, unknown>;
+  status: JobStatus;
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt: string;
+  leaseOwner: string | null;
+  leaseExpiresAt: string | null;
+  lastError: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface EnqueueOptions {
+  runAt?: Date;
+  maxAttempts?: number;
+}
+
+export interface LeaseOptions {
+  limit?: number;
+  leaseMs?: number;
+  now?: Date;
+}
+
+export interface BackoffOptions {
+  baseMs: number;
+  maxMs: number;
+}
+
+interface JobRow {
+  id: string;
+  type: string;
+  payload: string;
+  status: string;
+  attempts: number;
+  max_attempts: number;
+  next_attempt_at: string;
+  lease_owner: string | null;
+  lease_expires_at: string | null;
+  last_error: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+function rowToJob(row: JobRow): Job {
+  return {
+    id: row.id,
+    type: row.type,
+    payload: JSON.parse(row.payload),
+    status: row.status as JobStatus,
+    attempts: row.attempts,
+    maxAttempts: row.max_attempts,
+    nextAttemptAt: row.next_attempt_at,
+    leaseOwner: row.lease_owner,
+    leaseExpiresAt: row.lease_expires_at,
+    lastError: row.last_error,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+const DEFAULT_LEASE_MS = 60_000;
+const DEFAULT_BACKOFF: BackoffOptions = { baseMs: 5_000, maxMs: 60 * 60_000 };
+
+/**
+ * Exponential backoff with "equal jitter": half of the exponential delay is
+ * fixed and the other half random, so retries spread out without collapsing to zero.
+ */
+export function backoffDelay(attempt: number, options: BackoffOptions = DEFAULT_BACKOFF): number {
+  const exponential = Math.min(options.maxMs, options.baseMs * 2 ** Math.max(0, attempt - 1));
+  return Math.round(exponential / 2 + Math.random() * (exponential / 2));
+}
+
+export class QueueService {
+  constructor(private db: Database.Database, private backoff: BackoffOptions = DEFAULT_BACKOFF) {}
+
+  enqueue(type: string, payload: Record<string, unknown>, options: EnqueueOptions = {}): Job {
+    const id = nanoid();
+    const now = new Date().toISOString();
+    const runAt = (options.runAt ?? new Date()).toISOString();
+
+    this.db.prepare(`
+      INSERT INTO jobs (id, type, payload, status, attempts, max_attempts, next_attempt_at, created_at, updated_at)
+      VALUES (?, ?, ?, 'pending', 0, ?, ?, ?, ?)
+    `).run(id, type, JSON.stringify(payload), options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS, runAt, now, now);
+
+    return this.getById(id)!;
+  }
+
+  getById(jobId: string): Job | null {
+    const row = this.db.prepare('SELECT * FROM jobs WHERE id = ?').get(jobId) as JobRow | undefined;
+    return row ? rowToJob(row) : null;
+  }
+
+  /**
+   * Claims due jobs for a worker. A job is due when it is pending and its
+   * next_attempt_at has passed, or when it is running under an expired lease
+   * (the worker holding it died). Each lease counts as one attempt.
+   */
+  lease(owner: string, options: LeaseOptions = {}): Job[] {
+    const now = (options.now ?? new Date()).toISOString();
+    const leaseExpiresAt = new Date(Date.parse(now) + (options.leaseMs ?? DEFAULT_LEASE_MS)).toISOString();
+
+    const claim = this.db.transaction(() => {
+      const rows = this.db.prepare(`
+        SELECT id FROM jobs
+        WHERE (status = 'pending' AND next_attempt_at <= ?)
+           OR (status = 'running' AND lease_expires_at <= ?)
+        ORDER BY next_attempt_at ASC
+        LIMIT ?
+      `).all(now, now, options.limit ?? 10) as { id: string }[];
+
+      const update = this.db.prepare(`
+        UPDATE jobs
+        SET status = 'running', attempts = attempts + 1, lease_owner = ?, lease_expires_at = ?, updated_at = ?
+        WHERE id = ?
+      `);
+      for (const row of rows) {
+        update.run(owner, leaseExpiresAt, now, row.id);
+      }
+
+      return rows.map(row => this.getById(row.id)!);
+    });
+
+    return claim.immediate();
+  }
+
+  complete(jobId: string): void {
+    this.db.prepare(`
+      UPDATE jobs SET status = 'completed', lease_owner = NULL, lease_expires_at = NULL, last_error = NULL, updated_at = ?
+      WHERE id = ?
+    `).run(new Date().toISOString(), jobId);
+  }
+
+  /**
+   * Records a failed attempt. The job is rescheduled with backoff until it
+   * has used up its attempts, after which it is marked failed for good.
+   */
+  fail(jobId: string, error: string): Job | null {
+    const job = this.getById(jobId);
+    if (!job) return null;
+
+    const now = new Date();
+    const exhausted = job.attempts >= job.maxAttempts;
+    const nextAttemptAt = exhausted
+      ? job.nextAttemptAt
+      : new Date(now.getTime() + backoffDelay(job.attempts, this.backoff)).toISOString();
+
+    this.db.prepare(`
+      UPDATE jobs
+      SET status = ?, next_attempt_at = ?, last_error = ?, lease_owner = NULL, lease_expires_at = NULL, updated_at = ?
+      WHERE id = ?
+    `).run(exhausted ? 'failed' : 'pending', nextAttemptAt, error, now.toISOString(), jobId);
+
+    return this.getById(jobId);
+  }
+
+  /**
+   * Hands a leased job back without counting the attempt, to run again at
+   * `runAt`. Used when a job cannot run yet rather than when it failed.
+   */
+  release(jobId: string, runAt: Date): Job | null {
+    this.db.prepare(`
+      UPDATE jobs
+      SET status = 'pending', attempts = MAX(attempts - 1, 0), next_attempt_at = ?,
+          lease_owner = NULL, lease_expires_at = NULL, updated_at = ?
+      WHERE id = ?
+    `).run(runAt.toISOString(), new Date().toISOString(), jobId);
+
+    return this.getById(jobId);
+  }
+
+  /**
+   * True when a pending or running job of the given type exists for the
+   * payload field value, e.g. a delivery that is already being worked on.
+   */
+  hasActiveJob(type: string, payloadField: string, value: string): boolean {
+    const row = this.db.prepare(`
+      SELECT 1 FROM jobs
+      WHERE type = ? AND status IN ('pending', 'running') AND json_extract(payload, ?) = ?
+      LIMIT 1
+    `).get(type, `$.${payloadField}`, value);
+    return row !== undefined;
+  }
+}
@@ -0,0 +1,39 @@
+import Database from 'better-sqlite3';
+import crypto from 'crypto';
+
+export interface RealtimeTicket {
+  ticket: string;
+  expiresAt: string;
+}
+
+const TICKET_TTL_SECONDS = parseInt(process.env.WS_TICKET_TTL_SECONDS || '30', 10);
+
+/**
+ * Single-use tickets that let clients which cannot set headers on a WebSocket
+ * handshake (browsers) authenticate with `?ticket=` instead.
+ */
+export class RealtimeTicketService {
+  constructor(private db: Database.Database) {}
+
+  issue(userId: string, now = new Date()): RealtimeTicket {
+    const ticket = crypto.randomBytes(24).toString('base64url');
+    const expiresAt = new Date(now.getTime() + TICKET_TTL_SECONDS * 1000).toISOString();
+
+    this.db.prepare('DELETE FROM realtime_tickets WHERE expires_at <= ?').run(now.toISOString());
+    this.db.prepare(
+      'INSERT INTO realtime_tickets (ticket, user_id, expires_at) VALUES (?, ?, ?)'
+    ).run(ticket, userId, expiresAt);
+
+    return { ticket, expiresAt };
+  }
+
+  /** Consumes the ticket and returns its user, or null if it is unknown, used or expired. */
+  redeem(ticket: string, now = new Date()): string | null {
+    const row = this.db.prepare(
+      'DELETE FROM realtime_tickets WHERE ticket = ? RETURNING user_id, expires_at'
+    ).get(ticket) as { user_id: string; expires_at: string } | undefined;
+
+    if (!row || row.expires_at <= now.toISOString()) return null;
+    return row.user_id;
+  }
+}
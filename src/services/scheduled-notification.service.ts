@@ -0,0 +1,193 @@
+import Database from 'better-sqlite3';
+import { nanoid } from 'nanoid';
+import { NotificationService } from './notification.service.js';
+import type { PaginatedResponse, PaginationQuery, SendNotificationRequest } from './notification.service.js';
+
+export type ScheduledNotificationStatus = 'pending' | 'sent' | 'cancelled' | 'failed';
+
+export interface ScheduledNotification {
+  id: string;
+  // Producer-chosen key used to reschedule or cancel; defaults to the id
+  correlationKey: string;
+  userId: string;
+  request: SendNotificationRequest;
+  sendAt: string;
+  status: ScheduledNotificationStatus;
+  // Notifications created when the schedule fired
+  notificationIds: string[];
+  error: string | null;
+  sentAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ScheduledNotificationFilters {
+  userId?: string;
+  correlationKey?: string;
+  status?: ScheduledNotificationStatus;
+}
+
+interface ScheduledNotificationRow {
+  id: string;
+  correlation_key: string;
+  user_id: string;
+  request: string;
+  send_at: string;
+  status: string;
+  notification_ids: string;
+  error: string | null;
+  sent_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+function rowToScheduledNotification(row: ScheduledNotificationRow): ScheduledNotification {
+  return {
+    id: row.id,
+    correlationKey: row.correlation_key,
+    userId: row.user_id,
+    request: JSON.parse(row.request),
+    sendAt: row.send_at,
+    status: row.status as ScheduledNotificationStatus,
+    notificationIds: JSON.parse(row.notification_ids),
+    error: row.error,
+    sentAt: row.sent_at,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export class ScheduledNotificationService {
+  constructor(private db: Database.Database) {}
+
+  /** Stores a send request to be fired by the scheduler at `sendAt`. */
+  schedule(req: SendNotificationRequest, sendAt: Date, correlationKey?: string): ScheduledNotification {
+    const id = nanoid();
+    const now = new Date().toISOString();
+
+    this.db.prepare(`
+      INSERT INTO scheduled_notifications (id, correlation_key, user_id, request, send_at, status, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, 'pending', ?, ?)
+    `).run(id, correlationKey ?? id, req.userId, JSON.stringify(req), sendAt.toISOString(), now, now);
+
+    return this.getById(id)!;
+  }
+
+  getById(id: string): ScheduledNotification | null {
+    const row = this.db.prepare(
+      'SELECT * FROM scheduled_notifications WHERE id = ?'
+    ).get(id) as ScheduledNotificationRow | undefined;
+    return row ? rowToScheduledNotification(row) : null;
+  }
+
+  getPendingByKey(correlationKey: string): ScheduledNotification | null {
+    const row = this.db.prepare(
+      "SELECT * FROM scheduled_notifications WHERE correlation_key = ? AND status = 'pending'"
+    ).get(correlationKey) as ScheduledNotificationRow | undefined;
+    return row ? rowToScheduledNotification(row) : null;
+  }
+
+  list(query: PaginationQuery & ScheduledNotificationFilters = {}): PaginatedResponse<ScheduledNotification> {
+    const page = Math.max(1, query.page || 1);
+    const pageSize = Math.min(100, Math.max(1, query.pageSize || 20));
+    const offset = (page - 1) * pageSize;
+
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+    if (query.userId) {
+      conditions.push('user_id = ?');
+      params.push(query.userId);
+    }
+    if (query.correlationKey) {
+      conditions.push('correlation_key = ?');
+      params.push(query.correlationKey);
+    }
+    if (query.status) {
+      conditions.push('status = ?');
+      params.push(query.status);
+    }
+    const where = conditions.length > 0 ? conditions.join(' AND ') : '1 = 1';
+
+    const total = (this.db.prepare(
+      `SELECT COUNT(*) as count FROM scheduled_notifications WHERE ${where}`
+    ).get(...params) as { count: number }).count;
+
+    const rows = this.db.prepare(`
+      SELECT * FROM scheduled_notifications WHERE ${where}
+      ORDER BY send_at ASC, id ASC LIMIT ? OFFSET ?
+    `).all(...params, pageSize, offset) as ScheduledNotificationRow[];
+
+    return {
+      items: rows.map(rowToScheduledNotification),
+      total,
+      page,
+      pageSize,
+      hasMore: offset + rows.length < total,
+    };
+  }
+
+  /** Moves the pending schedule for `correlationKey`. Returns null if there is none. */
+  reschedule(correlationKey: string, sendAt: Date): ScheduledNotification | null {
+    const pending = this.getPendingByKey(correlationKey);
+    if (!pending) return null;
+
+    this.db.prepare(
+      'UPDATE scheduled_notifications SET send_at = ?, updated_at = ? WHERE id = ?'
+    ).run(sendAt.toISOString(), new Date().toISOString(), pending.id);
+    return this.getById(pending.id);
+  }
+
+  /** Cancels the pending schedule for `correlationKey`. Returns null if there is none. */
+  cancel(correlationKey: string): ScheduledNotification | null {
+    const pending = this.getPendingByKey(correlationKey);
+    if (!pending) return null;
+
+    this.db.prepare(
+      "UPDATE scheduled_notifications SET status = 'cancelled', updated_at = ? WHERE id = ?"
+    ).run(new Date().toISOString(), pending.id);
+    return this.getById(pending.id);
+  }
+
+  /**
+   * Sends every pending schedule that is due. Each one is claimed and sent in
+   * a single transaction, so a cancel never races with the send. Returns how
+   * many were processed.
+   */
+  fireDue(now = new Date(), limit = 50): number {
+    const due = this.db.prepare(`
+      SELECT id FROM scheduled_notifications
+      WHERE status = 'pending' AND send_at <= ?
+      ORDER BY send_at ASC, id ASC LIMIT ?
+    `).all(now.toISOString(), limit) as { id: string }[];
+
+    for (const { id } of due) {
+      try {
+        this.fire(id);
+      } catch (err) {
+        this.db.prepare(`
+          UPDATE scheduled_notifications SET status = 'failed', error = ?, updated_at = ?
+          WHERE id = ? AND status = 'pending'
+        `).run((err as Error).message, new Date().toISOString(), id);
+      }
+    }
+
+    return due.length;
+  }
+
+  private fire(id: string): void {
+    this.db.transaction(() => {
+      const row = this.db.prepare(
+        "SELECT * FROM scheduled_notifications WHERE id = ? AND status = 'pending'"
+      ).get(id) as ScheduledNotificationRow | undefined;
+      if (!row) return;
+
+      const notifications = new NotificationService(this.db).send(JSON.parse(row.request));
+      const now = new Date().toISOString();
+      this.db.prepare(`
+        UPDATE scheduled_notifications
+        SET status = 'sent', notification_ids = ?, sent_at = ?, updated_at = ?
+        WHERE id = ?
+      `).run(JSON.stringify(notifications.map(n => n.id)), now, now, id);
+    })();
+  }
+}
@@ -0,0 +1,155 @@
+import Database from 'better-sqlite3';
+import type { PaginatedResponse, PaginationQuery } from './notification.service.js';
+
+export type SuppressionReason = 'bounce' | 'complaint';
+
+export type EmailEventType = 'bounce' | 'complaint';
+
+// Permanent: the mailbox does not exist or refuses mail; transient: full mailbox, greylisting, outage
+export type BounceType = 'permanent' | 'transient';
+
+/** A bounce or complaint reported by the mail provider, or parsed from a DSN. */
+export interface EmailEvent {
+  type: EmailEventType;
+  email: string;
+  bounceType?: BounceType;
+  // SMTP diagnostic or feedback type
+  diagnostic?: string;
+  // Message-ID of the email that bounced or was complained about
+  messageId?: string;
+}
+
+export interface EmailSuppression {
+  email: string;
+  reason: SuppressionReason;
+  detail: string | null;
+  messageId: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface EmailEventResult {
+  email: string;
+  type: EmailEventType;
+  action: 'suppressed' | 'ignored';
+}
+
+export interface SuppressionFilters {
+  reason?: SuppressionReason;
+  // Substring of the address
+  email?: string;
+}
+
+interface SuppressionRow {
+  email: string;
+  reason: string;
+  detail: string | null;
+  message_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+function rowToSuppression(row: SuppressionRow): EmailSuppression {
+  return {
+    email: row.email,
+    reason: row.reason as SuppressionReason,
+    detail: row.detail,
+    messageId: row.message_id,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+// Mailbox providers treat the local part case-insensitively in practice
+export function normalizeAddress(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/** Addresses that must not be emailed again: hard bounces and spam complaints. */
+export class SuppressionService {
+  constructor(private db: Database.Database) {}
+
+  get(email: string): EmailSuppression | null {
+    const row = this.db.prepare(
+      'SELECT * FROM email_suppressions WHERE email = ?'
+    ).get(normalizeAddress(email)) as SuppressionRow | undefined;
+    return row ? rowToSuppression(row) : null;
+  }
+
+  list(query: PaginationQuery & SuppressionFilters = {}): PaginatedResponse<EmailSuppression> {
+    const page = Math.max(1, query.page || 1);
+    const pageSize = Math.min(100, Math.max(1, query.pageSize || 20));
+    const offset = (page - 1) * pageSize;
+
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+    if (query.reason) {
+      conditions.push('reason = ?');
+      params.push(query.reason);
+    }
+    if (query.email) {
+      conditions.push("email LIKE ? ESCAPE '\\'");
+      params.push(`%${normalizeAddress(query.email).replace(/[\\%_]/g, char => `\\${char}`)}%`);
+    }
+    const where = conditions.length > 0 ? conditions.join(' AND ') : '1 = 1';
+
+    const total = (this.db.prepare(
+      `SELECT COUNT(*) as count FROM email_suppressions WHERE ${where}`
+    ).get(...params) as { count: number }).count;
+
+    const rows = this.db.prepare(`
+      SELECT * FROM email_suppressions WHERE ${where}
+      ORDER BY updated_at DESC, email ASC LIMIT ? OFFSET ?
+    `).all(...params, pageSize, offset) as SuppressionRow[];
+
+    return {
+      items: rows.map(rowToSuppression),
+      total,
+      page,
+      pageSize,
+      hasMore: offset + rows.length < total,
+    };
+  }
+
+  /** Adds the address, or refreshes the reason of an existing suppression. */
+  suppress(
+    email: string,
+    reason: SuppressionReason,
+    details: { detail?: string; messageId?: string } = {},
+  ): EmailSuppression {
+    const address = normalizeAddress(email);
+    this.db.prepare(`
+      INSERT INTO email_suppressions (email, reason, detail, message_id, created_at, updated_at)
+      VALUES (?, ?, ?, ?, datetime('now'), datetime('now'))
+      ON CONFLICT(email) DO UPDATE SET
+        reason = excluded.reason,
+        detail = excluded.detail,
+        message_id = excluded.message_id,
+        updated_at = excluded.updated_at
+    `).run(address, reason, details.detail ?? null, details.messageId ?? null);
+    return this.get(address)!;
+  }
+
+  /** Returns the removed suppression, or null if the address was not suppressed. */
+  remove(email: string): EmailSuppression | null {
+    const existing = this.get(email);
+    if (!existing) return null;
+    this.db.prepare('DELETE FROM email_suppressions WHERE email = ?').run(existing.email);
+    return existing;
+  }
+
+  /** Complaints and permanent bounces suppress the address; transient bounces are only acknowledged. */
+  ingest(events: EmailEvent[]): EmailEventResult[] {
+    return this.db.transaction(() => events.map(event => {
+      const suppress = event.type === 'complaint' || event.bounceType === 'permanent';
+      if (suppress) {
+        this.suppress(event.email, event.type, { detail: event.diagnostic, messageId: event.messageId });
+      }
+      return {
+        email: normalizeAddress(event.email),
+        type: event.type,
+        action: suppress ? 'suppressed' as const : 'ignored' as const,
+      };
+    }))();
+  }
+}
@@ -0,0 +1,111 @@
+import Database from 'better-sqlite3';
+import jwt from 'jsonwebtoken';
+import { PreferencesService, preferenceKeyFor } from './preferences.service.js';
+import type { NotificationPreferences, PreferenceKey, PreferencesUpdate } from './preferences.service.js';
+import type { NotificationType } from './notification.service.js';
+import type { EmailDraft } from './email.service.js';
+
+// Separate from NEXUS_JWT_SECRET so an unsubscribe link can never act as a login token
+const UNSUBSCRIBE_SECRET = process.env.UNSUBSCRIBE_TOKEN_SECRET || 'nexus-dev-unsubscribe-secret-change-in-production';
+const TOKEN_TTL_DAYS = parseInt(process.env.UNSUBSCRIBE_TOKEN_TTL_DAYS || '60', 10);
+const PUBLIC_BASE_URL = (process.env.PUBLIC_BASE_URL || 'http://localhost:3003').replace(/\/+$/, '');
+const PREFERENCES_URL = process.env.EMAIL_PREFERENCES_URL || null;
+const TOKEN_AUDIENCE = 'nexus-unsubscribe';
+
+const EMAIL_PREFERENCE_KEYS: PreferenceKey[] = [
+  'taskAssigned',
+  'taskStatusChanged',
+  'commentAdded',
+  'projectInvited',
+  'taskDueSoon',
+];
+
+export interface UnsubscribeClaims {
+  userId: string;
+  // The type the email was about; null when it covered several (e.g. a digest)
+  type: NotificationType | null;
+}
+
+export interface UnsubscribeResult {
+  userId: string;
+  // Type email was switched off for, or null when all email was
+  type: NotificationType | null;
+  preferences: NotificationPreferences;
+}
+
+export function createUnsubscribeToken(claims: UnsubscribeClaims): string {
+  return jwt.sign({ type: claims.type }, UNSUBSCRIBE_SECRET, {
+    subject: claims.userId,
+    audience: TOKEN_AUDIENCE,
+    expiresIn: `${TOKEN_TTL_DAYS}d`,
+  });
+}
+
+/** The claims of a valid token, or null if it is malformed, tampered with or expired. */
+export function verifyUnsubscribeToken(token: string): UnsubscribeClaims | null {
+  try {
+    const payload = jwt.verify(token, UNSUBSCRIBE_SECRET, { audience: TOKEN_AUDIENCE }) as jwt.JwtPayload;
+    if (!payload.sub) return null;
+    const type = typeof payload.type === 'string' ? payload.type as NotificationType : null;
+    return { userId: payload.sub, type };
+  } catch {
+    return null;
+  }
+}
+
+export function unsubscribeUrl(claims: UnsubscribeClaims): string {
+  return `${PUBLIC_BASE_URL}/unsubscribe/${createUnsubscribeToken(claims)}`;
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+/** Adds the one-click List-Unsubscribe target and a footer with the unsubscribe and preference links. */
+export function withUnsubscribeLinks(draft: EmailDraft, claims: UnsubscribeClaims): EmailDraft {
+  const url = unsubscribeUrl(claims);
+
+  const text = [`Unsubscribe: ${url}`];
+  const html = [`<a href="${escapeHtml(url)}">Unsubscribe</a>`];
+  if (PREFERENCES_URL) {
+    text.push(`Manage email preferences: ${PREFERENCES_URL}`);
+    html.push(`<a href="${escapeHtml(PREFERENCES_URL)}">Manage email preferences</a>`);
+  }
+
+  return {
+    ...draft,
+    text: `${draft.text}\n\n--\n${text.join('\n')}`,
+    html: draft.html === undefined ? undefined : `${draft.html}\n<p>${html.join(' · ')}</p>`,
+    listUnsubscribe: url,
+  };
+}
+
+export class UnsubscribeService {
+  constructor(private db: Database.Database) {}
+
+  /**
+   * Removes email from the preferences of the token's type, or of every type
+   * when `all` is set or the token is not tied to one, and records the
+   * unsubscribe so senders naming the email channel explicitly are skipped too.
+   */
+  unsubscribe(claims: UnsubscribeClaims, all = false): UnsubscribeResult {
+    const preferences = new PreferencesService(this.db);
+    const current = preferences.get(claims.userId);
+
+    const typeKey = claims.type && !all ? preferenceKeyFor(claims.type) : null;
+    const keys = typeKey ? [typeKey] : EMAIL_PREFERENCE_KEYS;
+
+    const update: PreferencesUpdate = {
+      emailUnsubscribed: [...new Set([...current.emailUnsubscribed, ...keys])],
+    };
+    for (const key of keys) {
+      update[key] = current[key].filter(channel => channel !== 'email');
+    }
+
+    return {
+      userId: claims.userId,
+      type: typeKey ? claims.type : null,
+      preferences: preferences.update(claims.userId, update),
+    };
+  }
+}
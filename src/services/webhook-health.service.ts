@@ -0,0 +1,150 @@
+import Database from 'better-sqlite3';
+import { NotificationService } from './notification.service.js';
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface WebhookHealth {
+  circuitState: CircuitState;
+  consecutiveFailures: number;
+  // Start of the current failure streak
+  failingSince: string | null;
+  circuitOpenedAt: string | null;
+}
+
+export type CircuitDecision =
+  | { action: 'attempt' }
+  | { action: 'defer'; retryAt: Date; reason?: string }
+  | { action: 'abandon'; reason: string };
+
+interface HealthRow {
+  id: string;
+  user_id: string;
+  url: string;
+  active: number;
+  consecutive_failures: number;
+  failing_since: string | null;
+  circuit_state: string;
+  circuit_opened_at: string | null;
+  circuit_probe_at: string | null;
+}
+
+const FAILURE_THRESHOLD = parseInt(process.env.WEBHOOK_CIRCUIT_FAILURE_THRESHOLD || '5', 10);
+const COOLDOWN_MS = parseInt(process.env.WEBHOOK_CIRCUIT_COOLDOWN_MS || '300000', 10);
+const DISABLE_AFTER_MS = parseInt(process.env.WEBHOOK_DISABLE_AFTER_HOURS || '24', 10) * 60 * 60 * 1000;
+// A half-open probe that has not reported back within this window is assumed lost
+const PROBE_TIMEOUT_MS = 60_000;
+
+/**
+ * Per-webhook circuit breaker. Consecutive failures open the circuit and pause
+ * deliveries; after a cooldown one probe is let through (half-open) and its
+ * outcome closes or re-opens the circuit. A webhook failing for longer than
+ * the disable window is switched off and its owner notified.
+ */
+export class WebhookHealthService {
+  constructor(private db: Database.Database) {}
+
+  /** Decides whether a delivery to the webhook may be attempted now. */
+  acquire(webhookId: string, now = new Date()): CircuitDecision {
+    const row = this.getRow(webhookId);
+    if (!row) return { action: 'abandon', reason: 'Webhook no longer exists' };
+    if (row.active !== 1) return { action: 'abandon', reason: 'Webhook is disabled' };
+
+    switch (row.circuit_state as CircuitState) {
+      case 'open': {
+        const reopensAt = Date.parse(row.circuit_opened_at!) + COOLDOWN_MS;
+        if (now.getTime() < reopensAt) {
+          return { action: 'defer', retryAt: new Date(reopensAt) };
+        }
+        // Only the caller that flips the state gets to send the probe
+        const claimed = this.db.prepare(`
+          UPDATE webhooks SET circuit_state = 'half_open', circuit_probe_at = ?
+          WHERE id = ? AND circuit_state = 'open'
+        `).run(now.toISOString(), webhookId).changes === 1;
+        return claimed ? { action: 'attempt' } : { action: 'defer', retryAt: new Date(now.getTime() + COOLDOWN_MS) };
+      }
+
+      case 'half_open': {
+        const probeExpiresAt = Date.parse(row.circuit_probe_at!) + PROBE_TIMEOUT_MS;
+        if (now.getTime() < probeExpiresAt) {
+          return { action: 'defer', retryAt: new Date(probeExpiresAt) };
+        }
+        this.db.prepare('UPDATE webhooks SET circuit_probe_at = ? WHERE id = ?').run(now.toISOString(), webhookId);
+        return { action: 'attempt' };
+      }
+
+      default:
+        return { action: 'attempt' };
+    }
+  }
+
+  recordSuccess(webhookId: string): void {
+    this.db.prepare(`
+      UPDATE webhooks
+      SET consecutive_failures = 0, failing_since = NULL, circuit_state = 'closed',
+          circuit_opened_at = NULL, circuit_probe_at = NULL
+      WHERE id = ?
+    `).run(webhookId);
+  }
+
+  recordFailure(webhookId: string, now = new Date()): void {
+    const row = this.getRow(webhookId);
+    if (!row) return;
+
+    const failures = row.consecutive_failures + 1;
+    const failingSince = row.failing_since ?? now.toISOString();
+    const opens = row.circuit_state === 'half_open' || (row.circuit_state === 'closed' && failures >= FAILURE_THRESHOLD);
+
+    this.db.prepare(`
+      UPDATE webhooks
+      SET consecutive_failures = ?, failing_since = ?, circuit_state = ?, circuit_opened_at = ?, circuit_probe_at = NULL
+      WHERE id = ?
+    `).run(
+      failures,
+      failingSince,
+      opens ? 'open' : row.circuit_state,
+      opens ? now.toISOString() : row.circuit_opened_at,
+      webhookId,
+    );
+
+    if (row.active === 1 && now.getTime() - Date.parse(failingSince) >= DISABLE_AFTER_MS) {
+      this.disable(row, `Disabled after ${failures} consecutive failed deliveries since ${failingSince}`);
+    }
+  }
+
+  /** Clears the failure streak, e.g. when the owner re-enables the webhook. */
+  reset(webhookId: string): void {
+    this.recordSuccess(webhookId);
+    this.db.prepare(
+      'UPDATE webhooks SET disabled_reason = NULL, disabled_at = NULL WHERE id = ?'
+    ).run(webhookId);
+  }
+
+  /** Switches the webhook off, fails its pending deliveries and tells the owner. */
+  private disable(row: HealthRow, reason: string): void {
+    this.db.transaction(() => {
+      this.db.prepare(`
+        UPDATE webhooks SET active = 0, disabled_reason = ?, disabled_at = datetime('now') WHERE id = ?
+      `).run(reason, row.id);
+      this.db.prepare(
+        "UPDATE webhook_deliveries SET status = 'failed' WHERE webhook_id = ? AND status = 'pending'"
+      ).run(row.id);
+
+      new NotificationService(this.db).send({
+        userId: row.user_id,
+        type: 'webhook_disabled',
+        title: 'Webhook disabled',
+        body: `Your webhook for ${row.url} was disabled because deliveries kept failing. Fix the endpoint and re-enable it to resume deliveries.`,
+        metadata: { webhookId: row.id, url: row.url, reason },
+        channels: ['in_app'],
+      });
+    })();
+  }
+
+  private getRow(webhookId: string): HealthRow | undefined {
+    return this.db.prepare(`
+      SELECT id, user_id, url, active, consecutive_failures, failing_since,
+             circuit_state, circuit_opened_at, circuit_probe_at
+      FROM webhooks WHERE id = ?
+    `).get(webhookId) as HealthRow | undefined;
+  }
+}
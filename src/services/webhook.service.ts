@@ -1,6 +1,11 @@
 import Database from 'better-sqlite3';
 import crypto from 'crypto';
 import { nanoid } from 'nanoid';
+import { QueueService } from './queue.service.js';
+import { CircuitDecision, CircuitState, WebhookHealth, WebhookHealthService } from './webhook-health.service.js';
+import { SIGNATURE_HEADER, TIMESTAMP_HEADER, buildSignatureHeader } from '../utils/signature.js';
+import { decryptSecret, encryptSecret, isEncrypted, maskSecret } from '../utils/secret-box.js';
+import { UrlPolicyError, webhookUrlPolicy } from '../utils/url-policy.js';
 
 export type NotificationType =
   | 'task_assigned'
@@ -13,12 +18,43 @@ export interface WebhookConfig {
   id: string;
   userId: string;
   url: string;
-  secret: string;
+  // Masked form of the signing secret; the secret itself is only returned on creation and rotation
+  secretHint: string;
+  // While set, the previous secret still signs deliveries alongside the current one
+  previousSecretExpiresAt: string | null;
   events: NotificationType[];
   active: boolean;
+  // Deliveries only go to webhooks whose endpoint has echoed the verification challenge
+  verificationStatus: VerificationStatus;
+  verifiedAt: string | null;
+  health: WebhookHealth;
+  // Set when the webhook was switched off automatically after a sustained outage
+  disabledReason: string | null;
+  disabledAt: string | null;
+  createdAt: string;
+}
+
+export type VerificationStatus = 'pending' | 'verified' | 'failed';
+
+export interface WebhookWithSecret extends WebhookConfig {
+  secret: string;
+}
+
+export type WebhookAuditAction = 'secret_revealed' | 'secret_rotated';
+
+export interface WebhookAuditEntry {
+  id: string;
+  webhookId: string;
+  userId: string;
+  action: WebhookAuditAction;
   createdAt: string;
 }
 
+export interface RotateSecretRequest {
+  secret?: string;
+  graceSeconds?: number;
+}
+
 export interface WebhookDelivery {
   id: string;
   webhookId: string;
@@ -28,12 +64,59 @@ export interface WebhookDelivery {
   responseCode: number | null;
   attempts: number;
   lastAttemptAt: string | null;
+  // Sent by sendTestEvent; kept for the history but never redelivered
+  test: boolean;
+  createdAt: string;
+}
+
+export type DeliveryErrorClass =
+  | 'timeout'
+  | 'dns'
+  | 'tls'
+  | 'connection_refused'
+  | 'connection_reset'
+  | 'http_error'
+  | 'blocked'
+  | 'unknown';
+
+export interface WebhookDeliveryAttempt {
+  id: string;
+  deliveryId: string;
+  attemptNumber: number;
+  startedAt: string | null;
+  durationMs: number | null;
+  requestHeaders: Record<string, string>;
+  responseCode: number | null;
+  responseHeaders: Record<string, string>;
+  responseBody: string | null;
+  errorClass: DeliveryErrorClass | null;
+  error: string | null;
   createdAt: string;
 }
 
+export interface DeadLetter extends WebhookDelivery {
+  attemptHistory: WebhookDeliveryAttempt[];
+}
+
+export interface TestDeliveryResult {
+  delivery: WebhookDelivery;
+  attempt: WebhookDeliveryAttempt;
+}
+
+export interface DeliveryAttemptResult {
+  ok: boolean;
+  responseCode: number | null;
+  error: string | null;
+}
+
+export interface DeliveryAttemptOptions {
+  // Test pings leave the circuit breaker and failure streak untouched
+  skipHealth?: boolean;
+}
+
 export interface CreateWebhookRequest {
   url: string;
-  secret: string;
+  secret?: string;
   events: NotificationType[];
 }
 
@@ -49,8 +132,19 @@ interface WebhookRow {
   user_id: string;
   url: string;
   secret: string;
+  previous_secret: string | null;
+  previous_secret_expires_at: string | null;
   events: string;
   active: number;
+  verification_status: string;
+  verified_at: string | null;
+  consecutive_failures: number;
+  failing_since: string | null;
+  circuit_state: string;
+  circuit_opened_at: string | null;
+  circuit_probe_at: string | null;
+  disabled_reason: string | null;
+  disabled_at: string | null;
   created_at: string;
 }
 
@@ -63,6 +157,30 @@ interface DeliveryRow {
   response_code: number | null;
   attempts: number;
   last_attempt_at: string | null;
+  is_test: number;
+  created_at: string;
+}
+
+interface AuditRow {
+  id: string;
+  webhook_id: string;
+  user_id: string;
+  action: string;
+  created_at: string;
+}
+
+interface AttemptRow {
+  id: string;
+  delivery_id: string;
+  attempt_number: number;
+  started_at: string | null;
+  duration_ms: number | null;
+  request_headers: string;
+  response_code: number | null;
+  response_headers: string;
+  response_body: string | null;
+  error_class: string | null;
+  error: string | null;
   created_at: string;
 }
 
@@ -71,9 +189,20 @@ function rowToWebhook(row: WebhookRow): WebhookConfig {
     id: row.id,
     userId: row.user_id,
     url: row.url,
-    secret: row.secret,
+    secretHint: maskSecret(decryptSecret(row.secret)),
+    previousSecretExpiresAt: activePreviousSecret(row) ? row.previous_secret_expires_at : null,
     events: JSON.parse(row.events),
     active: row.active === 1,
+    verificationStatus: row.verification_status as VerificationStatus,
+    verifiedAt: row.verified_at,
+    health: {
+      circuitState: row.circuit_state as CircuitState,
+      consecutiveFailures: row.consecutive_failures,
+      failingSince: row.failing_since,
+      circuitOpenedAt: row.circuit_opened_at,
+    },
+    disabledReason: row.disabled_reason,
+    disabledAt: row.disabled_at,
     createdAt: row.created_at,
   };
 }
@@ -88,28 +217,145 @@ function rowToDelivery(row: DeliveryRow): WebhookDelivery {
     responseCode: row.response_code,
     attempts: row.attempts,
     lastAttemptAt: row.last_attempt_at,
+    test: row.is_test === 1,
+    createdAt: row.created_at,
+  };
+}
+
+function rowToAttempt(row: AttemptRow): WebhookDeliveryAttempt {
+  return {
+    id: row.id,
+    deliveryId: row.delivery_id,
+    attemptNumber: row.attempt_number,
+    startedAt: row.started_at,
+    durationMs: row.duration_ms,
+    requestHeaders: JSON.parse(row.request_headers),
+    responseCode: row.response_code,
+    responseHeaders: JSON.parse(row.response_headers),
+    responseBody: row.response_body,
+    errorClass: row.error_class as DeliveryErrorClass | null,
+    error: row.error,
+    createdAt: row.created_at,
+  };
+}
+
+const TLS_ERROR_CODES = new Set([
+  'CERT_HAS_EXPIRED',
+  'DEPTH_ZERO_SELF_SIGNED_CERT',
+  'SELF_SIGNED_CERT_IN_CHAIN',
+  'UNABLE_TO_VERIFY_LEAF_SIGNATURE',
+  'UNABLE_TO_GET_ISSUER_CERT_LOCALLY',
+  'ERR_TLS_CERT_ALTNAME_INVALID',
+]);
+
+/**
+ * Maps a fetch failure to a coarse class. Node's fetch wraps the socket error
+ * in `cause`, so the code is looked up there first.
+ */
+export function classifyDeliveryError(err: unknown): DeliveryErrorClass {
+  const error = err as { name?: string; code?: string; cause?: { name?: string; code?: string } };
+  // A blocked address found at connect time surfaces as the cause of fetch's TypeError
+  if (err instanceof UrlPolicyError || error?.cause instanceof UrlPolicyError) return 'blocked';
+
+  if (error?.name === 'TimeoutError' || error?.name === 'AbortError') return 'timeout';
+
+  const code = error?.cause?.code ?? error?.code ?? '';
+  if (code === 'UND_ERR_CONNECT_TIMEOUT' || code === 'ETIMEDOUT') return 'timeout';
+  if (code === 'ENOTFOUND' || code === 'EAI_AGAIN') return 'dns';
+  if (code === 'ECONNREFUSED') return 'connection_refused';
+  if (code === 'ECONNRESET' || code === 'UND_ERR_SOCKET') return 'connection_reset';
+  if (TLS_ERROR_CODES.has(code) || code.startsWith('ERR_TLS_') || code.startsWith('ERR_SSL_')) return 'tls';
+  return 'unknown';
+}
+
+function rowToAuditEntry(row: AuditRow): WebhookAuditEntry {
+  return {
+    id: row.id,
+    webhookId: row.webhook_id,
+    userId: row.user_id,
+    action: row.action as WebhookAuditAction,
     createdAt: row.created_at,
   };
 }
 
-function signPayload(payload: string, secret: string): string {
-  return crypto.createHmac('sha256', secret).update(payload).digest('hex');
+function activePreviousSecret(row: Pick<WebhookRow, 'previous_secret' | 'previous_secret_expires_at'>): string | null {
+  if (!row.previous_secret || !row.previous_secret_expires_at) return null;
+  return Date.parse(row.previous_secret_expires_at) > Date.now() ? decryptSecret(row.previous_secret) : null;
+}
+
+function signedHeaders(payload: string, secrets: string[]): Record<string, string> {
+  const timestamp = Math.floor(Date.now() / 1000);
+  return {
+    'Content-Type': 'application/json',
+    [TIMESTAMP_HEADER]: String(timestamp),
+    [SIGNATURE_HEADER]: buildSignatureHeader(payload, secrets, timestamp),
+  };
+}
+
+/**
+ * Reads at most `limit` bytes of the response body and cancels the rest of the
+ * stream, so an endpoint cannot push an unbounded body into memory.
+ */
+async function readBodyPrefix(response: Response, limit: number): Promise<string> {
+  if (!response.body) return '';
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  try {
+    while (size < limit) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      chunks.push(value);
+      size += value.byteLength;
+    }
+  } finally {
+    await reader.cancel().catch(() => {});
+  }
+  return Buffer.concat(chunks).subarray(0, limit).toString('utf8');
+}
+
+/** The endpoint may echo the challenge as plain text or as `{ "challenge": "..." }`. */
+function echoesChallenge(body: string, challenge: string): boolean {
+  if (body.trim() === challenge) return true;
+  try {
+    return JSON.parse(body)?.challenge === challenge;
+  } catch {
+    return false;
+  }
+}
+
+function graceExpiry(graceSeconds: number): string {
+  return new Date(Date.now() + graceSeconds * 1000).toISOString();
 }
 
-const RETRY_DELAYS = [1000, 5000, 15000]; // 1s, 5s, 15s
+export function generateWebhookSecret(): string {
+  return `whsec_${crypto.randomBytes(24).toString('base64url')}`;
+}
+
+export const WEBHOOK_DELIVERY_JOB = 'webhook.deliver';
+
+const WEBHOOK_MAX_ATTEMPTS = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '5', 10);
+const DEFAULT_ROTATION_GRACE_SECONDS = 24 * 60 * 60;
+const VERIFICATION_EVENT = 'webhook.verification';
+const RESPONSE_BODY_LIMIT = 1024; // characters of the endpoint's response kept per attempt
+const VERIFICATION_BODY_LIMIT = 16 * 1024; // bytes read when looking for the echoed challenge
+const VERIFICATION_HOLD_MS = 60 * 1000; // how long a delivery waits for a handshake in progress
 
 export class WebhookService {
   constructor(private db: Database.Database) {}
 
-  create(userId: string, req: CreateWebhookRequest): WebhookConfig {
+  /** Creates a webhook. The response is the only place the plaintext secret is returned. */
+  create(userId: string, req: CreateWebhookRequest): WebhookWithSecret {
     const id = nanoid();
+    const secret = req.secret ?? generateWebhookSecret();
     this.db.prepare(`
-      INSERT INTO webhooks (id, user_id, url, secret, events, active, created_at)
-      VALUES (?, ?, ?, ?, ?, 1, datetime('now'))
-    `).run(id, userId, req.url, req.secret, JSON.stringify(req.events));
+      INSERT INTO webhooks (id, user_id, url, secret, events, active, verification_status, created_at)
+      VALUES (?, ?, ?, ?, ?, 1, 'pending', datetime('now'))
+    `).run(id, userId, req.url, encryptSecret(secret), JSON.stringify(req.events));
 
     const row = this.db.prepare('SELECT * FROM webhooks WHERE id = ?').get(id) as WebhookRow;
-    return rowToWebhook(row);
+    return { ...rowToWebhook(row), secret };
   }
 
   list(userId: string): WebhookConfig[] {
@@ -133,13 +379,15 @@ export class WebhookService {
     const updates: string[] = [];
     const values: unknown[] = [];
 
-    if (req.url !== undefined) {
-      updates.push('url = ?');
+    if (req.url !== undefined && req.url !== existing.url) {
+      // A new endpoint has to prove itself again before it receives deliveries
+      updates.push('url = ?', "verification_status = 'pending'", 'verified_at = NULL');
       values.push(req.url);
     }
     if (req.secret !== undefined) {
-      updates.push('secret = ?');
-      values.push(req.secret);
+      // A new secret goes through rotation so receivers are not broken mid-flight
+      updates.push('previous_secret = secret', 'previous_secret_expires_at = ?', 'secret = ?');
+      values.push(graceExpiry(DEFAULT_ROTATION_GRACE_SECONDS), encryptSecret(req.secret));
     }
     if (req.events !== undefined) {
       updates.push('events = ?');
@@ -156,10 +404,153 @@ export class WebhookService {
         `UPDATE webhooks SET ${updates.join(', ')} WHERE id = ? AND user_id = ?`
       ).run(...values);
     }
+    if (req.active === true && !existing.active) {
+      new WebhookHealthService(this.db).reset(webhookId);
+    }
+    if (req.secret !== undefined) {
+      this.audit(webhookId, userId, 'secret_rotated');
+    }
+
+    return this.getById(webhookId, userId);
+  }
+
+  /**
+   * Replaces the signing secret. The old secret keeps signing alongside the new
+   * one for the grace window so receivers can switch over without downtime.
+   */
+  rotateSecret(webhookId: string, userId: string, req: RotateSecretRequest = {}): WebhookWithSecret | null {
+    const existing = this.getById(webhookId, userId);
+    if (!existing) return null;
+
+    const secret = req.secret ?? generateWebhookSecret();
+    const expiresAt = graceExpiry(req.graceSeconds ?? DEFAULT_ROTATION_GRACE_SECONDS);
+    this.db.prepare(`
+      UPDATE webhooks SET previous_secret = secret, previous_secret_expires_at = ?, secret = ?
+      WHERE id = ? AND user_id = ?
+    `).run(expiresAt, encryptSecret(secret), webhookId, userId);
+    this.audit(webhookId, userId, 'secret_rotated');
+
+    return { ...this.getById(webhookId, userId)!, secret };
+  }
+
+  /**
+   * Posts a signed challenge to the endpoint. The webhook is verified only if
+   * the endpoint answers 2xx and echoes the challenge back.
+   */
+  async verify(webhookId: string, userId: string): Promise<WebhookConfig | null> {
+    const row = this.db.prepare(
+      'SELECT * FROM webhooks WHERE id = ? AND user_id = ?'
+    ).get(webhookId, userId) as WebhookRow | undefined;
+    if (!row) return null;
+
+    const challenge = crypto.randomBytes(16).toString('hex');
+    const payload = JSON.stringify({ type: VERIFICATION_EVENT, webhookId, challenge });
+
+    let verified = false;
+    try {
+      const response = await webhookUrlPolicy.fetch(row.url, {
+        method: 'POST',
+        headers: signedHeaders(payload, [decryptSecret(row.secret)]),
+        body: payload,
+        signal: AbortSignal.timeout(10000),
+      });
+      verified = response.ok && echoesChallenge(await readBodyPrefix(response, VERIFICATION_BODY_LIMIT), challenge);
+    } catch {
+      verified = false;
+    }
+
+    this.db.prepare(`
+      UPDATE webhooks SET verification_status = ?, verified_at = CASE WHEN ? THEN datetime('now') ELSE NULL END
+      WHERE id = ?
+    `).run(verified ? 'verified' : 'failed', verified ? 1 : 0, webhookId);
 
     return this.getById(webhookId, userId);
   }
 
+  /**
+   * Sends a synthetic event of the given type straight to the webhook, ignoring
+   * its event subscription and verification state, and returns the outcome. The
+   * delivery is marked as a test, so a failure is no dead letter and is not redelivered.
+   */
+  async sendTestEvent(webhookId: string, userId: string, eventType: NotificationType): Promise<TestDeliveryResult | null> {
+    const webhook = this.getById(webhookId, userId);
+    if (!webhook) return null;
+
+    const deliveryId = nanoid();
+    const payload = {
+      event: eventType,
+      test: true,
+      notificationId: `test_${nanoid(10)}`,
+      userId,
+      title: 'Test notification',
+      body: `This is a test ${eventType} event from Nexus.`,
+      metadata: {},
+      createdAt: new Date().toISOString(),
+    };
+    this.db.prepare(`
+      INSERT INTO webhook_deliveries (id, webhook_id, event_type, payload, status, attempts, is_test, created_at)
+      VALUES (?, ?, ?, ?, 'pending', 0, 1, datetime('now'))
+    `).run(deliveryId, webhookId, eventType, JSON.stringify(payload));
+
+    await this.attemptDelivery(deliveryId, true, { skipHealth: true });
+
+    const attempts = this.getAttempts(webhookId, deliveryId, userId)!;
+    return {
+      delivery: this.getDelivery(webhookId, deliveryId, userId)!,
+      attempt: attempts[attempts.length - 1],
+    };
+  }
+
+  /** Returns the plaintext signing secret and records that it was revealed. */
+  revealSecret(webhookId: string, userId: string): string | null {
+    const row = this.db.prepare(
+      'SELECT secret FROM webhooks WHERE id = ? AND user_id = ?'
+    ).get(webhookId, userId) as Pick<WebhookRow, 'secret'> | undefined;
+    if (!row) return null;
+
+    this.audit(webhookId, userId, 'secret_revealed');
+    return decryptSecret(row.secret);
+  }
+
+  getAuditLog(webhookId: string, userId: string): WebhookAuditEntry[] | null {
+    const webhook = this.getById(webhookId, userId);
+    if (!webhook) return null;
+
+    const rows = this.db.prepare(
+      'SELECT * FROM webhook_audit_log WHERE webhook_id = ? ORDER BY created_at DESC, rowid DESC'
+    ).all(webhookId) as AuditRow[];
+    return rows.map(rowToAuditEntry);
+  }
+
+  /** Encrypts secrets stored before encryption at rest was introduced. Called once on startup. */
+  encryptLegacySecrets(): number {
+    const rows = this.db.prepare(
+      'SELECT id, secret, previous_secret FROM webhooks'
+    ).all() as Pick<WebhookRow, 'id' | 'secret' | 'previous_secret'>[];
+
+    const update = this.db.prepare('UPDATE webhooks SET secret = ?, previous_secret = ? WHERE id = ?');
+    let encrypted = 0;
+    for (const row of rows) {
+      const previousPlain = row.previous_secret !== null && !isEncrypted(row.previous_secret);
+      if (isEncrypted(row.secret) && !previousPlain) continue;
+
+      update.run(
+        isEncrypted(row.secret) ? row.secret : encryptSecret(row.secret),
+        previousPlain ? encryptSecret(row.previous_secret!) : row.previous_secret,
+        row.id,
+      );
+      encrypted++;
+    }
+    return encrypted;
+  }
+
+  private audit(webhookId: string, userId: string, action: WebhookAuditAction): void {
+    this.db.prepare(`
+      INSERT INTO webhook_audit_log (id, webhook_id, user_id, action, created_at)
+      VALUES (?, ?, ?, ?, datetime('now'))
+    `).run(nanoid(), webhookId, userId, action);
+  }
+
   delete(webhookId: string, userId: string): boolean {
     const result = this.db.prepare(
       'DELETE FROM webhooks WHERE id = ? AND user_id = ?'
@@ -178,63 +569,262 @@ export class WebhookService {
     return rows.map(rowToDelivery);
   }
 
-  async deliver(eventType: NotificationType, payload: Record<string, unknown>, userId: string): Promise<void> {
+  getDelivery(webhookId: string, deliveryId: string, userId: string): WebhookDelivery | null {
+    const webhook = this.getById(webhookId, userId);
+    if (!webhook) return null;
+
+    const row = this.db.prepare(
+      'SELECT * FROM webhook_deliveries WHERE id = ? AND webhook_id = ?'
+    ).get(deliveryId, webhookId) as DeliveryRow | undefined;
+    return row ? rowToDelivery(row) : null;
+  }
+
+  getAttempts(webhookId: string, deliveryId: string, userId: string): WebhookDeliveryAttempt[] | null {
+    const delivery = this.getDelivery(webhookId, deliveryId, userId);
+    if (!delivery) return null;
+
+    const rows = this.db.prepare(
+      'SELECT * FROM webhook_delivery_attempts WHERE delivery_id = ? ORDER BY attempt_number ASC'
+    ).all(deliveryId) as AttemptRow[];
+    return rows.map(rowToAttempt);
+  }
+
+  /** Failed deliveries (test events aside) with every recorded attempt, newest delivery first. */
+  getDeadLetters(webhookId: string, userId: string): DeadLetter[] | null {
+    const webhook = this.getById(webhookId, userId);
+    if (!webhook) return null;
+
+    const rows = this.db.prepare(
+      "SELECT * FROM webhook_deliveries WHERE webhook_id = ? AND status = 'failed' AND is_test = 0 ORDER BY created_at DESC"
+    ).all(webhookId) as DeliveryRow[];
+
+    const attempts = this.db.prepare(
+      'SELECT * FROM webhook_delivery_attempts WHERE delivery_id = ? ORDER BY attempt_number ASC'
+    );
+
+    return rows.map(row => ({
+      ...rowToDelivery(row),
+      attemptHistory: (attempts.all(row.id) as AttemptRow[]).map(rowToAttempt),
+    }));
+  }
+
+  /** Puts a finished delivery back into the queue with a fresh set of attempts. */
+  redeliver(deliveryId: string): WebhookDelivery {
+    const requeue = this.db.transaction(() => {
+      this.db.prepare(
+        "UPDATE webhook_deliveries SET status = 'pending' WHERE id = ?"
+      ).run(deliveryId);
+      new QueueService(this.db).enqueue(WEBHOOK_DELIVERY_JOB, { deliveryId }, { maxAttempts: WEBHOOK_MAX_ATTEMPTS });
+    });
+    requeue();
+
+    const row = this.db.prepare('SELECT * FROM webhook_deliveries WHERE id = ?').get(deliveryId) as DeliveryRow;
+    return rowToDelivery(row);
+  }
+
+  /** Redelivers every delivery of the webhook whose last attempt failed at or after `since`. */
+  redeliverFailedSince(webhookId: string, userId: string, since: Date): WebhookDelivery[] | null {
+    const webhook = this.getById(webhookId, userId);
+    if (!webhook) return null;
+
+    const rows = this.db.prepare(`
+      SELECT id FROM webhook_deliveries
+      WHERE webhook_id = ? AND status = 'failed' AND is_test = 0 AND last_attempt_at >= datetime(?)
+      ORDER BY created_at ASC
+    `).all(webhookId, since.toISOString()) as { id: string }[];
+
+    return rows.map(row => this.redeliver(row.id));
+  }
+
+  /**
+   * Records a pending delivery for every active webhook subscribed to the event
+   * and queues a job per delivery for the background worker.
+   */
+  enqueue(eventType: NotificationType, payload: Record<string, unknown>, userId: string): WebhookDelivery[] {
     const webhooks = this.db.prepare(
-      'SELECT * FROM webhooks WHERE user_id = ? AND active = 1'
+      "SELECT * FROM webhooks WHERE user_id = ? AND active = 1 AND verification_status = 'verified'"
     ).all(userId) as WebhookRow[];
 
-    for (const webhookRow of webhooks) {
-      const webhook = rowToWebhook(webhookRow);
-      if (!webhook.events.includes(eventType)) continue;
+    const payloadStr = JSON.stringify(payload);
+    const insert = this.db.prepare(`
+      INSERT INTO webhook_deliveries (id, webhook_id, event_type, payload, status, attempts, created_at)
+      VALUES (?, ?, ?, ?, 'pending', 0, datetime('now'))
+    `);
+    const queue = new QueueService(this.db);
+
+    const create = this.db.transaction(() => {
+      const deliveries: WebhookDelivery[] = [];
+      for (const webhookRow of webhooks) {
+        const webhook = rowToWebhook(webhookRow);
+        if (!webhook.events.includes(eventType)) continue;
+
+        const deliveryId = nanoid();
+        insert.run(deliveryId, webhook.id, eventType, payloadStr);
+        queue.enqueue(WEBHOOK_DELIVERY_JOB, { deliveryId }, { maxAttempts: WEBHOOK_MAX_ATTEMPTS });
+
+        const row = this.db.prepare('SELECT * FROM webhook_deliveries WHERE id = ?').get(deliveryId) as DeliveryRow;
+        deliveries.push(rowToDelivery(row));
+      }
+      return deliveries;
+    });
 
-      const deliveryId = nanoid();
-      const payloadStr = JSON.stringify(payload);
+    return create();
+  }
 
-      this.db.prepare(`
-        INSERT INTO webhook_deliveries (id, webhook_id, event_type, payload, status, attempts, created_at)
-        VALUES (?, ?, ?, ?, 'pending', 0, datetime('now'))
-      `).run(deliveryId, webhook.id, eventType, payloadStr);
+  /**
+   * Queues a job for every pending delivery that has none, e.g. deliveries
+   * recorded before the queue existed. Called once on startup.
+   */
+  resumePending(): number {
+    const rows = this.db.prepare(
+      "SELECT id FROM webhook_deliveries WHERE status = 'pending' AND is_test = 0 ORDER BY created_at ASC"
+    ).all() as { id: string }[];
+
+    const queue = new QueueService(this.db);
+    let resumed = 0;
+    for (const row of rows) {
+      if (queue.hasActiveJob(WEBHOOK_DELIVERY_JOB, 'deliveryId', row.id)) continue;
+      queue.enqueue(WEBHOOK_DELIVERY_JOB, { deliveryId: row.id }, { maxAttempts: WEBHOOK_MAX_ATTEMPTS });
+      resumed++;
+    }
+    return resumed;
+  }
 
-      await this.attemptDelivery(deliveryId, webhook, payloadStr);
+  /**
+   * Decides whether a queued delivery may be attempted now. The webhook must be
+   * verified, since its URL may have changed after the delivery was queued: a
+   * handshake in progress holds the delivery, a failed one fails it. Otherwise
+   * the circuit breaker decides.
+   */
+  checkDelivery(deliveryId: string, now = new Date()): CircuitDecision {
+    const row = this.db.prepare(`
+      SELECT d.webhook_id, d.status, w.verification_status FROM webhook_deliveries d
+      LEFT JOIN webhooks w ON w.id = d.webhook_id
+      WHERE d.id = ?
+    `).get(deliveryId) as
+      | { webhook_id: string; status: string; verification_status: VerificationStatus | null }
+      | undefined;
+    if (!row) return { action: 'abandon', reason: 'Delivery no longer exists' };
+    // e.g. failed when the webhook was disabled
+    if (row.status !== 'pending') return { action: 'abandon', reason: 'Delivery is no longer pending' };
+
+    if (row.verification_status === 'pending') {
+      return {
+        action: 'defer',
+        retryAt: new Date(now.getTime() + VERIFICATION_HOLD_MS),
+        reason: 'Webhook is waiting for verification',
+      };
     }
+    if (row.verification_status === 'failed') {
+      return { action: 'abandon', reason: 'Webhook is not verified' };
+    }
+
+    return new WebhookHealthService(this.db).acquire(row.webhook_id, now);
   }
 
-  private async attemptDelivery(deliveryId: string, webhook: WebhookConfig, payload: string): Promise<void> {
-    const maxAttempts = 3;
+  /** Gives up on a pending delivery without attempting it; it can be redelivered later. */
+  abandonDelivery(deliveryId: string): void {
+    this.db.prepare(
+      "UPDATE webhook_deliveries SET status = 'failed' WHERE id = ? AND status = 'pending'"
+    ).run(deliveryId);
+  }
 
-    for (let attempt = 0; attempt < maxAttempts; attempt++) {
-      if (attempt > 0) {
-        await new Promise(resolve => setTimeout(resolve, RETRY_DELAYS[attempt - 1]));
-      }
+  /**
+   * Makes a single delivery attempt and records its outcome. The delivery stays
+   * pending after a failure unless this was its final attempt.
+   */
+  async attemptDelivery(
+    deliveryId: string,
+    finalAttempt: boolean,
+    options: DeliveryAttemptOptions = {},
+  ): Promise<DeliveryAttemptResult> {
+    const row = this.db.prepare(`
+      SELECT d.*, w.url, w.secret, w.previous_secret, w.previous_secret_expires_at FROM webhook_deliveries d
+      JOIN webhooks w ON w.id = d.webhook_id
+      WHERE d.id = ?
+    `).get(deliveryId) as
+      | (DeliveryRow & Pick<WebhookRow, 'url' | 'secret' | 'previous_secret' | 'previous_secret_expires_at'>)
+      | undefined;
+
+    if (!row) {
+      return { ok: false, responseCode: null, error: 'Delivery or webhook no longer exists' };
+    }
+    if (row.status !== 'pending') {
+      return { ok: row.status === 'delivered', responseCode: row.response_code, error: null };
+    }
+
+    const secret = decryptSecret(row.secret);
+    const previousSecret = activePreviousSecret(row);
+    const secrets = previousSecret ? [secret, previousSecret] : [secret];
+    const requestHeaders = signedHeaders(row.payload, secrets);
+    const startedAt = new Date();
+
+    let result: DeliveryAttemptResult;
+    let errorClass: DeliveryErrorClass | null = null;
+    let responseHeaders: Record<string, string> = {};
+    let responseBody: string | null = null;
+    try {
+      const response = await webhookUrlPolicy.fetch(row.url, {
+        method: 'POST',
+        headers: requestHeaders,
+        body: row.payload,
+        signal: AbortSignal.timeout(10000),
+      });
+      responseHeaders = Object.fromEntries(response.headers.entries());
+      // Up to 4 bytes per character
+      responseBody = (await readBodyPrefix(response, RESPONSE_BODY_LIMIT * 4).catch(() => '')).slice(0, RESPONSE_BODY_LIMIT);
+      result = {
+        ok: response.ok,
+        responseCode: response.status,
+        error: response.ok ? null : `Endpoint responded with ${response.status}`,
+      };
+      if (!response.ok) errorClass = 'http_error';
+    } catch (err) {
+      errorClass = classifyDeliveryError(err);
+      const cause = (err as { cause?: Error }).cause;
+      result = { ok: false, responseCode: null, error: cause?.message ?? (err as Error).message };
+    }
+    const durationMs = Date.now() - startedAt.getTime();
+
+    const status = result.ok ? 'delivered' : (finalAttempt ? 'failed' : 'pending');
+    this.db.transaction(() => {
+      this.db.prepare(`
+        UPDATE webhook_deliveries
+        SET attempts = attempts + 1, response_code = ?, last_attempt_at = datetime('now'), status = ?
+        WHERE id = ?
+      `).run(result.responseCode, status, deliveryId);
 
-      try {
-        const signature = signPayload(payload, webhook.secret);
-        const response = await fetch(webhook.url, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'X-Nexus-Signature': signature,
-          },
-          body: payload,
-          signal: AbortSignal.timeout(10000),
-        });
-
-        this.db.prepare(`
-          UPDATE webhook_deliveries
-          SET attempts = ?, response_code = ?, last_attempt_at = datetime('now'),
-              status = ?
-          WHERE id = ?
-        `).run(attempt + 1, response.status, response.ok ? 'delivered' : (attempt + 1 >= maxAttempts ? 'failed' : 'pending'), deliveryId);
-
-        if (response.ok) return;
-      } catch {
-        this.db.prepare(`
-          UPDATE webhook_deliveries
-          SET attempts = ?, last_attempt_at = datetime('now'),
-              status = ?
-          WHERE id = ?
-        `).run(attempt + 1, attempt + 1 >= maxAttempts ? 'failed' : 'pending', deliveryId);
+      this.db.prepare(`
+        INSERT INTO webhook_delivery_attempts (
+          id, delivery_id, attempt_number, started_at, duration_ms, request_headers,
+          response_code, response_headers, response_body, error_class, error, created_at
+        )
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, datetime('now'))
+      `).run(
+        nanoid(),
+        deliveryId,
+        row.attempts + 1,
+        startedAt.toISOString(),
+        durationMs,
+        JSON.stringify(requestHeaders),
+        result.responseCode,
+        JSON.stringify(responseHeaders),
+        responseBody,
+        errorClass,
+        result.error,
+      );
+    })();
+
+    // After the outcome is stored, so disabling the webhook fails this delivery too
+    if (!options.skipHealth) {
+      const health = new WebhookHealthService(this.db);
+      if (result.ok) {
+        health.recordSuccess(row.webhook_id);
+      } else {
+        health.recordFailure(row.webhook_id);
       }
     }
+
+    return result;
   }
 }
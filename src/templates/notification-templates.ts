@@ -0,0 +1,125 @@
+import type { NotificationTemplate } from './registry.js';
+
+// Built-in templates. The id of each type's default template is the type itself.
+export const NOTIFICATION_TEMPLATES: NotificationTemplate[] = [
+  {
+    id: 'task_assigned',
+    type: 'task_assigned',
+    locale: 'en',
+    title: '{{actorName}} assigned you "{{taskTitle}}"',
+    body: 'You are now responsible for "{{taskTitle}}" in {{projectName}}.',
+    email: {
+      subject: 'New task: {{taskTitle}}',
+      text: '{{actorName}} assigned you "{{taskTitle}}" in {{projectName}}.',
+      html: '<p>{{actorName}} assigned you <strong>{{taskTitle}}</strong> in {{projectName}}.</p>',
+    },
+  },
+  {
+    id: 'task_assigned',
+    type: 'task_assigned',
+    locale: 'es',
+    title: '{{actorName}} te asignó "{{taskTitle}}"',
+    body: 'Ahora eres responsable de "{{taskTitle}}" en {{projectName}}.',
+    email: {
+      subject: 'Nueva tarea: {{taskTitle}}',
+      text: '{{actorName}} te asignó "{{taskTitle}}" en {{projectName}}.',
+      html: '<p>{{actorName}} te asignó <strong>{{taskTitle}}</strong> en {{projectName}}.</p>',
+    },
+  },
+  {
+    id: 'task_status_changed',
+    type: 'task_status_changed',
+    locale: 'en',
+    title: '"{{taskTitle}}" moved to {{status}}',
+    body: '{{actorName}} changed the status of "{{taskTitle}}" to {{status}}.',
+    email: {
+      subject: '{{taskTitle}} is now {{status}}',
+      text: '{{actorName}} changed the status of "{{taskTitle}}" to {{status}}.',
+      html: '<p>{{actorName}} changed the status of <strong>{{taskTitle}}</strong> to {{status}}.</p>',
+    },
+  },
+  {
+    id: 'task_status_changed',
+    type: 'task_status_changed',
+    locale: 'es',
+    title: '"{{taskTitle}}" pasó a {{status}}',
+    body: '{{actorName}} cambió el estado de "{{taskTitle}}" a {{status}}.',
+    email: {
+      subject: '{{taskTitle}} ahora está en {{status}}',
+      text: '{{actorName}} cambió el estado de "{{taskTitle}}" a {{status}}.',
+      html: '<p>{{actorName}} cambió el estado de <strong>{{taskTitle}}</strong> a {{status}}.</p>',
+    },
+  },
+  {
+    id: 'comment_added',
+    type: 'comment_added',
+    locale: 'en',
+    title: '{{actorName}} commented on "{{taskTitle}}"',
+    body: '{{commentExcerpt}}',
+    email: {
+      subject: 'New comment on {{taskTitle}}',
+      text: '{{actorName}} commented on "{{taskTitle}}":\n\n{{commentExcerpt}}',
+      html: '<p>{{actorName}} commented on <strong>{{taskTitle}}</strong>:</p><blockquote>{{commentExcerpt}}</blockquote>',
+    },
+  },
+  {
+    id: 'comment_added',
+    type: 'comment_added',
+    locale: 'es',
+    title: '{{actorName}} comentó en "{{taskTitle}}"',
+    body: '{{commentExcerpt}}',
+    email: {
+      subject: 'Nuevo comentario en {{taskTitle}}',
+      text: '{{actorName}} comentó en "{{taskTitle}}":\n\n{{commentExcerpt}}',
+      html: '<p>{{actorName}} comentó en <strong>{{taskTitle}}</strong>:</p><blockquote>{{commentExcerpt}}</blockquote>',
+    },
+  },
+  {
+    id: 'project_invited',
+    type: 'project_invited',
+    locale: 'en',
+    title: 'You were invited to {{projectName}}',
+    body: '{{actorName}} invited you to join {{projectName}}.',
+    email: {
+      subject: 'Invitation to {{projectName}}',
+      text: '{{actorName}} invited you to join {{projectName}}.',
+      html: '<p>{{actorName}} invited you to join <strong>{{projectName}}</strong>.</p>',
+    },
+  },
+  {
+    id: 'project_invited',
+    type: 'project_invited',
+    locale: 'es',
+    title: 'Te invitaron a {{projectName}}',
+    body: '{{actorName}} te invitó a unirte a {{projectName}}.',
+    email: {
+      subject: 'Invitación a {{projectName}}',
+      text: '{{actorName}} te invitó a unirte a {{projectName}}.',
+      html: '<p>{{actorName}} te invitó a unirte a <strong>{{projectName}}</strong>.</p>',
+    },
+  },
+  {
+    id: 'task_due_soon',
+    type: 'task_due_soon',
+    locale: 'en',
+    title: '"{{taskTitle}}" is due {{dueDate}}',
+    body: 'Your task "{{taskTitle}}" in {{projectName}} is due {{dueDate}}.',
+    email: {
+      subject: 'Reminder: {{taskTitle}} is due {{dueDate}}',
+      text: 'Your task "{{taskTitle}}" in {{projectName}} is due {{dueDate}}.',
+      html: '<p>Your task <strong>{{taskTitle}}</strong> in {{projectName}} is due {{dueDate}}.</p>',
+    },
+  },
+  {
+    id: 'task_due_soon',
+    type: 'task_due_soon',
+    locale: 'es',
+    title: '"{{taskTitle}}" vence {{dueDate}}',
+    body: 'Tu tarea "{{taskTitle}}" en {{projectName}} vence {{dueDate}}.',
+    email: {
+      subject: 'Recordatorio: {{taskTitle}} vence {{dueDate}}',
+      text: 'Tu tarea "{{taskTitle}}" en {{projectName}} vence {{dueDate}}.',
+      html: '<p>Tu tarea <strong>{{taskTitle}}</strong> en {{projectName}} vence {{dueDate}}.</p>',
+    },
+  },
+];
@@ -0,0 +1,140 @@
+import type { NotificationType } from '../services/notification.service.js';
+import { NOTIFICATION_TEMPLATES } from './notification-templates.js';
+
+export const DEFAULT_LOCALE = 'en';
+
+export interface EmailTemplate {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface NotificationTemplate {
+  id: string;
+  type: NotificationType;
+  locale: string;
+  title: string;
+  body: string;
+  email: EmailTemplate;
+}
+
+export interface RenderedTemplate {
+  templateId: string;
+  type: NotificationType;
+  // Locale actually used, after falling back
+  locale: string;
+  title: string;
+  body: string;
+  email: EmailTemplate;
+}
+
+export interface TemplateSummary {
+  id: string;
+  type: NotificationType;
+  locales: string[];
+  variables: string[];
+}
+
+export class TemplateError extends Error {
+  constructor(message: string, public missingVariables: string[] = []) {
+    super(message);
+    this.name = 'TemplateError';
+  }
+}
+
+// {{name}} or {{ name }}
+const PLACEHOLDER = /\{\{\s*([A-Za-z0-9_]+)\s*\}\}/g;
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, char => HTML_ESCAPES[char]);
+}
+
+function interpolate(source: string, variables: Record<string, string>, escape = false): string {
+  return source.replace(PLACEHOLDER, (_match, name: string) => (escape ? escapeHtml(variables[name]) : variables[name]));
+}
+
+function placeholdersOf(template: NotificationTemplate): string[] {
+  const sources = [template.title, template.body, template.email.subject, template.email.text, template.email.html];
+  const names = new Set<string>();
+  for (const source of sources) {
+    for (const match of source.matchAll(PLACEHOLDER)) names.add(match[1]);
+  }
+  return [...names].sort();
+}
+
+/**
+ * Notification texts by template id and locale. A locale falls back to its
+ * base language ("pt-BR" to "pt") and then to DEFAULT_LOCALE.
+ */
+export class TemplateRegistry {
+  private templates = new Map<string, Map<string, NotificationTemplate>>();
+
+  constructor(templates: NotificationTemplate[]) {
+    for (const template of templates) {
+      const locales = this.templates.get(template.id) ?? new Map<string, NotificationTemplate>();
+      locales.set(template.locale.toLowerCase(), template);
+      this.templates.set(template.id, locales);
+    }
+  }
+
+  list(): TemplateSummary[] {
+    return [...this.templates.entries()].map(([id, locales]) => {
+      const fallback = locales.get(DEFAULT_LOCALE) ?? [...locales.values()][0];
+      return {
+        id,
+        type: fallback.type,
+        locales: [...locales.keys()].sort(),
+        variables: placeholdersOf(fallback),
+      };
+    });
+  }
+
+  get(templateId: string, locale = DEFAULT_LOCALE): NotificationTemplate | null {
+    const locales = this.templates.get(templateId);
+    if (!locales) return null;
+
+    const requested = locale.toLowerCase();
+    const candidates = [requested, requested.split('-')[0], DEFAULT_LOCALE];
+    for (const candidate of candidates) {
+      const template = locales.get(candidate);
+      if (template) return template;
+    }
+    return null;
+  }
+
+  /** Renders every part of the template. Throws TemplateError if it is unknown or a variable is missing. */
+  render(templateId: string, locale: string | undefined, variables: Record<string, string>): RenderedTemplate {
+    const template = this.get(templateId, locale);
+    if (!template) {
+      throw new TemplateError(`Unknown template "${templateId}"`);
+    }
+
+    const missing = placeholdersOf(template).filter(name => variables[name] === undefined);
+    if (missing.length > 0) {
+      throw new TemplateError(`Missing template variables: ${missing.join(', ')}`, missing);
+    }
+
+    return {
+      templateId: template.id,
+      type: template.type,
+      locale: template.locale,
+      title: interpolate(template.title, variables),
+      body: interpolate(template.body, variables),
+      email: {
+        subject: interpolate(template.email.subject, variables),
+        text: interpolate(template.email.text, variables),
+        html: interpolate(template.email.html, variables, true),
+      },
+    };
+  }
+}
+
+export const templateRegistry = new TemplateRegistry(NOTIFICATION_TEMPLATES);
@@ -0,0 +1,37 @@
+import crypto from 'crypto';
+
+const SECRET_KEY = process.env.NEXUS_SECRET_KEY || 'nexus-dev-secret-key-change-in-production';
+const PREFIX = 'enc:v1:';
+
+// AES-256 needs a 32-byte key; the configured value may be any string
+const key = crypto.createHash('sha256').update(SECRET_KEY).digest();
+
+export function isEncrypted(value: string): boolean {
+  return value.startsWith(PREFIX);
+}
+
+/** Encrypts a value with AES-256-GCM under the service key. */
+export function encryptSecret(plaintext: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  const tag = cipher.getAuthTag();
+  return `${PREFIX}${iv.toString('base64')}:${tag.toString('base64')}:${ciphertext.toString('base64')}`;
+}
+
+/** Decrypts a value from `encryptSecret`. Values stored before encryption are returned unchanged. */
+export function decryptSecret(stored: string): string {
+  if (!isEncrypted(stored)) return stored;
+
+  const [iv, tag, ciphertext] = stored.slice(PREFIX.length).split(':').map(part => Buffer.from(part, 'base64'));
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+}
+
+/** Shows just enough of a secret to tell two apart, e.g. `whsec_****a1b2`. */
+export function maskSecret(secret: string): string {
+  const prefix = secret.startsWith('whsec_') ? 'whsec_' : '';
+  if (secret.length - prefix.length < 8) return `${prefix}****`;
+  return `${prefix}****${secret.slice(-4)}`;
+}
@@ -0,0 +1,56 @@
+import crypto from 'crypto';
+
+export const SIGNATURE_VERSION = 'v1';
+export const SIGNATURE_HEADER = 'X-Nexus-Signature';
+export const TIMESTAMP_HEADER = 'X-Nexus-Timestamp';
+
+const DEFAULT_TOLERANCE_SECONDS = 300;
+
+export interface VerifySignatureOptions {
+  // Maximum age of the timestamp before the request is treated as a replay
+  toleranceSeconds?: number;
+  // Current time in unix seconds, for tests
+  now?: number;
+}
+
+/** Signs `timestamp.payload` and returns it in `v1=<hex>` form. */
+export function signWebhookPayload(payload: string, secret: string, timestamp: number): string {
+  const digest = crypto.createHmac('sha256', secret).update(`${timestamp}.${payload}`).digest('hex');
+  return `${SIGNATURE_VERSION}=${digest}`;
+}
+
+/**
+ * Builds the signature header value. During a secret rotation both secrets
+ * sign, so receivers holding either one can verify the request.
+ */
+export function buildSignatureHeader(payload: string, secrets: string[], timestamp: number): string {
+  return secrets.map(secret => signWebhookPayload(payload, secret, timestamp)).join(',');
+}
+
+/**
+ * Verifies a webhook request as a receiver would: the timestamp must be within
+ * the tolerance and one of the `v1` signatures must match the secret.
+ */
+export function verifyWebhookSignature(
+  payload: string,
+  signatureHeader: string,
+  timestampHeader: string,
+  secret: string,
+  options: VerifySignatureOptions = {},
+): boolean {
+  const timestamp = Number(timestampHeader);
+  if (!Number.isInteger(timestamp)) return false;
+
+  const now = options.now ?? Math.floor(Date.now() / 1000);
+  if (Math.abs(now - timestamp) > (options.toleranceSeconds ?? DEFAULT_TOLERANCE_SECONDS)) return false;
+
+  const expected = Buffer.from(signWebhookPayload(payload, secret, timestamp));
+  return signatureHeader
+    .split(',')
+    .map(part => part.trim())
+    .filter(part => part.startsWith(`${SIGNATURE_VERSION}=`))
+    .some(part => {
+      const candidate = Buffer.from(part);
+      return candidate.length === expected.length && crypto.timingSafeEqual(candidate, expected);
+    });
+}
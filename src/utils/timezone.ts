@@ -0,0 +1,97 @@
+export interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  // 0 = Sunday
+  weekday: number;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+      weekday: 'short',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    formatterFor(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Wall-clock date and time of `date` in the given IANA time zone. */
+export function zonedParts(date: Date, timeZone: string): ZonedParts {
+  const parts = Object.fromEntries(formatterFor(timeZone).formatToParts(date).map(p => [p.type, p.value]));
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+  };
+}
+
+// Milliseconds the zone is ahead of UTC at the given instant
+function offsetAt(date: Date, timeZone: string): number {
+  const p = zonedParts(date, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute);
+  return asUtc - Math.floor(date.getTime() / 60_000) * 60_000;
+}
+
+/**
+ * The instant a wall-clock time occurs in the zone. Day overflow is allowed
+ * (day 32 rolls into the next month). Times skipped by a DST jump resolve to
+ * the equivalent instant after the jump; times repeated when clocks go back
+ * resolve to their first occurrence unless `prefer` is `later`.
+ */
+export function zonedTimeToUtc(
+  local: { year: number; month: number; day: number; hour: number; minute: number },
+  timeZone: string,
+  prefer: 'earlier' | 'later' = 'earlier',
+): Date {
+  const asUtc = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute);
+  const first = asUtc - offsetAt(new Date(asUtc), timeZone);
+  // Re-check with the offset in effect at the result, which differs around DST changes
+  const second = new Date(asUtc - offsetAt(new Date(first), timeZone));
+  const check = zonedParts(second, timeZone);
+  if (check.hour === local.hour && check.minute === local.minute) {
+    if (prefer === 'later') {
+      // The offset after a fall-back gives the repeated time's second occurrence
+      const repeat = new Date(asUtc - offsetAt(new Date(asUtc + 24 * 60 * 60 * 1000), timeZone));
+      const again = zonedParts(repeat, timeZone);
+      if (repeat > second && again.hour === local.hour && again.minute === local.minute) return repeat;
+    }
+    return second;
+  }
+  // The wall-clock time does not exist; the pre-jump offset lands after the jump
+  return new Date(first);
+}
+
+/** Parses "HH:MM" into minutes after midnight. */
+export function parseTimeOfDay(value: string): number {
+  const [hours, minutes] = value.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+export const TIME_OF_DAY_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
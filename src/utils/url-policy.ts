@@ -0,0 +1,211 @@
+import dns from 'dns';
+import net from 'net';
+import { Agent } from 'undici';
+
+export interface UrlPolicyOptions {
+  allowedSchemes?: string[];
+  // Exact hostnames or `*.example.com` patterns; when set, only these hosts are allowed
+  allowedHosts?: string[];
+  // Lets local development point webhooks at localhost or LAN addresses
+  allowPrivateNetworks?: boolean;
+}
+
+export type UrlCheckResult =
+  | { allowed: true; addresses: string[] }
+  | { allowed: false; reason: string };
+
+export interface UrlCheckOptions {
+  // Accept hostnames that do not resolve (yet); the delivery-time check still applies
+  allowUnresolved?: boolean;
+}
+
+export class UrlPolicyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UrlPolicyError';
+  }
+}
+
+const MAX_REDIRECTS = 3;
+
+const blockList = new net.BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  blockList.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  // IPv4-compatible (::a.b.c.d), which also covers :: and ::1
+  ['::', 96],
+  ['::1', 128],
+  ['64:ff9b::', 96],
+  ['100::', 64],
+  ['2001:db8::', 32],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  blockList.addSubnet(network, prefix, 'ipv6');
+}
+
+/** True for loopback, private, link-local, multicast and other non-public addresses. */
+export function isBlockedAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 4) return blockList.check(address, 'ipv4');
+  if (family !== 6) return true;
+
+  // IPv4-mapped IPv6 (::ffff:127.0.0.1) is judged by the embedded IPv4 address
+  const mapped = address.toLowerCase().match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) return blockList.check(mapped[1], 'ipv4');
+  return blockList.check(address, 'ipv6');
+}
+
+/**
+ * Socket lookup that resolves the host once more at connect time and refuses
+ * blocked addresses, so the connection goes to an address that passed the
+ * policy even if DNS answers differently than it did for check().
+ */
+const publicOnlyLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) {
+      callback(err, '');
+      return;
+    }
+    const blocked = addresses.find(entry => isBlockedAddress(entry.address));
+    if (blocked) {
+      callback(new UrlPolicyError(`Host ${hostname} resolves to non-public address ${blocked.address}`), '');
+      return;
+    }
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+function hostMatches(hostname: string, pattern: string): boolean {
+  const host = hostname.toLowerCase();
+  const rule = pattern.toLowerCase();
+  if (rule.startsWith('*.')) return host.endsWith(rule.slice(1));
+  return host === rule;
+}
+
+function csv(value: string | undefined): string[] | undefined {
+  const items = value?.split(',').map(item => item.trim()).filter(Boolean);
+  return items && items.length > 0 ? items : undefined;
+}
+
+/**
+ * Decides which URLs the service may send requests to on a user's behalf.
+ * Hostnames are resolved and every address must be public, so an internal
+ * target cannot be reached through DNS either.
+ */
+export class UrlPolicy {
+  private readonly allowedSchemes: string[];
+  // Connections made by fetch() only go to addresses that pass isBlockedAddress
+  private readonly dispatcher: Agent | undefined;
+
+  constructor(private options: UrlPolicyOptions = {}) {
+    this.allowedSchemes = (options.allowedSchemes ?? ['https', 'http']).map(s => s.replace(/:$/, '').toLowerCase());
+    this.dispatcher = options.allowPrivateNetworks ? undefined : new Agent({ connect: { lookup: publicOnlyLookup } });
+  }
+
+  async check(rawUrl: string, checkOptions: UrlCheckOptions = {}): Promise<UrlCheckResult> {
+    let url: URL;
+    try {
+      url = new URL(rawUrl);
+    } catch {
+      return { allowed: false, reason: 'URL is not valid' };
+    }
+
+    if (!this.allowedSchemes.includes(url.protocol.replace(/:$/, ''))) {
+      return { allowed: false, reason: `Scheme ${url.protocol} is not allowed` };
+    }
+    if (url.username || url.password) {
+      return { allowed: false, reason: 'URLs with credentials are not allowed' };
+    }
+
+    // URL keeps IPv6 literals in brackets
+    const hostname = url.hostname.replace(/^\[(.*)\]$/, '$1');
+    if (this.options.allowedHosts && !this.options.allowedHosts.some(pattern => hostMatches(hostname, pattern))) {
+      return { allowed: false, reason: `Host ${hostname} is not in the allow-list` };
+    }
+    if (this.options.allowPrivateNetworks) {
+      return { allowed: true, addresses: [] };
+    }
+
+    if (net.isIP(hostname)) {
+      return isBlockedAddress(hostname)
+        ? { allowed: false, reason: `Address ${hostname} is not publicly routable` }
+        : { allowed: true, addresses: [hostname] };
+    }
+    if (hostname === 'localhost' || hostname.endsWith('.localhost') || !hostname.includes('.')) {
+      return { allowed: false, reason: `Host ${hostname} is internal` };
+    }
+
+    let addresses: string[];
+    try {
+      const results = await dns.promises.lookup(hostname, { all: true, verbatim: true });
+      addresses = results.map(result => result.address);
+    } catch {
+      return checkOptions.allowUnresolved
+        ? { allowed: true, addresses: [] }
+        : { allowed: false, reason: `Host ${hostname} could not be resolved` };
+    }
+
+    const blocked = addresses.find(isBlockedAddress);
+    if (blocked) {
+      return { allowed: false, reason: `Host ${hostname} resolves to non-public address ${blocked}` };
+    }
+    return { allowed: true, addresses };
+  }
+
+  /**
+   * fetch() that checks the URL right before connecting and follows redirects
+   * manually, checking every hop, so neither DNS changes since registration nor
+   * a redirect can point a request into a blocked range. Only 307/308 are
+   * followed since they keep the method and body. The connection itself is
+   * pinned to public addresses, so DNS rebinding between the check and the
+   * connect is refused too.
+   */
+  async fetch(rawUrl: string, init: RequestInit): Promise<Response> {
+    let url = rawUrl;
+    for (let hop = 0; ; hop++) {
+      const result = await this.check(url);
+      if (!result.allowed) {
+        throw new UrlPolicyError(result.reason);
+      }
+
+      // `dispatcher` is understood by Node's fetch but missing from the DOM RequestInit type
+      const response = await fetch(url, { ...init, redirect: 'manual', dispatcher: this.dispatcher } as RequestInit);
+      const location = response.headers.get('location');
+      if ((response.status !== 307 && response.status !== 308) || !location) {
+        return response;
+      }
+      if (hop >= MAX_REDIRECTS) {
+        throw new UrlPolicyError(`Stopped after ${MAX_REDIRECTS} redirects`);
+      }
+      url = new URL(location, url).toString();
+    }
+  }
+}
+
+export const webhookUrlPolicy = new UrlPolicy({
+  allowedSchemes: csv(process.env.WEBHOOK_ALLOWED_SCHEMES),
+  allowedHosts: csv(process.env.WEBHOOK_ALLOWED_HOSTS),
+  allowPrivateNetworks: process.env.WEBHOOK_ALLOW_PRIVATE_NETWORKS === 'true',
+});
@@ -0,0 +1,123 @@
+import Database from 'better-sqlite3';
+import { WEBHOOK_DELIVERY_JOB, WebhookService } from '../services/webhook.service.js';
+import { DIGEST_SEND_JOB, DigestService } from '../services/digest.service.js';
+import { DISPATCH_DEFERRED_JOB, DispatchService } from '../services/dispatch.service.js';
+import type { DeliveryStatus } from '../services/dispatch.service.js';
+import { NotificationService } from '../services/notification.service.js';
+import { PreferencesService, quietUntil } from '../services/preferences.service.js';
+import { EMAIL_SEND_JOB, EmailService } from '../services/email.service.js';
+import type { SentEmailStatus } from '../services/email.service.js';
+import { ContactService } from '../services/contact.service.js';
+import { createEmailTransport } from '../email/transport.js';
+import type { EmailTransport } from '../email/transport.js';
+import { createContactLookup } from '../contacts/lookup.js';
+import type { ContactLookup } from '../contacts/lookup.js';
+import { JobDeferredError, JobHandler } from './queue.worker.js';
+
+// Delivery status of the notifications carried by an email in a final state
+const EMAIL_OUTCOMES: Partial<Record<SentEmailStatus, DeliveryStatus>> = {
+  sent: 'delivered',
+  failed: 'failed',
+  suppressed: 'skipped',
+};
+
+export interface JobHandlerOptions {
+  emailTransport?: EmailTransport;
+  contactLookup?: ContactLookup;
+  // Where failed notification deliveries are reported; the console by default
+  logger?: Pick<Console, 'warn'>;
+}
+
+export function createJobHandlers(
+  db: Database.Database,
+  {
+    emailTransport = createEmailTransport(),
+    contactLookup = createContactLookup(),
+    logger = console,
+  }: JobHandlerOptions = {},
+): Record<string, JobHandler> {
+  return {
+    [WEBHOOK_DELIVERY_JOB]: async job => {
+      const service = new WebhookService(db);
+      const deliveryId = job.payload.deliveryId as string;
+
+      const decision = service.checkDelivery(deliveryId);
+      if (decision.action === 'defer') {
+        throw new JobDeferredError(decision.retryAt, decision.reason ?? 'Webhook circuit is open');
+      }
+      if (decision.action === 'abandon') {
+        service.abandonDelivery(deliveryId);
+        return;
+      }
+
+      const result = await service.attemptDelivery(deliveryId, job.attempts >= job.maxAttempts);
+      if (!result.ok) {
+        throw new Error(result.error ?? 'Webhook delivery failed');
+      }
+    },
+
+    [EMAIL_SEND_JOB]: async job => {
+      const emailId = job.payload.emailId as string;
+      const emails = new EmailService(db);
+      const result = await emails.deliver(emailId, emailTransport, job.attempts >= job.maxAttempts);
+
+      // Only a final state is mirrored; an email that will be retried stays queued on its notifications
+      const email = emails.getById(emailId);
+      const outcome = email && EMAIL_OUTCOMES[email.status];
+      if (outcome) {
+        new NotificationService(db).recordEmailOutcome(emailId, outcome, email.error);
+      }
+
+      if (!result.ok && !result.permanent) {
+        throw new Error(result.error ?? 'Email send failed');
+      }
+    },
+
+    [DIGEST_SEND_JOB]: async job => {
+      const service = new DigestService(db);
+      const digest = service.getById(job.payload.digestId as string);
+      if (!digest) return;
+
+      const until = quietUntil(new PreferencesService(db).get(digest.userId), 'digest');
+      if (until) {
+        throw new JobDeferredError(until, 'Recipient is in quiet hours');
+      }
+      service.send(digest.id);
+    },
+
+    [DISPATCH_DEFERRED_JOB]: async job => {
+      const notifications = new NotificationService(db);
+      const notification = notifications.getById(job.payload.notificationId as string);
+      if (!notification) return;
+
+      // Do-not-disturb may have been extended while the delivery waited
+      const until = quietUntil(new PreferencesService(db).get(notification.userId), notification.type);
+      if (until) {
+        throw new JobDeferredError(until, 'Recipient is in quiet hours');
+      }
+
+      let email = (job.payload.email as string | null) ?? undefined;
+      if (notification.channel === 'email' && !email) {
+        try {
+          email = (await new ContactService(db).resolve(notification.userId, contactLookup))?.email;
+        } catch (err) {
+          if (job.attempts < job.maxAttempts) throw err;
+          const error = `Contact lookup failed: ${(err as Error).message}`;
+          logger.warn(`Email delivery of notification ${notification.id} failed: ${error}`);
+          notifications.recordDelivery(notification.id, { channel: 'email', status: 'failed', error, references: [] });
+          return;
+        }
+      }
+
+      const result = new DispatchService(db).dispatch(
+        notification,
+        { email },
+        { digestible: job.payload.digestible as boolean, ignoreQuietHours: true, recipientResolved: true },
+      );
+      if (result.status === 'failed') {
+        logger.warn(`${result.channel} delivery of notification ${notification.id} failed: ${result.error}`);
+      }
+      notifications.recordDelivery(notification.id, result);
+    },
+  };
+}
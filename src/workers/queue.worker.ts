@@ -0,0 +1,101 @@
+import Database from 'better-sqlite3';
+import { nanoid } from 'nanoid';
+import { Job, QueueService } from '../services/queue.service.js';
+
+export type JobHandler = (job: Job) => Promise<void>;
+
+/** Thrown by a handler to postpone a job to `runAt` without using up an attempt. */
+export class JobDeferredError extends Error {
+  constructor(public runAt: Date, message = 'Job deferred') {
+    super(message);
+    this.name = 'JobDeferredError';
+  }
+}
+
+export interface QueueWorkerOptions {
+  pollIntervalMs?: number;
+  leaseMs?: number;
+  batchSize?: number;
+}
+
+/**
+ * Polls the jobs table and runs due jobs through the handler registered for
+ * their type. A handler signals failure by throwing; the queue then
+ * reschedules the job with backoff or marks it failed. Throwing
+ * JobDeferredError postpones the job instead.
+ */
+export class QueueWorker {
+  private readonly id = `worker-${nanoid(8)}`;
+  private readonly queue: QueueService;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private current: Promise<number> | null = null;
+
+  constructor(
+    db: Database.Database,
+    private handlers: Record<string, JobHandler>,
+    private options: QueueWorkerOptions = {},
+  ) {
+    this.queue = new QueueService(db);
+  }
+
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+
+    const tick = async () => {
+      try {
+        this.current = this.runOnce();
+        await this.current;
+      } catch (err) {
+        console.error('Queue worker tick failed:', err);
+      } finally {
+        this.current = null;
+        if (this.running) {
+          this.timer = setTimeout(tick, this.options.pollIntervalMs ?? 1000);
+        }
+      }
+    };
+
+    this.timer = setTimeout(tick, 0);
+  }
+
+  async stop(): Promise<void> {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    await this.current?.catch(() => undefined);
+  }
+
+  /** Leases one batch of due jobs and runs them. Returns how many were processed. */
+  async runOnce(): Promise<number> {
+    const jobs = this.queue.lease(this.id, {
+      limit: this.options.batchSize ?? 10,
+      leaseMs: this.options.leaseMs,
+    });
+
+    await Promise.all(jobs.map(job => this.process(job)));
+    return jobs.length;
+  }
+
+  private async process(job: Job): Promise<void> {
+    const handler = this.handlers[job.type];
+    if (!handler) {
+      this.queue.fail(job.id, `No handler registered for job type "${job.type}"`);
+      return;
+    }
+
+    try {
+      await handler(job);
+      this.queue.complete(job.id);
+    } catch (err) {
+      if (err instanceof JobDeferredError) {
+        this.queue.release(job.id, err.runAt);
+        return;
+      }
+      this.queue.fail(job.id, (err as Error).message);
+    }
+  }
+}
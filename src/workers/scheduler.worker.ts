@@ -0,0 +1,50 @@
+import Database from 'better-sqlite3';
+import { ScheduledNotificationService } from '../services/scheduled-notification.service.js';
+
+export interface NotificationSchedulerOptions {
+  pollIntervalMs?: number;
+  batchSize?: number;
+}
+
+/** Polls scheduled_notifications and sends the ones that are due. */
+export class NotificationScheduler {
+  private readonly service: ScheduledNotificationService;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(db: Database.Database, private options: NotificationSchedulerOptions = {}) {
+    this.service = new ScheduledNotificationService(db);
+  }
+
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+
+    const tick = () => {
+      try {
+        this.runOnce();
+      } catch (err) {
+        console.error('Notification scheduler tick failed:', err);
+      } finally {
+        if (this.running) {
+          this.timer = setTimeout(tick, this.options.pollIntervalMs ?? 1000);
+        }
+      }
+    };
+
+    this.timer = setTimeout(tick, 0);
+  }
+
+  stop(): void {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /** Sends one batch of due scheduled notifications. Returns how many were processed. */
+  runOnce(now = new Date()): number {
+    return this.service.fireDue(now, this.options.batchSize ?? 50);
+  }
+}
@@ -0,0 +1,270 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import request from 'supertest';
+import Database from 'better-sqlite3';
+import { createApp } from '../src/server.js';
+import { initializeDatabase } from '../src/db/schema.js';
+import { ContactService } from '../src/services/contact.service.js';
+import { EmailService } from '../src/services/email.service.js';
+import { NotificationService } from '../src/services/notification.service.js';
+import { PreferencesService } from '../src/services/preferences.service.js';
+import { QueueService } from '../src/services/queue.service.js';
+import { DISPATCH_DEFERRED_JOB } from '../src/services/dispatch.service.js';
+import { QueueWorker } from '../src/workers/queue.worker.js';
+import { createJobHandlers } from '../src/workers/job-handlers.js';
+import { MemoryTransport } from '../src/email/memory.transport.js';
+import {
+  NoContactLookup,
+  StubContactLookup,
+  UserServiceContactLookup,
+  createContactLookup,
+} from '../src/contacts/lookup.js';
+import type { ContactLookup } from '../src/contacts/lookup.js';
+
+function dispatchJob(db: Database.Database, notificationId: string) {
+  const row = db.prepare(
+    "SELECT id FROM jobs WHERE type = ? AND json_extract(payload, '$.notificationId') = ?"
+  ).get(DISPATCH_DEFERRED_JOB, notificationId) as { id: string };
+  return new QueueService(db).getById(row.id)!;
+}
+
+describe('Contacts', () => {
+  let app: ReturnType<typeof createApp>['app'];
+  let db: Database.Database;
+
+  const serviceHeaders = { 'x-service-token': 'nexus-internal-service-token' };
+
+  const sendInvite = (userId: string, extra: Record<string, unknown> = {}) => new NotificationService(db).send({
+    userId,
+    type: 'project_invited',
+    title: 'Invite',
+    body: 'Join the project',
+    channels: ['email'],
+    ...extra,
+  })[0];
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+    initializeDatabase(db);
+    ({ app } = createApp({ db }));
+  });
+
+  afterEach(() => {
+    db.close();
+    vi.unstubAllGlobals();
+  });
+
+  describe('Routes', () => {
+    it('PUT /contacts/:userId creates and replaces a contact', async () => {
+      const created = await request(app)
+        .put('/contacts/user-1')
+        .set(serviceHeaders)
+        .send({ email: 'ana@example.com', displayName: 'Ana Silva', locale: 'pt-BR', timezone: 'America/Sao_Paulo' });
+
+      expect(created.status).toBe(200);
+      expect(created.body.data).toMatchObject({
+        userId: 'user-1',
+        email: 'ana@example.com',
+        displayName: 'Ana Silva',
+        locale: 'pt-BR',
+        timezone: 'America/Sao_Paulo',
+        source: 'sync',
+      });
+
+      const replaced = await request(app).put('/contacts/user-1').set(serviceHeaders).send({ email: 'ana@new.example.com' });
+      expect(replaced.body.data).toMatchObject({ email: 'ana@new.example.com', displayName: null, locale: null });
+
+      const fetched = await request(app).get('/contacts/user-1').set(serviceHeaders);
+      expect(fetched.body.data.email).toBe('ana@new.example.com');
+    });
+
+    it('POST /contacts/sync upserts a batch', async () => {
+      const res = await request(app)
+        .post('/contacts/sync')
+        .set(serviceHeaders)
+        .send({ contacts: [{ userId: 'a', email: 'a@example.com' }, { userId: 'b', email: 'b@example.com', locale: 'es' }] });
+
+      expect(res.status).toBe(200);
+      expect(res.body.data).toEqual({ synced: 2 });
+      expect(new ContactService(db).get('b')).toMatchObject({ email: 'b@example.com', locale: 'es' });
+    });
+
+    it('validates contacts', async () => {
+      const put = (body: Record<string, unknown>) => request(app).put('/contacts/user-1').set(serviceHeaders).send(body);
+
+      expect((await put({ email: 'not-an-address' })).status).toBe(400);
+      expect((await put({ email: 'a@example.com', locale: 'not a locale' })).status).toBe(400);
+      expect((await put({ email: 'a@example.com', timezone: 'Mars/Olympus' })).status).toBe(400);
+      expect((await put({ email: 'a@example.com', phone: '555' })).status).toBe(400);
+
+      const sync = await request(app).post('/contacts/sync').set(serviceHeaders).send({ contacts: [{ email: 'a@example.com' }] });
+      expect(sync.status).toBe(400);
+    });
+
+    it('DELETE /contacts/:userId forgets the contact', async () => {
+      new ContactService(db).upsert('user-1', { email: 'ana@example.com' });
+
+      const res = await request(app).delete('/contacts/user-1').set(serviceHeaders);
+      expect(res.status).toBe(200);
+      expect(new ContactService(db).get('user-1')).toBeNull();
+
+      await request(app).delete('/contacts/user-1').set(serviceHeaders).expect(404);
+      await request(app).get('/contacts/user-1').set(serviceHeaders).expect(404);
+    });
+
+    it('requires the service token', async () => {
+      await request(app).get('/contacts/user-1').expect(403);
+      await request(app)
+        .put('/contacts/user-1')
+        .set({ 'x-user-id': 'user-1', 'x-user-email': 'ana@example.com' })
+        .send({ email: 'ana@example.com' })
+        .expect(403);
+    });
+  });
+
+  describe('Dispatch', () => {
+    it('emails the address and name from the directory', async () => {
+      new ContactService(db).upsert('user-1', { email: 'ana@example.com', displayName: 'Ana Silva' });
+
+      const notification = sendInvite('user-1');
+      expect(notification.delivery!.status).toBe('queued');
+
+      const email = new EmailService(db).getById(notification.delivery!.references[0])!;
+      expect(email).toMatchObject({ toEmail: 'ana@example.com', toName: 'Ana Silva' });
+
+      const transport = new MemoryTransport();
+      await new QueueWorker(db, createJobHandlers(db, { emailTransport: transport })).runOnce();
+      expect(transport.messages[0].raw.toString()).toContain('To: Ana Silva <ana@example.com>');
+    });
+
+    it('lets an explicit address override the directory', () => {
+      new ContactService(db).upsert('user-1', { email: 'ana@example.com', displayName: 'Ana Silva' });
+
+      const notification = sendInvite('user-1', { email: 'other@example.com' });
+      const email = new EmailService(db).getById(notification.delivery!.references[0])!;
+      expect(email).toMatchObject({ toEmail: 'other@example.com', toName: null });
+    });
+
+    it('resolves unknown recipients through the lookup and caches them', async () => {
+      const notification = sendInvite('user-2');
+      expect(notification.delivery).toMatchObject({ status: 'queued', references: [] });
+
+      const transport = new MemoryTransport();
+      const worker = new QueueWorker(
+        db,
+        createJobHandlers(db, { emailTransport: transport, contactLookup: new StubContactLookup('users.test') }),
+      );
+      await worker.runOnce();
+      await worker.runOnce();
+
+      const delivered = new NotificationService(db).getById(notification.id)!;
+      expect(delivered.delivery!.status).toBe('delivered');
+      expect(transport.messages[0].envelope.to).toEqual(['user-2@users.test']);
+      expect(new ContactService(db).get('user-2')).toMatchObject({ email: 'user-2@users.test', source: 'lookup' });
+    });
+
+    it('drops invalid fields of a lookup answer before caching it', async () => {
+      const lookup: ContactLookup = {
+        name: 'sloppy',
+        lookup: vi.fn()
+          .mockResolvedValueOnce({ email: 'ok@example.com', displayName: '', locale: 'en_US', timezone: 'Not/AZone' })
+          .mockResolvedValueOnce({ email: 'not an address', displayName: 'Bob', locale: 'en', timezone: 'UTC' }),
+      };
+      const contacts = new ContactService(db);
+
+      expect(await contacts.resolve('user-sloppy', lookup)).toMatchObject({
+        email: 'ok@example.com',
+        displayName: null,
+        locale: null,
+        timezone: null,
+        source: 'lookup',
+      });
+      expect(new PreferencesService(db).get('user-sloppy').timezone).toBe('UTC');
+
+      expect(await contacts.resolve('user-broken', lookup)).toBeNull();
+      expect(contacts.get('user-broken')).toBeNull();
+    });
+
+    it('retries a failing lookup and records the error on the final attempt', async () => {
+      const lookup: ContactLookup = {
+        name: 'down',
+        lookup: vi.fn().mockRejectedValue(new Error('User service responded with 503')),
+      };
+      const logger = { warn: vi.fn() };
+      const handler = createJobHandlers(db, { contactLookup: lookup, logger })[DISPATCH_DEFERRED_JOB];
+      const notification = sendInvite('user-3');
+      const job = dispatchJob(db, notification.id);
+
+      await expect(handler({ ...job, attempts: 1 })).rejects.toThrow(/503/);
+      expect(new NotificationService(db).getById(notification.id)!.delivery!.status).toBe('queued');
+
+      await handler({ ...job, attempts: job.maxAttempts });
+      expect(new NotificationService(db).getById(notification.id)!.delivery).toMatchObject({
+        status: 'failed',
+        error: 'Contact lookup failed: User service responded with 503',
+      });
+    });
+
+    it('renders templates in the contact locale unless one is given', async () => {
+      new ContactService(db).upsert('user-es', { email: 'es@example.com', locale: 'es' });
+      const send = (body: Record<string, unknown>) => request(app)
+        .post('/notifications/send')
+        .set(serviceHeaders)
+        .send({
+          userId: 'user-es',
+          type: 'project_invited',
+          templateId: 'project_invited',
+          variables: { actorName: 'Ana', projectName: 'Apollo' },
+          channels: ['in_app'],
+          ...body,
+        });
+
+      expect((await send({})).body.data[0].title).toBe('Te invitaron a Apollo');
+      expect((await send({ locale: 'en' })).body.data[0].title).toBe('You were invited to Apollo');
+    });
+
+    it('defaults the preference time zone to the contact time zone', () => {
+      const contacts = new ContactService(db);
+      contacts.upsert('user-tz', { email: 'tz@example.com', timezone: 'Europe/Lisbon' });
+
+      const preferences = new PreferencesService(db);
+      expect(preferences.get('user-tz').timezone).toBe('Europe/Lisbon');
+      expect(preferences.get('someone-else').timezone).toBe('UTC');
+
+      preferences.update('user-tz', { timezone: 'Asia/Tokyo' });
+      expect(preferences.get('user-tz').timezone).toBe('Asia/Tokyo');
+    });
+  });
+
+  describe('Lookups', () => {
+    it('asks the user service with the service token', async () => {
+      const fetchMock = vi.fn()
+        .mockResolvedValueOnce(Response.json({
+          success: true,
+          data: { id: 'user-1', email: 'ana@example.com', name: 'Ana Silva', timezone: 'Europe/Lisbon' },
+        }))
+        .mockResolvedValueOnce(new Response('', { status: 404 }))
+        .mockResolvedValueOnce(new Response('', { status: 502 }));
+      vi.stubGlobal('fetch', fetchMock);
+
+      const lookup = new UserServiceContactLookup('http://users.internal/', 'secret');
+      expect(await lookup.lookup('user-1')).toEqual({
+        email: 'ana@example.com',
+        displayName: 'Ana Silva',
+        locale: null,
+        timezone: 'Europe/Lisbon',
+      });
+      expect(fetchMock.mock.calls[0][0]).toBe('http://users.internal/users/user-1');
+      expect(fetchMock.mock.calls[0][1].headers).toMatchObject({ 'x-service-token': 'secret' });
+
+      expect(await lookup.lookup('missing')).toBeNull();
+      await expect(lookup.lookup('user-1')).rejects.toThrow(/502/);
+    });
+
+    it('builds the configured lookup', async () => {
+      expect(createContactLookup('none')).toBeInstanceOf(NoContactLookup);
+      expect(await createContactLookup('stub').lookup('u1')).toMatchObject({ email: 'u1@users.nexus.local' });
+      expect(createContactLookup('user-service')).toBeInstanceOf(UserServiceContactLookup);
+      expect(() => createContactLookup('ldap')).toThrow(/Unknown CONTACT_LOOKUP/);
+    });
+  });
+});
@@ -0,0 +1,189 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import Database from 'better-sqlite3';
+import { initializeDatabase } from '../src/db/schema.js';
+import { DIGEST_SEND_JOB, DigestService, nextDigestAt } from '../src/services/digest.service.js';
+import { EmailService } from '../src/services/email.service.js';
+import { NotificationService } from '../src/services/notification.service.js';
+import { PreferencesService } from '../src/services/preferences.service.js';
+import { QueueService } from '../src/services/queue.service.js';
+import { createJobHandlers } from '../src/workers/job-handlers.js';
+import { JobDeferredError } from '../src/workers/queue.worker.js';
+import { zonedTimeToUtc } from '../src/utils/timezone.js';
+
+describe('Digests', () => {
+  let db: Database.Database;
+
+  beforeAll(() => {
+    db = new Database(':memory:');
+    initializeDatabase(db);
+  });
+
+  afterAll(() => {
+    db.close();
+  });
+
+  afterEach(() => {
+    db.exec('DELETE FROM jobs;');
+  });
+
+  function sendComment(userId: string, title: string, extra: Record<string, unknown> = {}) {
+    return new NotificationService(db).send({
+      userId,
+      type: 'comment_added',
+      title,
+      body: `${title} body`,
+      channels: ['in_app', 'email'],
+      email: `${userId}@example.com`,
+      ...extra,
+    });
+  }
+
+  function digestJobs() {
+    return db.prepare('SELECT * FROM jobs WHERE type = ?').all(DIGEST_SEND_JOB) as { payload: string; next_attempt_at: string }[];
+  }
+
+  describe('nextDigestAt', () => {
+    const now = new Date('2024-03-06T10:20:00Z'); // Wednesday
+
+    it('schedules hourly digests for the top of the next hour', () => {
+      expect(nextDigestAt({ frequency: 'hourly', time: '09:00', dayOfWeek: 1 }, 'UTC', now).toISOString())
+        .toBe('2024-03-06T11:00:00.000Z');
+    });
+
+    it('schedules daily digests at the next local time', () => {
+      // 09:00 in New York (UTC-5 in early March) is 14:00 UTC, still ahead today
+      expect(nextDigestAt({ frequency: 'daily', time: '09:00', dayOfWeek: 1 }, 'America/New_York', now).toISOString())
+        .toBe('2024-03-06T14:00:00.000Z');
+      // 09:00 in Berlin (UTC+1) has passed, so tomorrow
+      expect(nextDigestAt({ frequency: 'daily', time: '09:00', dayOfWeek: 1 }, 'Europe/Berlin', now).toISOString())
+        .toBe('2024-03-07T08:00:00.000Z');
+    });
+
+    it('schedules weekly digests on the chosen weekday', () => {
+      expect(nextDigestAt({ frequency: 'weekly', time: '09:00', dayOfWeek: 1 }, 'UTC', now).toISOString())
+        .toBe('2024-03-11T09:00:00.000Z');
+      // Same weekday but the time has passed: a week later
+      expect(nextDigestAt({ frequency: 'weekly', time: '08:00', dayOfWeek: 3 }, 'UTC', now).toISOString())
+        .toBe('2024-03-13T08:00:00.000Z');
+    });
+
+    it('follows daylight saving changes', () => {
+      // New York switches to UTC-4 on 2024-03-10
+      const saturday = new Date('2024-03-09T20:00:00Z');
+      expect(nextDigestAt({ frequency: 'weekly', time: '09:00', dayOfWeek: 0 }, 'America/New_York', saturday).toISOString())
+        .toBe('2024-03-10T13:00:00.000Z');
+      // 02:30 is skipped that night and resolves to 03:30 EDT
+      expect(zonedTimeToUtc({ year: 2024, month: 3, day: 10, hour: 2, minute: 30 }, 'America/New_York').toISOString())
+        .toBe('2024-03-10T07:30:00.000Z');
+      expect(zonedTimeToUtc({ year: 2024, month: 3, day: 10, hour: 3, minute: 30 }, 'America/New_York').toISOString())
+        .toBe('2024-03-10T07:30:00.000Z');
+    });
+  });
+
+  describe('Buffering', () => {
+    it('sends email immediately on the default schedule', () => {
+      const [, email] = sendComment('immediate-user', 'Now');
+      expect(email.delivery!.status).toBe('queued');
+      expect(email.digestId).toBeNull();
+      expect(digestJobs()).toHaveLength(0);
+    });
+
+    it('buffers digestible email into one pending digest per schedule', () => {
+      new PreferencesService(db).update('daily-user', { digest: { frequency: 'daily', time: '09:00' } });
+      const before = new EmailService(db).list().length;
+
+      const [inApp, first] = sendComment('daily-user', 'First');
+      const [, second] = sendComment('daily-user', 'Second');
+
+      expect(inApp.delivery!.status).toBe('delivered');
+      expect(first.delivery!.status).toBe('queued');
+      expect(first.digestId).not.toBeNull();
+      expect(second.digestId).toBe(first.digestId);
+      expect(first.delivery!.references).toEqual([first.digestId]);
+      expect(new EmailService(db).list()).toHaveLength(before);
+
+      const digest = new DigestService(db).getById(first.digestId!)!;
+      expect(digest.status).toBe('pending');
+      expect(digest.notificationIds.sort()).toEqual([first.id, second.id].sort());
+      expect(digestJobs()).toHaveLength(1);
+      expect(digestJobs()[0].next_attempt_at).toBe(digest.scheduledFor);
+    });
+
+    it('does not buffer types that are not digestible', () => {
+      new PreferencesService(db).update('mixed-user', { digest: { frequency: 'hourly' } });
+      const [email] = new NotificationService(db).send({
+        userId: 'mixed-user',
+        type: 'project_invited',
+        title: 'Invite',
+        body: 'Body',
+        channels: ['email'],
+        email: 'mixed@example.com',
+      });
+      expect(email.delivery!.status).toBe('queued');
+
+      const [forced] = sendComment('mixed-user', 'Urgent', { channels: ['email'], digestible: false });
+      expect(forced.delivery!.status).toBe('queued');
+      expect(forced.digestId).toBeNull();
+    });
+  });
+
+  describe('Sending', () => {
+    it('renders buffered notifications into one email and links them to it', async () => {
+      new PreferencesService(db).update('send-user', { digest: { frequency: 'hourly' } });
+      const [, first] = sendComment('send-user', 'Alpha');
+      const [, second] = sendComment('send-user', 'Beta');
+      const digestId = first.digestId!;
+
+      const [job] = new QueueService(db).lease('test', { now: new Date(Date.now() + 2 * 60 * 60 * 1000) })
+        .filter(j => j.type === DIGEST_SEND_JOB);
+      await createJobHandlers(db)[DIGEST_SEND_JOB](job);
+
+      const digest = new DigestService(db).getById(digestId)!;
+      expect(digest.status).toBe('sent');
+      expect(digest.sentAt).not.toBeNull();
+
+      const email = new EmailService(db).list().find(e => e.id === digest.emailId)!;
+      expect(email.toEmail).toBe('send-user@example.com');
+      expect(email.subject).toBe('Your hourly digest: 2 new notifications');
+      expect(email.body).toContain('Alpha');
+      expect(email.body).toContain('Beta body');
+
+      const stored = new NotificationService(db).list('send-user', { channels: ['email'] }).items;
+      for (const notification of stored) {
+        expect([first.id, second.id]).toContain(notification.id);
+        expect(notification.delivery).toEqual({ status: 'queued', error: null, references: [digestId, email.id] });
+      }
+
+      const [summary] = new NotificationService(db).list('send-user', { types: ['digest'] }).items;
+      expect(summary.channel).toBe('in_app');
+      expect(summary.metadata).toEqual({ digestId, emailId: email.id });
+    });
+
+    it('waits for quiet hours to end before sending', async () => {
+      const preferences = new PreferencesService(db);
+      preferences.update('quiet-digest-user', {
+        digest: { frequency: 'hourly' },
+        doNotDisturbUntil: new Date(Date.now() + 3 * 60 * 60 * 1000).toISOString(),
+      });
+      const [, held] = sendComment('quiet-digest-user', 'Hushed');
+
+      const [job] = new QueueService(db).lease('test', { now: new Date(Date.now() + 2 * 60 * 60 * 1000) })
+        .filter(j => j.type === DIGEST_SEND_JOB);
+      const error = await createJobHandlers(db)[DIGEST_SEND_JOB](job).catch(err => err);
+      expect(error).toBeInstanceOf(JobDeferredError);
+      expect((error as JobDeferredError).runAt.toISOString()).toBe(preferences.get('quiet-digest-user').doNotDisturbUntil);
+      expect(new DigestService(db).getById(held.digestId!)!.status).toBe('pending');
+    });
+
+    it('starts a new digest after one was sent and ignores repeat sends', () => {
+      const service = new DigestService(db);
+      const [, next] = sendComment('send-user', 'Gamma');
+      const sent = db.prepare("SELECT id FROM digests WHERE user_id = 'send-user' AND status = 'sent'").get() as { id: string };
+
+      expect(next.digestId).not.toBe(sent.id);
+      const emails = new EmailService(db).list().length;
+      expect(service.send(sent.id)!.status).toBe('sent');
+      expect(new EmailService(db).list()).toHaveLength(emails);
+    });
+  });
+});
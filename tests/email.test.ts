@@ -0,0 +1,326 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import Database from 'better-sqlite3';
+import request from 'supertest';
+import { createApp } from '../src/server.js';
+import { initializeDatabase } from '../src/db/schema.js';
+import { EMAIL_SEND_JOB, EmailService } from '../src/services/email.service.js';
+import { NotificationService } from '../src/services/notification.service.js';
+import { QueueService } from '../src/services/queue.service.js';
+import { QueueWorker } from '../src/workers/queue.worker.js';
+import { createJobHandlers } from '../src/workers/job-handlers.js';
+import { EmailTransportError, createEmailTransport } from '../src/email/transport.js';
+import type { EmailMessage, EmailTransport } from '../src/email/transport.js';
+import { MemoryTransport } from '../src/email/memory.transport.js';
+import { FileTransport, MaildirTransport } from '../src/email/file.transport.js';
+import { buildRawMessage } from '../src/email/mime.js';
+
+function failingTransport(error: Error): EmailTransport {
+  return {
+    name: 'failing',
+    send: async () => {
+      throw error;
+    },
+    close: async () => {},
+  };
+}
+
+function emailJob(db: Database.Database, emailId: string) {
+  const row = db.prepare(
+    "SELECT id FROM jobs WHERE type = ? AND json_extract(payload, '$.emailId') = ?"
+  ).get(EMAIL_SEND_JOB, emailId) as { id: string };
+  return new QueueService(db).getById(row.id)!;
+}
+
+describe('Email', () => {
+  let db: Database.Database;
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+    initializeDatabase(db);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  describe('EmailService', () => {
+    it('records the email as queued and leaves sending to the queue', () => {
+      const email = new EmailService(db).send({ to: 'queued@example.com', subject: 'Hello', text: 'Body' });
+
+      expect(email).toMatchObject({ status: 'queued', attempts: 0, error: null, sentAt: null });
+      expect(email.messageId).toBe(`<${email.id}@nexus.local>`);
+      expect(new QueueService(db).hasActiveJob(EMAIL_SEND_JOB, 'emailId', email.id)).toBe(true);
+    });
+
+    it('sends through the transport and stores the outcome', async () => {
+      const service = new EmailService(db);
+      const transport = new MemoryTransport();
+      const email = service.send({ to: 'sent@example.com', subject: 'Hello', text: 'Text', html: '<p>Text</p>' });
+
+      await new QueueWorker(db, createJobHandlers(db, { emailTransport: transport })).runOnce();
+
+      expect(transport.messages).toHaveLength(1);
+      const [{ message, envelope, raw }] = transport.messages;
+      expect(message).toMatchObject({
+        messageId: email.messageId,
+        from: 'Nexus <notifications@nexus.local>',
+        to: 'sent@example.com',
+        subject: 'Hello',
+        text: 'Text',
+        html: '<p>Text</p>',
+      });
+      expect(envelope).toEqual({ from: 'notifications@nexus.local', to: ['sent@example.com'] });
+
+      const sent = service.getById(email.id)!;
+      expect(sent).toMatchObject({ status: 'sent', attempts: 1, error: null });
+      expect(sent.sentAt).not.toBeNull();
+      expect(service.getRawMessage(email.id)).toBe(raw.toString('utf8'));
+    });
+
+    it('keeps the email queued between attempts and fails it on the last one', async () => {
+      const service = new EmailService(db);
+      const transport = failingTransport(new Error('Connection refused'));
+      const email = service.send({ to: 'retry@example.com', subject: 'Hello', text: 'Body' });
+
+      expect(await service.deliver(email.id, transport, false)).toEqual({
+        ok: false,
+        error: 'Connection refused',
+        permanent: false,
+      });
+      expect(service.getById(email.id)).toMatchObject({ status: 'queued', attempts: 1, error: 'Connection refused' });
+
+      await service.deliver(email.id, transport, true);
+      expect(service.getById(email.id)).toMatchObject({ status: 'failed', attempts: 2 });
+    });
+
+    it('rejects headers it sets itself and header injection', () => {
+      const service = new EmailService(db);
+      const draft = { to: 'headers@example.com', subject: 'Hello', text: 'Body' };
+
+      expect(() => service.send({ ...draft, headers: { Subject: 'Other' } })).toThrow(/cannot be set/);
+      expect(() => service.send({ ...draft, headers: { 'Bad Name': 'x' } })).toThrow(/cannot be set/);
+      expect(() => service.send({ ...draft, headers: { 'X-Tag': 'a\r\nBcc: evil@example.com' } })).toThrow(/line break/);
+      expect(service.list()).toHaveLength(0);
+    });
+
+    it('does not send an email twice', async () => {
+      const service = new EmailService(db);
+      const transport = new MemoryTransport();
+      const email = service.send({ to: 'once@example.com', subject: 'Hello', text: 'Body' });
+
+      await service.deliver(email.id, transport, false);
+      expect(await service.deliver(email.id, transport, false)).toMatchObject({ ok: true });
+      expect(transport.messages).toHaveLength(1);
+    });
+  });
+
+  describe('Retries', () => {
+    it('retries a failed send through the queue', async () => {
+      const email = new EmailService(db).send({ to: 'flaky@example.com', subject: 'Hello', text: 'Body' });
+      const handlers = createJobHandlers(db, { emailTransport: failingTransport(new Error('421 Try again later')) });
+
+      await new QueueWorker(db, handlers).runOnce();
+
+      const job = emailJob(db, email.id);
+      expect(job.status).toBe('pending');
+      expect(job.lastError).toBe('421 Try again later');
+      expect(new EmailService(db).getById(email.id)!.status).toBe('queued');
+    });
+
+    it('gives up right away on a permanent rejection', async () => {
+      const email = new EmailService(db).send({ to: 'unknown@example.com', subject: 'Hello', text: 'Body' });
+      const transport = failingTransport(new EmailTransportError('550 No such user', true));
+
+      await new QueueWorker(db, createJobHandlers(db, { emailTransport: transport })).runOnce();
+
+      expect(emailJob(db, email.id).status).toBe('completed');
+      expect(new EmailService(db).getById(email.id)).toMatchObject({
+        status: 'failed',
+        attempts: 1,
+        error: '550 No such user',
+      });
+    });
+  });
+
+  describe('Notification delivery status', () => {
+    const sendNotification = (email: string) => new NotificationService(db).send({
+      userId: 'status-user',
+      type: 'project_invited',
+      title: 'Invite',
+      body: 'Join the project',
+      channels: ['email'],
+      email,
+    })[0];
+
+    it('marks the notification delivered once the transport accepts the email', async () => {
+      const notification = sendNotification('accepted@example.com');
+      expect(notification.delivery!.status).toBe('queued');
+
+      await new QueueWorker(db, createJobHandlers(db, { emailTransport: new MemoryTransport() })).runOnce();
+
+      expect(new NotificationService(db).getById(notification.id)!.delivery).toMatchObject({
+        status: 'delivered',
+        error: null,
+        references: notification.delivery!.references,
+      });
+    });
+
+    it('keeps the notification queued between retries and fails it with the email', async () => {
+      const notification = sendNotification('flaky@example.com');
+      const handlers = createJobHandlers(db, { emailTransport: failingTransport(new Error('421 Try again later')) });
+
+      await new QueueWorker(db, handlers).runOnce();
+      expect(new NotificationService(db).getById(notification.id)!.delivery!.status).toBe('queued');
+
+      const permanent = createJobHandlers(db, { emailTransport: failingTransport(new EmailTransportError('550 No such user', true)) });
+      const job = emailJob(db, notification.delivery!.references[0]);
+      await permanent[EMAIL_SEND_JOB](job);
+      expect(new NotificationService(db).getById(notification.id)!.delivery).toMatchObject({
+        status: 'failed',
+        error: '550 No such user',
+      });
+    });
+  });
+
+  describe('MIME rendering', () => {
+    const logo = Buffer.from('fake png bytes').toString('base64');
+
+    it('renders text and HTML as multipart/alternative', async () => {
+      const { raw } = await buildRawMessage({
+        messageId: '<alt@nexus.local>',
+        from: 'Nexus <notifications@nexus.local>',
+        to: 'reader@example.com',
+        subject: 'Hello',
+        text: 'Plain',
+        html: '<p>Rich</p>',
+      });
+      const text = raw.toString('utf8');
+      expect(text).toMatch(/Content-Type: multipart\/alternative/);
+      expect(text).toContain('Content-Type: text/plain');
+      expect(text).toContain('Content-Type: text/html');
+      expect(text).not.toContain('multipart/mixed');
+    });
+
+    it('adds recipients, headers, attachments and inline images', async () => {
+      const { raw, envelope } = await buildRawMessage({
+        messageId: '<rich@nexus.local>',
+        from: 'Nexus <notifications@nexus.local>',
+        to: 'reader@example.com',
+        cc: ['lead@example.com'],
+        bcc: ['audit@example.com'],
+        replyTo: 'support@example.com',
+        subject: 'Report',
+        text: 'See attached',
+        html: '<p><img src="cid:logo@nexus"> See attached</p>',
+        headers: { 'X-Nexus-Notification': 'n1' },
+        attachments: [
+          { filename: 'logo.png', contentType: 'image/png', content: logo, contentId: 'logo@nexus' },
+          { filename: 'report.csv', contentType: 'text/csv', content: Buffer.from('a,b\n1,2').toString('base64') },
+        ],
+        listUnsubscribe: 'https://nexus.example.com/unsubscribe/abc',
+      });
+      const text = raw.toString('utf8');
+
+      expect(text).toContain('Cc: lead@example.com');
+      expect(text).toContain('Reply-To: support@example.com');
+      expect(text).toContain('X-Nexus-Notification: n1');
+      expect(text).toContain('List-Unsubscribe: <https://nexus.example.com/unsubscribe/abc>');
+      expect(text).toMatch(/Content-Type: multipart\/mixed/);
+      expect(text).toMatch(/Content-Type: multipart\/related/);
+      expect(text).toContain('Content-ID: <logo@nexus>');
+      expect(text).toContain('Content-Disposition: inline; filename=logo.png');
+      expect(text).toContain('Content-Disposition: attachment; filename=report.csv');
+      expect(text).not.toContain('audit@example.com');
+      expect(envelope.to).toEqual(['reader@example.com', 'lead@example.com', 'audit@example.com']);
+    });
+  });
+
+  describe('Routes', () => {
+    const serviceHeaders = { 'x-service-token': 'nexus-internal-service-token' };
+
+    it('shows the delivery record and the raw message', async () => {
+      const { app } = createApp({ db });
+      const service = new EmailService(db);
+      const email = service.send({
+        to: 'support@example.com',
+        subject: 'Hello',
+        text: 'Body',
+        attachments: [{ filename: 'a.txt', contentType: 'text/plain', content: Buffer.from('hello').toString('base64') }],
+      });
+
+      const record = await request(app).get(`/emails/${email.id}`).set(serviceHeaders);
+      expect(record.status).toBe(200);
+      expect(record.body.data).toMatchObject({
+        id: email.id,
+        status: 'queued',
+        attachments: [{ filename: 'a.txt', contentType: 'text/plain', contentId: null, size: 5 }],
+      });
+
+      await request(app).get(`/emails/${email.id}/raw`).set(serviceHeaders).expect(404);
+
+      await service.deliver(email.id, new MemoryTransport(), false);
+      const raw = await request(app).get(`/emails/${email.id}/raw`).set(serviceHeaders);
+      expect(raw.status).toBe(200);
+      expect(raw.headers['content-type']).toMatch(/^message\/rfc822/);
+      expect(raw.text).toBe(service.getRawMessage(email.id));
+      expect(raw.text).toContain(`Message-ID: ${email.messageId}`);
+    });
+
+    it('returns 404 for unknown emails and requires the service token', async () => {
+      const { app } = createApp({ db });
+      await request(app).get('/emails/missing').set(serviceHeaders).expect(404);
+      await request(app).get('/emails/missing').expect(403);
+    });
+  });
+
+  describe('Transports', () => {
+    let dir: string;
+    const message: EmailMessage = {
+      messageId: '<abc@nexus.local>',
+      from: 'Nexus <notifications@nexus.local>',
+      to: 'reader@example.com',
+      subject: 'Weekly report',
+      text: 'Plain text',
+      html: '<p>Rich text</p>',
+    };
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'nexus-email-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('writes .eml files', async () => {
+      expect(await new FileTransport(dir).send(await buildRawMessage(message))).toEqual({ messageId: '<abc@nexus.local>' });
+
+      const [file] = fs.readdirSync(dir);
+      expect(file).toMatch(/\.eml$/);
+      const raw = fs.readFileSync(path.join(dir, file), 'utf8');
+      expect(raw).toContain('Message-ID: <abc@nexus.local>');
+      expect(raw).toContain('Subject: Weekly report');
+      expect(raw).toContain('multipart/alternative');
+      expect(raw).toContain('<p>Rich text</p>');
+    });
+
+    it('delivers into the new/ folder of a Maildir', async () => {
+      await new MaildirTransport(dir).send(await buildRawMessage(message));
+
+      expect(fs.readdirSync(path.join(dir, 'tmp'))).toEqual([]);
+      expect(fs.readdirSync(path.join(dir, 'cur'))).toEqual([]);
+      const [file] = fs.readdirSync(path.join(dir, 'new'));
+      expect(fs.readFileSync(path.join(dir, 'new', file), 'utf8')).toContain('To: reader@example.com');
+    });
+
+    it('selects the transport by name', () => {
+      expect(createEmailTransport('memory').name).toBe('memory');
+      expect(createEmailTransport('log').name).toBe('log');
+      expect(createEmailTransport('smtp').name).toBe('smtp');
+      expect(() => createEmailTransport('pigeon')).toThrow(/Unknown EMAIL_TRANSPORT/);
+    });
+  });
+});
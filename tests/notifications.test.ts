@@ -1,10 +1,23 @@
-import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { describe, it, expect, beforeAll, afterAll, afterEach, vi } from 'vitest';
 import request from 'supertest';
 import Database from 'better-sqlite3';
 import { createApp } from '../src/server.js';
 import { initializeDatabase } from '../src/db/schema.js';
-import { NotificationService } from '../src/services/notification.service.js';
+import { NotificationService, decodeCursor } from '../src/services/notification.service.js';
 import { EmailService } from '../src/services/email.service.js';
+import { WebhookService } from '../src/services/webhook.service.js';
+import { PreferencesService } from '../src/services/preferences.service.js';
+import { QueueWorker } from '../src/workers/queue.worker.js';
+import { verifyWebhookSignature } from '../src/utils/signature.js';
+import { createJobHandlers } from '../src/workers/job-handlers.js';
+import { QueueService } from '../src/services/queue.service.js';
+import { DISPATCH_DEFERRED_JOB } from '../src/services/dispatch.service.js';
+import { NoContactLookup } from '../src/contacts/lookup.js';
+
+// Deliveries only go to verified webhooks; tests that don't exercise the handshake skip it
+function markVerified(db: Database.Database, webhookId: string): void {
+  db.prepare("UPDATE webhooks SET verification_status = 'verified' WHERE id = ?").run(webhookId);
+}
 
 describe('Notifications', () => {
   let app: ReturnType<typeof createApp>['app'];
@@ -88,6 +101,61 @@ describe('Notifications', () => {
       expect(page3.hasMore).toBe(false);
     });
 
+    it('pages with a cursor without drifting when new notifications arrive', () => {
+      const service = new NotificationService(db);
+      const send = (title: string) => service.send({ userId: 'cursor-user', type: 'task_assigned', title, body: 'Body' });
+      for (let i = 0; i < 5; i++) send(`Task ${i}`);
+      // Same-second rows are ordered by id as the tiebreaker
+      const expected = db.prepare(
+        "SELECT id FROM notifications WHERE user_id = 'cursor-user' ORDER BY created_at DESC, id DESC"
+      ).all().map((row: any) => row.id);
+
+      const first = service.listByCursor('cursor-user', { limit: 2 });
+      expect(first.items.map(n => n.id)).toEqual(expected.slice(0, 2));
+      expect(first.hasMore).toBe(true);
+
+      send('Arrived later');
+      db.prepare("UPDATE notifications SET created_at = datetime('now', '+1 minute') WHERE title = 'Arrived later'").run();
+
+      const second = service.listByCursor('cursor-user', { limit: 2, cursor: decodeCursor(first.nextCursor!)! });
+      expect(second.items.map(n => n.id)).toEqual(expected.slice(2, 4));
+
+      const third = service.listByCursor('cursor-user', { limit: 2, cursor: decodeCursor(second.nextCursor!)! });
+      expect(third.items.map(n => n.id)).toEqual(expected.slice(4));
+      expect(third.hasMore).toBe(false);
+      expect(third.nextCursor).toBeNull();
+    });
+
+    it('filters by type, channel, read state, date range and metadata', () => {
+      const service = new NotificationService(db);
+      const [comment] = service.send({
+        userId: 'filter-user', type: 'comment_added', title: 'C', body: 'B', metadata: { taskId: 't1' }, channels: ['in_app'],
+      });
+      service.send({ userId: 'filter-user', type: 'task_assigned', title: 'A', body: 'B', metadata: { taskId: 't2' }, channels: ['in_app'] });
+      service.send({ userId: 'filter-user', type: 'task_assigned', title: 'W', body: 'B', channels: ['webhook'] });
+      db.prepare("UPDATE notifications SET created_at = '2020-01-01 00:00:00' WHERE id = ?").run(comment.id);
+      service.markAsRead(comment.id, 'filter-user');
+
+      const titles = (filters: Parameters<NotificationService['listByCursor']>[1]) =>
+        service.listByCursor('filter-user', filters).items.map(n => n.title).sort();
+
+      expect(titles({ types: ['comment_added'] })).toEqual(['C']);
+      expect(titles({ channels: ['webhook'] })).toEqual(['W']);
+      expect(titles({ read: false })).toEqual(['A', 'W']);
+      expect(titles({ until: '2021-01-01T00:00:00Z' })).toEqual(['C']);
+      expect(titles({ since: '2021-01-01T00:00:00Z' })).toEqual(['A', 'W']);
+      expect(titles({ metadata: { taskId: 't2' } })).toEqual(['A']);
+      expect(service.list('filter-user', { types: ['task_assigned'], channels: ['in_app'] }).total).toBe(1);
+    });
+
+    it('uses the json_extract index for taskId filters', () => {
+      const plan = db.prepare(`
+        EXPLAIN QUERY PLAN SELECT * FROM notifications
+        WHERE user_id = ? AND json_extract(metadata, '$.taskId') = ?
+      `).all('u', 't').map((row: any) => row.detail).join(' ');
+      expect(plan).toContain('idx_notifications_task');
+    });
+
     it('marks a notification as read', () => {
       const service = new NotificationService(db);
       const [notif] = service.send({
@@ -140,6 +208,571 @@ describe('Notifications', () => {
     });
   });
 
+  describe('Channel dispatch', () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('marks in-app notifications as delivered', () => {
+      const service = new NotificationService(db);
+      const [notif] = service.send({ userId: 'dispatch-user', type: 'task_assigned', title: 'T', body: 'B' });
+      expect(notif.delivery).toEqual({ status: 'delivered', error: null, references: [] });
+    });
+
+    it('sends an email through EmailService for the email channel', () => {
+      const service = new NotificationService(db);
+      const [notif] = service.send({
+        userId: 'dispatch-user',
+        type: 'project_invited',
+        title: 'Invite',
+        body: 'Join the project',
+        channels: ['email'],
+        email: 'dispatch@example.com',
+      });
+      expect(notif.delivery!.status).toBe('queued');
+      expect(notif.delivery!.references).toHaveLength(1);
+
+      const email = new EmailService(db).list().find(e => e.id === notif.delivery!.references[0]);
+      expect(email!.toEmail).toBe('dispatch@example.com');
+      expect(email!.subject).toBe('Invite');
+    });
+
+    it('fails the email channel when no address is known', async () => {
+      const service = new NotificationService(db);
+      const [notif] = service.send({
+        userId: 'dispatch-user',
+        type: 'project_invited',
+        title: 'Invite',
+        body: 'Join the project',
+        channels: ['email'],
+      });
+      // Not in the directory, so the worker looks the recipient up first
+      expect(notif.delivery!.status).toBe('queued');
+
+      const { id } = db.prepare(
+        "SELECT id FROM jobs WHERE type = ? AND json_extract(payload, '$.notificationId') = ?"
+      ).get(DISPATCH_DEFERRED_JOB, notif.id) as { id: string };
+      const job = new QueueService(db).getById(id)!;
+      const logger = { warn: vi.fn() };
+      await createJobHandlers(db, { contactLookup: new NoContactLookup(), logger })[DISPATCH_DEFERRED_JOB](job);
+
+      const failed = service.getById(notif.id)!;
+      expect(failed.delivery!.status).toBe('failed');
+      expect(failed.delivery!.error).toMatch(/no email address/i);
+      expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining(notif.id));
+    });
+
+    it('queues signed webhook calls for the webhook channel', async () => {
+      const fetchMock = vi.fn().mockResolvedValue(new Response('ok', { status: 200 }));
+      vi.stubGlobal('fetch', fetchMock);
+
+      const webhooks = new WebhookService(db);
+      const webhook = webhooks.create('hook-owner', {
+        url: 'https://example.com/hook',
+        secret: 'secret',
+        events: ['task_assigned'],
+      });
+      markVerified(db, webhook.id);
+
+      const service = new NotificationService(db);
+      const [notif] = service.send({
+        userId: 'hook-owner',
+        type: 'task_assigned',
+        title: 'Task',
+        body: 'Assigned',
+        channels: ['webhook'],
+      });
+      expect(notif.delivery!.status).toBe('queued');
+      expect(notif.delivery!.references).toHaveLength(1);
+
+      // Also drains email jobs left by earlier tests, whose recipients have no address
+      await new QueueWorker(db, createJobHandlers(db, { logger: { warn: vi.fn() } })).runOnce();
+      expect(webhooks.getDeliveries(webhook.id, 'hook-owner')[0].status).toBe('delivered');
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe('https://example.com/hook');
+      expect(verifyWebhookSignature(init.body, init.headers['X-Nexus-Signature'], init.headers['X-Nexus-Timestamp'], 'secret')).toBe(true);
+      expect(JSON.parse(init.body).notificationId).toBe(notif.id);
+    });
+
+    it('skips the webhook channel when no webhook is subscribed', () => {
+      const service = new NotificationService(db);
+      const [notif] = service.send({
+        userId: 'no-hook-user',
+        type: 'task_assigned',
+        title: 'Task',
+        body: 'Assigned',
+        channels: ['webhook'],
+      });
+      expect(notif.delivery!.status).toBe('skipped');
+    });
+
+    it('POST /notifications/send reports per-channel results', async () => {
+      const res = await request(app)
+        .post('/notifications/send')
+        .set('x-service-token', serviceToken)
+        .send({
+          userId: 'route-dispatch-user',
+          type: 'project_invited',
+          title: 'Invite',
+          body: 'Body',
+          channels: ['in_app', 'email'],
+          email: 'route-dispatch@example.com',
+        });
+      expect(res.status).toBe(201);
+      expect(res.body.data.map((n: any) => [n.channel, n.delivery.status])).toEqual([
+        ['in_app', 'delivered'],
+        ['email', 'queued'],
+      ]);
+    });
+  });
+
+  describe('Quiet hours', () => {
+    const quietJobs = () => db.prepare(
+      "SELECT status, next_attempt_at FROM jobs WHERE type = 'notification.dispatch' AND json_extract(payload, '$.notificationId') = ?"
+    );
+
+    beforeAll(() => {
+      new PreferencesService(db).update('quiet-user', {
+        quietHours: { enabled: true, start: '22:00', end: '07:00', bypassTypes: ['task_due_soon'] },
+      });
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+      vi.unstubAllGlobals();
+    });
+
+    it('creates in-app rows but holds email and webhook until the window ends', async () => {
+      const fetchMock = vi.fn().mockResolvedValue(new Response('ok', { status: 200 }));
+      vi.stubGlobal('fetch', fetchMock);
+      const webhooks = new WebhookService(db);
+      const webhook = webhooks.create('quiet-user', {
+        url: 'https://example.com/quiet',
+        secret: 'secret',
+        events: ['comment_added'],
+      });
+      markVerified(db, webhook.id);
+
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(new Date('2024-01-10T23:00:00Z'));
+      const emailsBefore = new EmailService(db).list().length;
+
+      const [inApp, email, hook] = new NotificationService(db).send({
+        userId: 'quiet-user',
+        type: 'comment_added',
+        title: 'Late comment',
+        body: 'Body',
+        channels: ['in_app', 'email', 'webhook'],
+        email: 'quiet@example.com',
+      });
+      expect(inApp.delivery!.status).toBe('delivered');
+      expect(email.delivery).toEqual({
+        status: 'deferred',
+        error: 'Held for quiet hours until 2024-01-11T07:00:00.000Z',
+        references: [],
+      });
+      expect(hook.delivery!.status).toBe('deferred');
+      expect(quietJobs().get(email.id)).toEqual({ status: 'pending', next_attempt_at: '2024-01-11T07:00:00.000Z' });
+
+      const worker = new QueueWorker(db, createJobHandlers(db));
+      await worker.runOnce();
+      expect(new EmailService(db).list()).toHaveLength(emailsBefore);
+      expect(webhooks.getDeliveries(webhook.id, 'quiet-user')).toHaveLength(0);
+
+      vi.setSystemTime(new Date('2024-01-11T07:00:30Z'));
+      await worker.runOnce();
+      const service = new NotificationService(db);
+      expect(service.getById(email.id)!.delivery!.status).toBe('queued');
+      expect(service.getById(hook.id)!.delivery!.status).toBe('queued');
+      expect(new EmailService(db).list()).toHaveLength(emailsBefore + 1);
+
+      await worker.runOnce();
+      expect(webhooks.getDeliveries(webhook.id, 'quiet-user')[0].status).toBe('delivered');
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('lets bypass types through', () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(new Date('2024-01-10T23:00:00Z'));
+      const [email] = new NotificationService(db).send({
+        userId: 'quiet-user',
+        type: 'task_due_soon',
+        title: 'Due tomorrow',
+        body: 'Body',
+        channels: ['email'],
+        email: 'quiet@example.com',
+      });
+      expect(email.delivery!.status).toBe('queued');
+    });
+
+    it('holds a waiting delivery again when do-not-disturb is extended', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(new Date('2024-01-10T23:00:00Z'));
+      const [email] = new NotificationService(db).send({
+        userId: 'quiet-user',
+        type: 'project_invited',
+        title: 'Invite',
+        body: 'Body',
+        channels: ['email'],
+        email: 'quiet@example.com',
+      });
+      expect(email.delivery!.status).toBe('deferred');
+
+      new PreferencesService(db).update('quiet-user', { doNotDisturbUntil: '2024-01-11T12:00:00Z' });
+      vi.setSystemTime(new Date('2024-01-11T07:00:30Z'));
+      await new QueueWorker(db, createJobHandlers(db)).runOnce();
+
+      expect(quietJobs().get(email.id)).toEqual({ status: 'pending', next_attempt_at: '2024-01-11T12:00:00.000Z' });
+      expect(new NotificationService(db).getById(email.id)!.delivery!.status).toBe('deferred');
+      new PreferencesService(db).update('quiet-user', { doNotDisturbUntil: null });
+    });
+  });
+
+  describe('Channel resolution', () => {
+    it('uses the recipient preferences when channels are omitted', () => {
+      const service = new NotificationService(db);
+      const notifications = service.send({
+        userId: 'pref-default-user',
+        type: 'project_invited',
+        title: 'Invite',
+        body: 'Body',
+        email: 'pref@example.com',
+      });
+      expect(notifications.map(n => n.channel)).toEqual(['in_app', 'email']);
+    });
+
+    it('follows updated preferences for the notification type', () => {
+      new PreferencesService(db).update('pref-custom-user', { commentAdded: ['email'] });
+      const service = new NotificationService(db);
+      const notifications = service.send({
+        userId: 'pref-custom-user',
+        type: 'comment_added',
+        title: 'Comment',
+        body: 'Body',
+        email: 'custom@example.com',
+      });
+      expect(notifications.map(n => n.channel)).toEqual(['email']);
+    });
+
+    it('sends nothing when the user has opted out of the type', () => {
+      new PreferencesService(db).update('pref-optout-user', { taskAssigned: [] });
+      const service = new NotificationService(db);
+      expect(service.send({ userId: 'pref-optout-user', type: 'task_assigned', title: 'T', body: 'B' })).toEqual([]);
+    });
+
+    it('uses requested channels as given in exact mode', () => {
+      new PreferencesService(db).update('pref-exact-user', { taskAssigned: ['in_app'] });
+      const service = new NotificationService(db);
+      expect(service.resolveChannels({
+        userId: 'pref-exact-user',
+        type: 'task_assigned',
+        title: 'T',
+        body: 'B',
+        channels: ['in_app', 'webhook'],
+      })).toEqual(['in_app', 'webhook']);
+    });
+
+    it('intersects requested channels with preferences in intersect mode', () => {
+      new PreferencesService(db).update('pref-intersect-user', { taskAssigned: ['in_app', 'email'] });
+      const service = new NotificationService(db);
+      expect(service.resolveChannels({
+        userId: 'pref-intersect-user',
+        type: 'task_assigned',
+        title: 'T',
+        body: 'B',
+        channels: ['webhook', 'email'],
+        channelMode: 'intersect',
+      })).toEqual(['email']);
+    });
+
+    it('POST /notifications/send rejects an unknown channel mode', async () => {
+      const res = await request(app)
+        .post('/notifications/send')
+        .set('x-service-token', serviceToken)
+        .send({ userId: 'test-user', type: 'task_assigned', title: 'T', body: 'B', channelMode: 'sometimes' });
+      expect(res.status).toBe(400);
+    });
+  });
+
+  describe('Grouping', () => {
+    const groupHeaders = { ...authHeaders, 'x-user-id': 'group-user' };
+
+    function comment(actorId: string, taskId = 'task-x') {
+      return new NotificationService(db).send({
+        userId: 'group-user',
+        type: 'comment_added',
+        title: `${actorId} commented`,
+        body: 'Body',
+        metadata: { taskId, actorId },
+        channels: ['in_app'],
+      })[0];
+    }
+
+    it('defaults the group key to type plus taskId', () => {
+      const service = new NotificationService(db);
+      expect(service.groupKeyFor({ userId: 'u', type: 'comment_added', title: 't', body: 'b', metadata: { taskId: 't1' } }))
+        .toBe('comment_added:t1');
+      expect(service.groupKeyFor({ userId: 'u', type: 'comment_added', title: 't', body: 'b', groupKey: 'custom' }))
+        .toBe('custom');
+
+      const [standalone] = service.send({ userId: 'u', type: 'task_due_soon', title: 't', body: 'b', channels: ['in_app'] });
+      expect(standalone.groupKey).toBe(standalone.id);
+    });
+
+    it('collapses a group with its latest item, count and actors', () => {
+      comment('alice');
+      comment('bob');
+      comment('alice');
+      const last = comment('carol');
+      comment('dave', 'task-y');
+      db.prepare("UPDATE notifications SET created_at = datetime('now', '-1 minute') WHERE metadata LIKE '%task-y%'").run();
+      db.prepare("UPDATE notifications SET created_at = datetime('now', '+1 minute') WHERE id = ?").run(last.id);
+
+      const page = new NotificationService(db).listGroups('group-user');
+      expect(page.items).toHaveLength(2);
+
+      const [group, other] = page.items;
+      expect(group.groupKey).toBe('comment_added:task-x');
+      expect(group.latest.id).toBe(last.id);
+      expect(group.count).toBe(4);
+      expect(group.unreadCount).toBe(4);
+      expect(group.actors).toEqual(expect.arrayContaining(['alice', 'bob', 'carol']));
+      expect(group.actors).toHaveLength(3);
+      expect(other.groupKey).toBe('comment_added:task-y');
+      expect(other.count).toBe(1);
+    });
+
+    it('pages groups with a cursor', () => {
+      const service = new NotificationService(db);
+      const first = service.listGroups('group-user', { limit: 1 });
+      expect(first.hasMore).toBe(true);
+      const second = service.listGroups('group-user', { limit: 1, cursor: decodeCursor(first.nextCursor!)! });
+      expect(second.items[0].groupKey).toBe('comment_added:task-y');
+      expect(second.hasMore).toBe(false);
+    });
+
+    it('GET /notifications/groups returns collapsed groups', async () => {
+      const res = await request(app).get('/notifications/groups?type=comment_added').set(groupHeaders);
+      expect(res.status).toBe(200);
+      expect(res.body.data.items.map((g: any) => g.count)).toEqual([4, 1]);
+    });
+
+    it('GET /notifications/unread-count counts items or groups', async () => {
+      const items = await request(app).get('/notifications/unread-count').set(groupHeaders);
+      const groups = await request(app).get('/notifications/unread-count?by=group').set(groupHeaders);
+      expect(items.body.data.count).toBe(5);
+      expect(groups.body.data.count).toBe(2);
+    });
+
+    it('POST /notifications/groups/:groupKey/read marks every member read', async () => {
+      const res = await request(app)
+        .post(`/notifications/groups/${encodeURIComponent('comment_added:task-x')}/read`)
+        .set(groupHeaders);
+      expect(res.status).toBe(200);
+      expect(res.body.data.updated).toBe(4);
+
+      const [group] = new NotificationService(db).listGroups('group-user').items;
+      expect(group.unreadCount).toBe(0);
+      const groups = await request(app).get('/notifications/unread-count?by=group').set(groupHeaders);
+      expect(groups.body.data.count).toBe(1);
+    });
+
+    it('POST /notifications/groups/:groupKey/read returns 404 for an unknown group', async () => {
+      const res = await request(app)
+        .post(`/notifications/groups/${encodeURIComponent('comment_added:task-x')}/read`)
+        .set({ ...groupHeaders, 'x-user-id': 'someone-else' });
+      expect(res.status).toBe(404);
+    });
+
+    it('POST /notifications/send accepts an explicit groupKey', async () => {
+      const res = await request(app)
+        .post('/notifications/send')
+        .set('x-service-token', serviceToken)
+        .send({ userId: 'group-user', type: 'task_status_changed', title: 'Moved', body: 'B', groupKey: 'board:42', channels: ['in_app'] });
+      expect(res.status).toBe(201);
+      expect(res.body.data[0].groupKey).toBe('board:42');
+    });
+  });
+
+  describe('Idempotency', () => {
+    const payload = {
+      userId: 'idem-user',
+      type: 'task_assigned',
+      title: 'Assigned',
+      body: 'You have a task',
+      metadata: { taskId: 't1', projectId: 'p1' },
+    };
+    const count = () => new NotificationService(db).list('idem-user').total;
+
+    it('replays the original response for a retried request', async () => {
+      const first = await request(app)
+        .post('/notifications/send')
+        .set('x-service-token', serviceToken)
+        .set('Idempotency-Key', 'retry-1')
+        .send(payload);
+      expect(first.status).toBe(201);
+      expect(first.headers['idempotent-replayed']).toBeUndefined();
+      const before = count();
+
+      // Same payload with keys in a different order
+      const retry = await request(app)
+        .post('/notifications/send')
+        .set('x-service-token', serviceToken)
+        .set('Idempotency-Key', 'retry-1')
+        .send({ ...payload, metadata: { projectId: 'p1', taskId: 't1' } });
+      expect(retry.status).toBe(201);
+      expect(retry.headers['idempotent-replayed']).toBe('true');
+      expect(retry.body).toEqual(first.body);
+      expect(count()).toBe(before);
+    });
+
+    it('rejects a reused key with a different payload', async () => {
+      await request(app)
+        .post('/notifications/send')
+        .set('x-service-token', serviceToken)
+        .set('Idempotency-Key', 'retry-2')
+        .send(payload)
+        .expect(201);
+
+      const res = await request(app)
+        .post('/notifications/send')
+        .set('x-service-token', serviceToken)
+        .set('Idempotency-Key', 'retry-2')
+        .send({ ...payload, title: 'Changed' });
+      expect(res.status).toBe(409);
+      expect(res.body.error.code).toBe('CONFLICT');
+    });
+
+    it('accepts the key as dedupeKey in the body', async () => {
+      const send = () => request(app)
+        .post('/notifications/send')
+        .set('x-service-token', serviceToken)
+        .send({ ...payload, dedupeKey: 'body-key' });
+
+      const first = await send();
+      const before = count();
+      const retry = await send();
+      expect(retry.body).toEqual(first.body);
+      expect(count()).toBe(before);
+
+      const mismatch = await request(app)
+        .post('/notifications/send')
+        .set('x-service-token', serviceToken)
+        .set('Idempotency-Key', 'other-key')
+        .send({ ...payload, dedupeKey: 'body-key' });
+      expect(mismatch.status).toBe(400);
+    });
+
+    it('replays scheduled sends too', async () => {
+      const send = () => request(app)
+        .post('/notifications/send')
+        .set('x-service-token', serviceToken)
+        .set('Idempotency-Key', 'schedule-1')
+        .send({ ...payload, delaySeconds: 60, correlationKey: 'idem-reminder' });
+
+      const first = await send();
+      const retry = await send();
+      expect(first.status).toBe(202);
+      expect(retry.status).toBe(202);
+      expect(retry.body.data.id).toBe(first.body.data.id);
+    });
+
+    it('forgets keys once they expire', async () => {
+      const send = () => request(app)
+        .post('/notifications/send')
+        .set('x-service-token', serviceToken)
+        .set('Idempotency-Key', 'expiring')
+        .send(payload);
+
+      const first = await send();
+      db.prepare("UPDATE idempotency_keys SET expires_at = '2000-01-01T00:00:00.000Z' WHERE key = 'expiring'").run();
+      const before = count();
+
+      const second = await send();
+      expect(second.headers['idempotent-replayed']).toBeUndefined();
+      expect(second.body.data[0].id).not.toBe(first.body.data[0].id);
+      expect(count()).toBe(before + 1);
+    });
+  });
+
+  describe('Batch send', () => {
+    const sendBatch = (body: unknown) => request(app)
+      .post('/notifications/send-batch')
+      .set('x-service-token', serviceToken)
+      .send(body);
+
+    it('fans one notification out to many recipients with their own preferences', async () => {
+      new PreferencesService(db).update('batch-email-user', { projectInvited: ['email'] });
+
+      const res = await sendBatch({
+        recipients: [
+          { userId: 'batch-default-user', email: 'default@example.com' },
+          { userId: 'batch-email-user', email: 'email@example.com' },
+        ],
+        notification: { type: 'project_invited', title: 'Join Apollo', body: 'You are invited', metadata: { projectId: 'apollo' } },
+      });
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.succeeded).toBe(2);
+      expect(res.body.data.failed).toBe(0);
+      const [first, second] = res.body.data.results;
+      expect(first).toMatchObject({ index: 0, userId: 'batch-default-user', status: 201, success: true });
+      expect(first.data.map((n: any) => n.channel)).toEqual(['in_app', 'email']);
+      expect(second.data.map((n: any) => n.channel)).toEqual(['email']);
+      expect(second.data[0].userId).toBe('batch-email-user');
+    });
+
+    it('reports per-item failures without undoing the other items', async () => {
+      const res = await sendBatch({
+        items: [
+          { userId: 'batch-item-a', type: 'task_assigned', title: 'A', body: 'First' },
+          { userId: 'batch-item-b', type: 'not_a_type', title: 'B', body: 'Second' },
+          { userId: 'batch-item-c', type: 'task_due_soon', title: 'C', body: 'Later', delaySeconds: 60 },
+        ],
+      });
+
+      expect(res.status).toBe(200);
+      expect(res.body.data).toMatchObject({ succeeded: 2, failed: 1 });
+      const [a, b, c] = res.body.data.results;
+      expect(a.status).toBe(201);
+      expect(b).toMatchObject({ index: 1, userId: 'batch-item-b', status: 400, success: false });
+      expect(b.error.code).toBe('VALIDATION_ERROR');
+      expect(b.error.details.type).toBeDefined();
+      expect(c.status).toBe(202);
+      expect(c.data.status).toBe('pending');
+
+      const service = new NotificationService(db);
+      expect(service.list('batch-item-a').total).toBe(1);
+      expect(service.list('batch-item-b').total).toBe(0);
+    });
+
+    it('rolls back only the item whose send conflicts', async () => {
+      const res = await sendBatch({
+        items: [
+          { userId: 'batch-dup', type: 'task_due_soon', title: 'Due', body: 'Soon', delaySeconds: 60, correlationKey: 'batch-dup-key' },
+          { userId: 'batch-dup', type: 'task_due_soon', title: 'Due', body: 'Soon', delaySeconds: 60, correlationKey: 'batch-dup-key' },
+        ],
+      });
+      expect(res.body.data.results.map((r: any) => r.status)).toEqual([202, 409]);
+      expect(db.prepare("SELECT COUNT(*) AS n FROM scheduled_notifications WHERE correlation_key = 'batch-dup-key'").get())
+        .toEqual({ n: 1 });
+    });
+
+    it('validates the batch envelope', async () => {
+      await sendBatch({}).expect(400);
+      await sendBatch({ items: [] }).expect(400);
+      await sendBatch({
+        recipients: [{ userId: 'same' }, { userId: 'same' }],
+        notification: { type: 'task_assigned', title: 'T', body: 'B' },
+      }).expect(400);
+      await sendBatch({
+        recipients: [{ userId: 'u1' }],
+        notification: { type: 'task_assigned', title: 'T', body: 'B', delaySeconds: 60, correlationKey: 'shared' },
+      }).expect(400);
+      await request(app).post('/notifications/send-batch').send({ items: [{}] }).expect(403);
+    });
+  });
+
   describe('Routes', () => {
     it('POST /notifications/send creates notifications with service token', async () => {
       const res = await request(app)
@@ -217,6 +850,45 @@ describe('Notifications', () => {
       expect(typeof res.body.data.total).toBe('number');
     });
 
+    it('GET /notifications pages with a cursor when limit is given', async () => {
+      const cursorHeaders = { ...authHeaders, 'x-user-id': 'route-cursor-user' };
+      for (const title of ['One', 'Two', 'Three']) {
+        await request(app)
+          .post('/notifications/send')
+          .set('x-service-token', serviceToken)
+          .send({ userId: 'route-cursor-user', type: 'comment_added', title, body: 'Body', metadata: { taskId: 'x' } });
+      }
+
+      const first = await request(app).get('/notifications?limit=2&metadata[taskId]=x').set(cursorHeaders);
+      expect(first.status).toBe(200);
+      expect(first.body.data.items).toHaveLength(2);
+      expect(first.body.data.total).toBeUndefined();
+      expect(first.body.data.hasMore).toBe(true);
+
+      const second = await request(app)
+        .get('/notifications')
+        .query({ limit: 2, cursor: first.body.data.nextCursor, 'metadata[taskId]': 'x' })
+        .set(cursorHeaders);
+      expect(second.body.data.items).toHaveLength(1);
+      expect(second.body.data.nextCursor).toBeNull();
+      const ids = [...first.body.data.items, ...second.body.data.items].map((n: any) => n.id);
+      expect(new Set(ids).size).toBe(3);
+    });
+
+    it('GET /notifications validates filters and cursors', async () => {
+      for (const query of ['cursor=garbage', 'type=nope', 'read=maybe', 'since=yesterday', 'metadata[bad key]=x', 'limit=500']) {
+        const res = await request(app).get(`/notifications?${query}`).set(authHeaders);
+        expect(res.status, query).toBe(400);
+      }
+    });
+
+    it('GET /notifications filters in page mode', async () => {
+      const res = await request(app).get('/notifications?type=comment_added,task_assigned&read=false').set(authHeaders);
+      expect(res.status).toBe(200);
+      expect(res.body.data.page).toBe(1);
+      expect(res.body.data.items.every((n: any) => !n.read)).toBe(true);
+    });
+
     it('GET /notifications requires auth', async () => {
       const res = await request(app).get('/notifications');
       expect(res.status).toBe(401);
@@ -285,7 +957,7 @@ describe('Notifications', () => {
   describe('EmailService', () => {
     it('sends and stores an email', () => {
       const service = new EmailService(db);
-      const email = service.send('user@example.com', 'Test Subject', 'Test body');
+      const email = service.send({ to: 'user@example.com', subject: 'Test Subject', text: 'Test body' });
       expect(email.toEmail).toBe('user@example.com');
       expect(email.subject).toBe('Test Subject');
       expect(email.body).toBe('Test body');
@@ -294,8 +966,8 @@ describe('Notifications', () => {
 
     it('lists sent emails', () => {
       const service = new EmailService(db);
-      service.send('a@example.com', 'Subject A', 'Body A');
-      service.send('b@example.com', 'Subject B', 'Body B');
+      service.send({ to: 'a@example.com', subject: 'Subject A', text: 'Body A' });
+      service.send({ to: 'b@example.com', subject: 'Subject B', text: 'Body B' });
       const emails = service.list();
       expect(emails.length).toBeGreaterThanOrEqual(2);
     });
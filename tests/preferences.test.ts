@@ -3,7 +3,9 @@ import request from 'supertest';
 import Database from 'better-sqlite3';
 import { createApp } from '../src/server.js';
 import { initializeDatabase } from '../src/db/schema.js';
-import { PreferencesService } from '../src/services/preferences.service.js';
+import { PreferencesService, quietUntil } from '../src/services/preferences.service.js';
+import { zonedTimeToUtc } from '../src/utils/timezone.js';
+import type { NotificationPreferences, QuietHours } from '../src/services/preferences.service.js';
 
 describe('Preferences', () => {
   let app: ReturnType<typeof createApp>['app'];
@@ -71,6 +73,71 @@ describe('Preferences', () => {
     });
   });
 
+  describe('Quiet hours', () => {
+    function prefs(
+      overrides: Partial<Omit<NotificationPreferences, 'quietHours'>> & { quietHours?: Partial<QuietHours> } = {},
+    ): NotificationPreferences {
+      const base = new PreferencesService(db).get('quiet-user');
+      return {
+        ...base,
+        timezone: 'Europe/Berlin',
+        ...overrides,
+        quietHours: { ...base.quietHours, enabled: true, start: '22:00', end: '07:00', ...overrides.quietHours },
+      };
+    }
+
+    it('holds delivery until an overnight window ends', () => {
+      // 23:30 in Berlin (UTC+1)
+      expect(quietUntil(prefs(), 'comment_added', new Date('2024-01-10T22:30:00Z'))?.toISOString())
+        .toBe('2024-01-11T06:00:00.000Z');
+      // 06:00 in Berlin, same window
+      expect(quietUntil(prefs(), 'comment_added', new Date('2024-01-11T05:00:00Z'))?.toISOString())
+        .toBe('2024-01-11T06:00:00.000Z');
+    });
+
+    it('lets delivery through outside the window, when disabled, or for bypass types', () => {
+      const night = new Date('2024-01-10T22:30:00Z');
+      expect(quietUntil(prefs(), 'comment_added', new Date('2024-01-11T06:00:00Z'))).toBeNull();
+      expect(quietUntil(prefs({ quietHours: { enabled: false } }), 'comment_added', night)).toBeNull();
+      expect(quietUntil(prefs({ quietHours: { bypassTypes: ['task_due_soon'] } }), 'task_due_soon', night)).toBeNull();
+    });
+
+    it('supports windows within a single day', () => {
+      const lunch = prefs({ timezone: 'UTC', quietHours: { start: '12:00', end: '13:00' } });
+      expect(quietUntil(lunch, 'comment_added', new Date('2024-01-10T12:15:00Z'))?.toISOString())
+        .toBe('2024-01-10T13:00:00.000Z');
+      expect(quietUntil(lunch, 'comment_added', new Date('2024-01-10T13:00:00Z'))).toBeNull();
+    });
+
+    it('never ends a window in the past when clocks go back', () => {
+      // New York repeats 01:00-02:00 on 2024-11-03: first as EDT (05:xxZ), then as EST (06:xxZ)
+      const early = prefs({ timezone: 'America/New_York', quietHours: { start: '00:00', end: '01:30' } });
+      // 01:10 EDT: the first 01:30 is still ahead
+      expect(quietUntil(early, 'comment_added', new Date('2024-11-03T05:10:00Z'))?.toISOString())
+        .toBe('2024-11-03T05:30:00.000Z');
+      // 01:15 EST: the first 01:30 has passed, so the window ends at the second one
+      expect(quietUntil(early, 'comment_added', new Date('2024-11-03T06:15:00Z'))?.toISOString())
+        .toBe('2024-11-03T06:30:00.000Z');
+      expect(zonedTimeToUtc({ year: 2024, month: 11, day: 3, hour: 1, minute: 30 }, 'America/New_York', 'later').toISOString())
+        .toBe('2024-11-03T06:30:00.000Z');
+    });
+
+    it('chains do-not-disturb with quiet hours', () => {
+      const now = new Date('2024-01-10T12:00:00Z');
+      // DND ends at 22:30 Berlin time, inside the window
+      const dnd = prefs({ doNotDisturbUntil: '2024-01-10T21:30:00.000Z' });
+      expect(quietUntil(dnd, 'comment_added', now)?.toISOString()).toBe('2024-01-11T06:00:00.000Z');
+
+      // An expired DND has no effect
+      const expired = prefs({ doNotDisturbUntil: '2024-01-10T11:00:00.000Z' });
+      expect(quietUntil(expired, 'comment_added', now)).toBeNull();
+
+      // DND alone
+      const daytime = prefs({ quietHours: { enabled: false }, doNotDisturbUntil: '2024-01-10T15:00:00.000Z' });
+      expect(quietUntil(daytime, 'comment_added', now)?.toISOString()).toBe('2024-01-10T15:00:00.000Z');
+    });
+  });
+
   describe('Routes', () => {
     const authHeaders = {
       'x-user-id': 'route-user',
@@ -135,6 +202,63 @@ describe('Preferences', () => {
       expect(res.body.success).toBe(false);
     });
 
+    it('PUT /preferences sets the time zone and digest schedule', async () => {
+      const res = await request(app)
+        .put('/preferences')
+        .set(authHeaders)
+        .send({ timezone: 'Europe/Berlin', digest: { frequency: 'daily', time: '08:30' } });
+      expect(res.status).toBe(200);
+      expect(res.body.data.timezone).toBe('Europe/Berlin');
+      expect(res.body.data.digest).toEqual({ frequency: 'daily', time: '08:30', dayOfWeek: 1 });
+      // Channel preferences are untouched
+      expect(res.body.data.taskAssigned).toEqual(['in_app', 'email']);
+    });
+
+    it('PUT /preferences rejects unknown time zones and malformed schedules', async () => {
+      for (const body of [
+        { timezone: 'Mars/Olympus' },
+        { digest: { frequency: 'monthly' } },
+        { digest: { time: '25:00' } },
+        { digest: { dayOfWeek: 7 } },
+      ]) {
+        const res = await request(app).put('/preferences').set(authHeaders).send(body);
+        expect(res.status, JSON.stringify(body)).toBe(400);
+      }
+    });
+
+    it('PUT /preferences sets quiet hours and do-not-disturb', async () => {
+      const res = await request(app)
+        .put('/preferences')
+        .set(authHeaders)
+        .send({
+          quietHours: { enabled: true, start: '21:00', bypassTypes: ['task_due_soon'] },
+          doNotDisturbUntil: '2030-01-01T10:00:00+02:00',
+        });
+      expect(res.status).toBe(200);
+      expect(res.body.data.quietHours).toEqual({
+        enabled: true,
+        start: '21:00',
+        end: '07:00',
+        bypassTypes: ['task_due_soon'],
+      });
+      expect(res.body.data.doNotDisturbUntil).toBe('2030-01-01T08:00:00.000Z');
+
+      const cleared = await request(app).put('/preferences').set(authHeaders).send({ doNotDisturbUntil: null });
+      expect(cleared.body.data.doNotDisturbUntil).toBeNull();
+      expect(cleared.body.data.quietHours.enabled).toBe(true);
+    });
+
+    it('PUT /preferences rejects malformed quiet hours', async () => {
+      for (const body of [
+        { quietHours: { start: '9pm' } },
+        { quietHours: { bypassTypes: ['digest'] } },
+        { doNotDisturbUntil: 'tomorrow' },
+      ]) {
+        const res = await request(app).put('/preferences').set(authHeaders).send(body);
+        expect(res.status, JSON.stringify(body)).toBe(400);
+      }
+    });
+
     it('GET /preferences requires auth', async () => {
       const res = await request(app).get('/preferences');
       expect(res.status).toBe(401);
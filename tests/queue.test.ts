@@ -0,0 +1,211 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach, vi } from 'vitest';
+import Database from 'better-sqlite3';
+import { initializeDatabase } from '../src/db/schema.js';
+import { QueueService, backoffDelay } from '../src/services/queue.service.js';
+import { WebhookService } from '../src/services/webhook.service.js';
+import { QueueWorker } from '../src/workers/queue.worker.js';
+import { createJobHandlers } from '../src/workers/job-handlers.js';
+
+// Deliveries only go to verified webhooks; tests that don't exercise the handshake skip it
+function markVerified(db: Database.Database, webhookId: string): void {
+  db.prepare("UPDATE webhooks SET verification_status = 'verified' WHERE id = ?").run(webhookId);
+}
+
+describe('Job queue', () => {
+  let db: Database.Database;
+
+  beforeAll(() => {
+    db = new Database(':memory:');
+    initializeDatabase(db);
+  });
+
+  afterAll(() => {
+    db.close();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    db.exec('DELETE FROM jobs; DELETE FROM webhook_deliveries;');
+  });
+
+  describe('QueueService', () => {
+    it('enqueues a pending job', () => {
+      const queue = new QueueService(db);
+      const job = queue.enqueue('test.job', { value: 1 }, { maxAttempts: 2 });
+      expect(job.status).toBe('pending');
+      expect(job.attempts).toBe(0);
+      expect(job.maxAttempts).toBe(2);
+      expect(job.payload).toEqual({ value: 1 });
+    });
+
+    it('leases only due jobs and counts the attempt', () => {
+      const queue = new QueueService(db);
+      const due = queue.enqueue('test.job', {});
+      queue.enqueue('test.job', {}, { runAt: new Date(Date.now() + 60_000) });
+
+      const leased = queue.lease('worker-a');
+      expect(leased.map(j => j.id)).toEqual([due.id]);
+      expect(leased[0].status).toBe('running');
+      expect(leased[0].attempts).toBe(1);
+      expect(leased[0].leaseOwner).toBe('worker-a');
+
+      expect(queue.lease('worker-b')).toEqual([]);
+    });
+
+    it('re-leases running jobs whose lease expired', () => {
+      const queue = new QueueService(db);
+      const job = queue.enqueue('test.job', {});
+      queue.lease('worker-a', { leaseMs: 1000 });
+
+      const later = new Date(Date.now() + 5000);
+      const leased = queue.lease('worker-b', { now: later });
+      expect(leased.map(j => j.id)).toEqual([job.id]);
+      expect(leased[0].leaseOwner).toBe('worker-b');
+      expect(leased[0].attempts).toBe(2);
+    });
+
+    it('completes a job', () => {
+      const queue = new QueueService(db);
+      const job = queue.enqueue('test.job', {});
+      queue.lease('worker-a');
+      queue.complete(job.id);
+      expect(queue.getById(job.id)!.status).toBe('completed');
+    });
+
+    it('reschedules a failed attempt with backoff', () => {
+      const queue = new QueueService(db, { baseMs: 10_000, maxMs: 60_000 });
+      const job = queue.enqueue('test.job', {}, { maxAttempts: 3 });
+      queue.lease('worker-a');
+
+      const failed = queue.fail(job.id, 'boom')!;
+      expect(failed.status).toBe('pending');
+      expect(failed.lastError).toBe('boom');
+      expect(Date.parse(failed.nextAttemptAt)).toBeGreaterThanOrEqual(Date.now() + 4_000);
+    });
+
+    it('marks a job failed once attempts are exhausted', () => {
+      const queue = new QueueService(db);
+      const job = queue.enqueue('test.job', {}, { maxAttempts: 1 });
+      queue.lease('worker-a');
+      expect(queue.fail(job.id, 'boom')!.status).toBe('failed');
+    });
+
+    it('computes exponential backoff with jitter', () => {
+      const options = { baseMs: 1000, maxMs: 10_000 };
+      for (let i = 0; i < 20; i++) {
+        const first = backoffDelay(1, options);
+        expect(first).toBeGreaterThanOrEqual(500);
+        expect(first).toBeLessThanOrEqual(1000);
+
+        const third = backoffDelay(3, options);
+        expect(third).toBeGreaterThanOrEqual(2000);
+        expect(third).toBeLessThanOrEqual(4000);
+
+        expect(backoffDelay(20, options)).toBeLessThanOrEqual(10_000);
+      }
+    });
+  });
+
+  describe('QueueWorker', () => {
+    it('runs due jobs through their handler', async () => {
+      const queue = new QueueService(db);
+      const job = queue.enqueue('test.handled', { value: 42 });
+      const handler = vi.fn().mockResolvedValue(undefined);
+
+      const processed = await new QueueWorker(db, { 'test.handled': handler }).runOnce();
+      expect(processed).toBe(1);
+      expect(handler.mock.calls[0][0].payload).toEqual({ value: 42 });
+      expect(queue.getById(job.id)!.status).toBe('completed');
+    });
+
+    it('records handler errors on the job', async () => {
+      const queue = new QueueService(db);
+      const job = queue.enqueue('test.failing', {}, { maxAttempts: 2 });
+
+      await new QueueWorker(db, { 'test.failing': async () => { throw new Error('nope'); } }).runOnce();
+      const updated = queue.getById(job.id)!;
+      expect(updated.status).toBe('pending');
+      expect(updated.lastError).toBe('nope');
+    });
+
+    it('fails jobs without a registered handler', async () => {
+      const queue = new QueueService(db);
+      const job = queue.enqueue('test.unknown', {}, { maxAttempts: 1 });
+
+      await new QueueWorker(db, {}).runOnce();
+      expect(queue.getById(job.id)!.lastError).toMatch(/no handler/i);
+    });
+  });
+
+  describe('Webhook deliveries', () => {
+    it('queues a job per delivery instead of delivering inline', () => {
+      const fetchMock = vi.fn();
+      vi.stubGlobal('fetch', fetchMock);
+
+      const service = new WebhookService(db);
+      const webhook = service.create('queue-user', { url: 'https://example.com/hook', secret: 's', events: ['task_assigned'] });
+      markVerified(db, webhook.id);
+      const [delivery] = service.enqueue('task_assigned', { hello: 'world' }, 'queue-user');
+
+      expect(delivery.status).toBe('pending');
+      expect(fetchMock).not.toHaveBeenCalled();
+      expect(new QueueService(db).hasActiveJob('webhook.deliver', 'deliveryId', delivery.id)).toBe(true);
+    });
+
+    it('keeps a delivery pending between attempts and fails it on the last one', async () => {
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response('down', { status: 503 })));
+
+      const service = new WebhookService(db);
+      const webhook = service.create('retry-user', {
+        url: 'https://example.com/hook',
+        secret: 's',
+        events: ['task_assigned'],
+      });
+      markVerified(db, webhook.id);
+      const [delivery] = service.enqueue('task_assigned', {}, 'retry-user');
+
+      const first = await service.attemptDelivery(delivery.id, false);
+      expect(first).toEqual({ ok: false, responseCode: 503, error: 'Endpoint responded with 503' });
+      expect(service.getDeliveries(webhook.id, 'retry-user')[0].status).toBe('pending');
+
+      await service.attemptDelivery(delivery.id, true);
+      const [final] = service.getDeliveries(webhook.id, 'retry-user');
+      expect(final.status).toBe('failed');
+      expect(final.attempts).toBe(2);
+    });
+
+    it('resumes pending deliveries that have no job', () => {
+      const service = new WebhookService(db);
+      const webhook = service.create('resume-user', {
+        url: 'https://example.com/hook',
+        secret: 's',
+        events: ['task_assigned'],
+      });
+      db.prepare(`
+        INSERT INTO webhook_deliveries (id, webhook_id, event_type, payload, status, attempts)
+        VALUES ('orphan-delivery', ?, 'task_assigned', '{}', 'pending', 1)
+      `).run(webhook.id);
+
+      expect(service.resumePending()).toBe(1);
+      expect(service.resumePending()).toBe(0);
+    });
+
+    it('delivers queued webhooks through the worker', async () => {
+      const fetchMock = vi.fn().mockResolvedValue(new Response('ok', { status: 200 }));
+      vi.stubGlobal('fetch', fetchMock);
+
+      const service = new WebhookService(db);
+      const webhook = service.create('worker-user', {
+        url: 'https://example.com/worker-hook',
+        secret: 's',
+        events: ['comment_added'],
+      });
+      markVerified(db, webhook.id);
+      service.enqueue('comment_added', { id: 1 }, 'worker-user');
+
+      await new QueueWorker(db, createJobHandlers(db)).runOnce();
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(service.getDeliveries(webhook.id, 'worker-user')[0].status).toBe('delivered');
+    });
+  });
+});
@@ -0,0 +1,527 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import request from 'supertest';
+import http from 'http';
+import { AddressInfo } from 'net';
+import Database from 'better-sqlite3';
+import { WebSocket } from 'ws';
+import { createApp } from '../src/server.js';
+import { initializeDatabase } from '../src/db/schema.js';
+import { NotificationService } from '../src/services/notification.service.js';
+import { NotificationEvent, NotificationEventService } from '../src/services/notification-events.service.js';
+
+interface StreamMessage {
+  id?: string;
+  event?: string;
+  data?: unknown;
+}
+
+// Minimal SSE client: collects parsed messages until closed
+function openStream(baseUrl: string, headers: Record<string, string>) {
+  const messages: StreamMessage[] = [];
+  let buffer = '';
+  let onMessage: (() => void) | null = null;
+
+  const req = http.get(`${baseUrl}/notifications/stream`, { headers }, res => {
+    res.setEncoding('utf8');
+    res.on('data', (chunk: string) => {
+      buffer += chunk;
+      let end: number;
+      while ((end = buffer.indexOf('\n\n')) !== -1) {
+        const block = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+        const message: StreamMessage = {};
+        for (const line of block.split('\n')) {
+          const [field, ...rest] = line.split(': ');
+          const value = rest.join(': ');
+          if (field === 'id') message.id = value;
+          if (field === 'event') message.event = value;
+          if (field === 'data') message.data = JSON.parse(value);
+        }
+        if (message.event) messages.push(message);
+        onMessage?.();
+      }
+    });
+  });
+  req.on('error', () => {});
+
+  return {
+    messages,
+    async waitFor(count: number): Promise<StreamMessage[]> {
+      const deadline = Date.now() + 2000;
+      while (messages.length < count) {
+        if (Date.now() > deadline) throw new Error(`Timed out with ${messages.length}/${count} messages`);
+        await new Promise<void>(resolve => {
+          onMessage = resolve;
+          setTimeout(resolve, 50);
+        });
+      }
+      return messages;
+    },
+    close: () => req.destroy(),
+  };
+}
+
+interface SocketClient {
+  socket: WebSocket;
+  messages: any[];
+  // Resolves with the close code
+  closed: Promise<number>;
+  next(type: string): Promise<any>;
+}
+
+// Resolves once the handshake completes, or rejects with the HTTP status it was refused with
+function connectSocket(url: string, headers: Record<string, string> = {}): Promise<SocketClient> {
+  return new Promise((resolve, reject) => {
+    const socket = new WebSocket(url, { headers });
+    const messages: any[] = [];
+    const waiters: { type: string; resolve: (message: any) => void }[] = [];
+    let seen = 0;
+    const closed = new Promise<number>(resolveClose => socket.on('close', code => resolveClose(code)));
+
+    socket.on('message', data => {
+      const message = JSON.parse(data.toString());
+      messages.push(message);
+      const index = waiters.findIndex(w => w.type === message.type);
+      if (index !== -1) {
+        seen = messages.length;
+        waiters.splice(index, 1)[0].resolve(message);
+      }
+    });
+    socket.on('unexpected-response', (_req, res) => reject(new Error(String(res.statusCode))));
+    socket.on('error', reject);
+    socket.on('open', () => resolve({
+      socket,
+      messages,
+      closed,
+      next(type: string) {
+        const pending = messages.slice(seen).find(m => m.type === type);
+        if (pending) {
+          seen = messages.indexOf(pending) + 1;
+          return Promise.resolve(pending);
+        }
+        return new Promise((resolveMessage, rejectMessage) => {
+          waiters.push({ type, resolve: resolveMessage });
+          setTimeout(() => rejectMessage(new Error(`Timed out waiting for ${type}`)), 2000);
+        });
+      },
+    }));
+  });
+}
+
+describe('Real-time notifications', () => {
+  let app: ReturnType<typeof createApp>['app'];
+  let db: Database.Database;
+  let server: http.Server;
+  let gateway: ReturnType<typeof createApp>['gateway'];
+  let baseUrl: string;
+  let wsUrl: string;
+
+  const headersFor = (userId: string) => ({
+    'x-user-id': userId,
+    'x-user-email': `${userId}@example.com`,
+    'x-user-role': 'member',
+  });
+
+  function sendInApp(userId: string, title = 'Hello') {
+    return new NotificationService(db).send({
+      userId,
+      type: 'comment_added',
+      title,
+      body: 'Body',
+      channels: ['in_app'],
+    });
+  }
+
+  beforeAll(async () => {
+    db = new Database(':memory:');
+    initializeDatabase(db);
+    ({ app, server, gateway } = createApp({ db, websocket: { heartbeatMs: 50, maxConnectionsPerUser: 2 } }));
+    server.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    wsUrl = `ws://127.0.0.1:${(server.address() as AddressInfo).port}/notifications/ws`;
+  });
+
+  afterAll(async () => {
+    gateway.close();
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+    db.close();
+  });
+
+  describe('NotificationEventService', () => {
+    it('assigns increasing sequence numbers and replays per user', () => {
+      const events = new NotificationEventService(db);
+      const first = events.publish('seq-user', 'unread_count', { count: 1 });
+      events.publish('other-user', 'unread_count', { count: 5 });
+      const second = events.publish('seq-user', 'unread_count', { count: 2 });
+
+      expect(second.seq).toBeGreaterThan(first.seq);
+      expect(events.since('seq-user', 0).map(e => e.seq)).toEqual([first.seq, second.seq]);
+      expect(events.since('seq-user', first.seq).map(e => e.data)).toEqual([{ count: 2 }]);
+    });
+
+    it('pushes live events to subscribers of that user only', () => {
+      const events = new NotificationEventService(db);
+      const received: NotificationEvent[] = [];
+      const unsubscribe = events.subscribe('live-user', event => received.push(event));
+
+      events.publish('live-user', 'unread_count', { count: 1 });
+      events.publish('someone-else', 'unread_count', { count: 1 });
+      unsubscribe();
+      events.publish('live-user', 'unread_count', { count: 2 });
+
+      expect(received.map(e => e.data)).toEqual([{ count: 1 }]);
+    });
+
+    it('pushes events published in a transaction only after it commits', async () => {
+      const events = new NotificationEventService(db);
+      const received: NotificationEvent[] = [];
+      const unsubscribe = events.subscribe('tx-user', event => received.push(event));
+
+      db.transaction(() => {
+        events.publish('tx-user', 'unread_count', { count: 1 });
+        expect(received).toHaveLength(0);
+      })();
+      events.publish('tx-user', 'unread_count', { count: 2 });
+      expect(received).toHaveLength(0);
+
+      await Promise.resolve();
+      unsubscribe();
+      expect(received.map(e => e.data)).toEqual([{ count: 1 }, { count: 2 }]);
+    });
+
+    it('drops events of a rolled back transaction', async () => {
+      const events = new NotificationEventService(db);
+      const received: NotificationEvent[] = [];
+      const unsubscribe = events.subscribe('rollback-user', event => received.push(event));
+
+      let rolledBack = 0;
+      expect(() => db.transaction(() => {
+        rolledBack = events.publish('rollback-user', 'unread_count', { count: 1 }).seq;
+        throw new Error('abort');
+      })()).toThrow('abort');
+      // The rolled back seq is handed out again
+      const committed = events.publish('rollback-user', 'unread_count', { count: 7 });
+      expect(committed.seq).toBe(rolledBack);
+
+      await new Promise(resolve => setImmediate(resolve));
+      unsubscribe();
+      expect(received.map(e => e.data)).toEqual([{ count: 7 }]);
+      expect(events.since('rollback-user', 0).map(e => e.data)).toEqual([{ count: 7 }]);
+    });
+
+    it('prunes events past the retention window', () => {
+      const events = new NotificationEventService(db);
+      const event = events.publish('prune-user', 'unread_count', { count: 0 });
+      db.prepare("UPDATE notification_events SET created_at = datetime('now', '-2 days') WHERE seq = ?").run(event.seq);
+
+      expect(events.prune(24)).toBe(1);
+      expect(events.since('prune-user', 0)).toEqual([]);
+    });
+  });
+
+  describe('Published events', () => {
+    it('publishes created and unread count for in-app notifications', () => {
+      const [notification] = sendInApp('publish-user');
+      const events = new NotificationEventService(db).since('publish-user', 0);
+
+      expect(events.map(e => e.type)).toEqual(['notification.created', 'unread_count']);
+      expect((events[0].data.notification as { id: string }).id).toBe(notification.id);
+      expect(events[1].data).toEqual({ count: 1 });
+    });
+
+    it('does not publish created events for other channels', () => {
+      new NotificationService(db).send({
+        userId: 'email-only-user',
+        type: 'comment_added',
+        title: 'Mail',
+        body: 'Body',
+        channels: ['email'],
+        email: 'someone@example.com',
+      });
+      const types = new NotificationEventService(db).since('email-only-user', 0).map(e => e.type);
+      expect(types).toEqual(['unread_count']);
+    });
+
+    it('publishes read changes only when something changed', () => {
+      const [notification] = sendInApp('read-user');
+      sendInApp('read-user');
+      const service = new NotificationService(db);
+      const events = new NotificationEventService(db);
+      const before = events.since('read-user', 0).at(-1)!.seq;
+
+      service.markAsRead(notification.id, 'read-user');
+      service.markAsRead(notification.id, 'read-user');
+      service.markAllAsRead('read-user');
+      service.markAllAsRead('read-user');
+
+      expect(events.since('read-user', before).map(e => [e.type, e.data])).toEqual([
+        ['notification.read', { id: notification.id }],
+        ['unread_count', { count: 1 }],
+        ['notification.read_all', { updated: 1 }],
+        ['unread_count', { count: 0 }],
+      ]);
+    });
+  });
+
+  describe('GET /notifications/stream', () => {
+    it('requires authentication', async () => {
+      const res = await request(app).get('/notifications/stream');
+      expect(res.status).toBe(401);
+    });
+
+    it('rejects an invalid Last-Event-ID', async () => {
+      const res = await request(app)
+        .get('/notifications/stream')
+        .set({ ...headersFor('stream-user'), 'Last-Event-ID': 'abc' });
+      expect(res.status).toBe(400);
+    });
+
+    it('sends the unread count on connect and pushes new notifications', async () => {
+      sendInApp('stream-user', 'Before connect');
+      const stream = openStream(baseUrl, headersFor('stream-user'));
+      try {
+        const [snapshot] = await stream.waitFor(1);
+        expect(snapshot).toEqual({ event: 'unread_count', data: { count: 1 } });
+
+        sendInApp('stream-user', 'Live');
+        sendInApp('another-user', 'Not for this stream');
+        const messages = await stream.waitFor(3);
+
+        expect(messages[1].event).toBe('notification.created');
+        expect((messages[1].data as any).notification.title).toBe('Live');
+        expect(messages[1].id).toMatch(/^\d+$/);
+        expect(messages[2]).toMatchObject({ event: 'unread_count', data: { count: 2 } });
+        await new Promise(resolve => setTimeout(resolve, 50));
+        expect(messages).toHaveLength(3);
+      } finally {
+        stream.close();
+      }
+    });
+
+    it('replays events after Last-Event-ID on reconnect', async () => {
+      const [first] = sendInApp('resume-user', 'Seen');
+      const lastSeen = new NotificationEventService(db).since('resume-user', 0).at(-1)!.seq;
+      sendInApp('resume-user', 'Missed');
+      new NotificationService(db).markAsRead(first.id, 'resume-user');
+
+      const stream = openStream(baseUrl, { ...headersFor('resume-user'), 'Last-Event-ID': String(lastSeen) });
+      try {
+        const messages = await stream.waitFor(5);
+        expect(messages.map(m => m.event)).toEqual([
+          'notification.created',
+          'unread_count',
+          'notification.read',
+          'unread_count',
+          'unread_count',
+        ]);
+        expect((messages[0].data as any).notification.title).toBe('Missed');
+        expect(messages.slice(0, 4).every(m => Number(m.id) > lastSeen)).toBe(true);
+        // Closing snapshot has no id, so it does not move the resume point
+        expect(messages[4]).toEqual({ event: 'unread_count', data: { count: 1 } });
+      } finally {
+        stream.close();
+      }
+    });
+    it('does not push an event again that was replayed while its transaction was open', async () => {
+      const events = new NotificationEventService(db);
+      const before = events.publish('sse-tx-user', 'unread_count', { count: 0 }).seq;
+
+      db.exec('BEGIN');
+      const stream = openStream(baseUrl, { ...headersFor('sse-tx-user'), 'Last-Event-ID': String(before) });
+      const held = events.publish('sse-tx-user', 'unread_count', { count: 1 }).seq;
+      try {
+        // The connection shares the handle, so the replay already sees the uncommitted event
+        await stream.waitFor(2);
+      } finally {
+        db.exec('COMMIT');
+      }
+
+      try {
+        await new Promise(resolve => setTimeout(resolve, 50));
+        expect(stream.messages.filter(m => m.id === String(held))).toHaveLength(1);
+      } finally {
+        stream.close();
+      }
+    });
+  });
+
+  describe('WebSocket gateway', () => {
+    it('rejects unauthenticated handshakes and unknown paths', async () => {
+      await expect(connectSocket(wsUrl)).rejects.toThrow('401');
+      await expect(connectSocket(`${wsUrl}?ticket=bogus`)).rejects.toThrow('401');
+      await expect(connectSocket(wsUrl.replace('/notifications/ws', '/other'), headersFor('ws-user'))).rejects.toThrow('404');
+    });
+
+    it('authenticates with headers and pushes notifications to every open tab', async () => {
+      const first = await connectSocket(wsUrl, headersFor('tabs-user'));
+      const second = await connectSocket(wsUrl, headersFor('tabs-user'));
+      try {
+        expect((await first.next('ready')).data.unreadCount).toBe(0);
+        await second.next('ready');
+
+        const [notification] = sendInApp('tabs-user', 'Fan out');
+        for (const client of [first, second]) {
+          const pushed = await client.next('notification');
+          expect(pushed.data.id).toBe(notification.id);
+          expect(pushed.seq).toBeGreaterThan(0);
+          expect((await client.next('unread_count')).data).toEqual({ count: 1 });
+        }
+      } finally {
+        first.socket.close();
+        second.socket.close();
+      }
+    });
+
+    it('authenticates with a single-use ticket', async () => {
+      const res = await request(app).post('/notifications/ws-ticket').set(headersFor('ticket-user'));
+      expect(res.status).toBe(201);
+      const { ticket } = res.body.data;
+
+      const client = await connectSocket(`${wsUrl}?ticket=${ticket}`);
+      try {
+        expect((await client.next('ready')).data.connectionId).toBeDefined();
+        sendInApp('ticket-user', 'Via ticket');
+        expect((await client.next('notification')).data.title).toBe('Via ticket');
+      } finally {
+        client.socket.close();
+      }
+      await expect(connectSocket(`${wsUrl}?ticket=${ticket}`)).rejects.toThrow('401');
+    });
+
+    it('handles mark-read, ack and ping commands', async () => {
+      const [notification] = sendInApp('command-user', 'Command');
+      const client = await connectSocket(wsUrl, headersFor('command-user'));
+      const other = await connectSocket(wsUrl, headersFor('command-user'));
+      try {
+        await client.next('ready');
+        client.socket.send(JSON.stringify({ type: 'mark_read', id: notification.id, requestId: 'r1' }));
+        const result = await client.next('result');
+        expect(result).toMatchObject({ command: 'mark_read', requestId: 'r1', ok: true, data: { id: notification.id, read: true } });
+        // Other tabs learn about it through the event stream
+        expect((await other.next('notification.read')).data).toEqual({ id: notification.id });
+
+        client.socket.send(JSON.stringify({ type: 'mark_read', id: 'missing', requestId: 'r2' }));
+        expect(await client.next('result')).toMatchObject({ requestId: 'r2', ok: false, error: { code: 'NOT_FOUND' } });
+
+        client.socket.send(JSON.stringify({ type: 'ack', seq: 42 }));
+        expect((await client.next('result')).data).toEqual({ seq: 42 });
+
+        client.socket.send(JSON.stringify({ type: 'ping', requestId: 'p' }));
+        expect(await client.next('pong')).toEqual({ type: 'pong', requestId: 'p' });
+
+        client.socket.send('not json');
+        expect((await client.next('error')).error.code).toBe('VALIDATION_ERROR');
+      } finally {
+        client.socket.close();
+        other.socket.close();
+      }
+    });
+
+    it('replays missed events after lastEventId', async () => {
+      sendInApp('ws-resume-user', 'Seen');
+      const lastSeen = new NotificationEventService(db).since('ws-resume-user', 0).at(-1)!.seq;
+      sendInApp('ws-resume-user', 'Missed');
+
+      const client = await connectSocket(`${wsUrl}?lastEventId=${lastSeen}`, headersFor('ws-resume-user'));
+      try {
+        expect((await client.next('notification')).data.title).toBe('Missed');
+      } finally {
+        client.socket.close();
+      }
+    });
+
+    it('does not push an event again that was replayed while its transaction was open', async () => {
+      const events = new NotificationEventService(db);
+      const before = events.publish('ws-tx-user', 'unread_count', { count: 0 }).seq;
+
+      db.exec('BEGIN');
+      const held = events.publish('ws-tx-user', 'unread_count', { count: 1 }).seq;
+      let client: SocketClient | undefined;
+      try {
+        client = await connectSocket(`${wsUrl}?lastEventId=${before}`, headersFor('ws-tx-user'));
+        expect((await client.next('unread_count')).seq).toBe(held);
+        db.exec('COMMIT');
+
+        await new Promise(resolve => setTimeout(resolve, 50));
+        expect(client.messages.filter(m => m.seq === held)).toHaveLength(1);
+      } finally {
+        if (db.inTransaction) db.exec('COMMIT');
+        client?.socket.close();
+      }
+    });
+
+    it('resumes after the acknowledged seq when reconnecting without lastEventId', async () => {
+      const first = await connectSocket(wsUrl, headersFor('ws-ack-user'));
+      let acked: number;
+      try {
+        await first.next('ready');
+        sendInApp('ws-ack-user', 'Processed');
+        sendInApp('ws-ack-user', 'Unprocessed');
+        acked = (await first.next('notification')).seq;
+        expect((await first.next('notification')).data.title).toBe('Unprocessed');
+
+        first.socket.send(JSON.stringify({ type: 'ack', seq: acked }));
+        expect((await first.next('result')).data).toEqual({ seq: acked });
+      } finally {
+        first.socket.close();
+      }
+      await first.closed;
+      sendInApp('ws-ack-user', 'While away');
+
+      const second = await connectSocket(wsUrl, headersFor('ws-ack-user'));
+      try {
+        const replayed = [await second.next('notification'), await second.next('notification')];
+        expect(replayed.map(m => m.data.title)).toEqual(['Unprocessed', 'While away']);
+        expect(replayed[0].seq).toBeGreaterThan(acked);
+      } finally {
+        second.socket.close();
+      }
+    });
+
+    it('caps connections per user', async () => {
+      const first = await connectSocket(wsUrl, headersFor('cap-user'));
+      const second = await connectSocket(wsUrl, headersFor('cap-user'));
+      try {
+        await expect(connectSocket(wsUrl, headersFor('cap-user'))).rejects.toThrow('429');
+        expect(gateway.connectionCount('cap-user')).toBe(2);
+      } finally {
+        first.socket.close();
+        second.socket.close();
+      }
+      await Promise.all([first.closed, second.closed]);
+      await new Promise(resolve => setTimeout(resolve, 20));
+      expect(gateway.connectionCount('cap-user')).toBe(0);
+    });
+
+    it('drops connections that stop answering heartbeats', async () => {
+      const client = await connectSocket(wsUrl, headersFor('silent-user'));
+      await client.next('ready');
+      // Stop reading so pings go unanswered
+      (client.socket as any)._socket.pause();
+
+      const deadline = Date.now() + 2000;
+      while (gateway.connectionCount('silent-user') > 0 && Date.now() < deadline) {
+        await new Promise(resolve => setTimeout(resolve, 25));
+      }
+      expect(gateway.connectionCount('silent-user')).toBe(0);
+      client.socket.terminate();
+    });
+
+    it('disconnects clients that fall behind the buffer limit', async () => {
+      const slow = createApp({ db, websocket: { maxBufferedBytes: -1 } });
+      slow.server.listen(0);
+      await new Promise(resolve => slow.server.once('listening', resolve));
+      try {
+        const port = (slow.server.address() as AddressInfo).port;
+        const client = await connectSocket(`ws://127.0.0.1:${port}/notifications/ws`, headersFor('slow-user'));
+        expect(await client.closed).toBe(1013);
+      } finally {
+        slow.gateway.close();
+        slow.server.closeAllConnections();
+        await new Promise(resolve => slow.server.close(resolve));
+      }
+    });
+  });
+});
@@ -0,0 +1,203 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import request from 'supertest';
+import Database from 'better-sqlite3';
+import { createApp } from '../src/server.js';
+import { initializeDatabase } from '../src/db/schema.js';
+import { NotificationService } from '../src/services/notification.service.js';
+import { ScheduledNotificationService } from '../src/services/scheduled-notification.service.js';
+import { NotificationScheduler } from '../src/workers/scheduler.worker.js';
+
+describe('Scheduled notifications', () => {
+  let app: ReturnType<typeof createApp>['app'];
+  let db: Database.Database;
+
+  const serviceHeaders = { 'x-service-token': 'nexus-internal-service-token' };
+  const inOneHour = () => new Date(Date.now() + 60 * 60 * 1000);
+  const inTwoHours = () => new Date(Date.now() + 2 * 60 * 60 * 1000);
+
+  function reminder(userId: string, extra: Record<string, unknown> = {}) {
+    return {
+      userId,
+      type: 'task_due_soon',
+      title: 'Task due soon',
+      body: 'Finish the report',
+      metadata: { taskId: 'task-1' },
+      ...extra,
+    };
+  }
+
+  beforeAll(() => {
+    db = new Database(':memory:');
+    initializeDatabase(db);
+    ({ app } = createApp({ db }));
+  });
+
+  afterAll(() => {
+    db.close();
+  });
+
+  describe('Scheduling', () => {
+    it('stores a delayed send instead of sending it', async () => {
+      const res = await request(app)
+        .post('/notifications/send')
+        .set(serviceHeaders)
+        .send(reminder('delay-user', { delaySeconds: 3600, correlationKey: 'due:task-1:delay-user' }));
+
+      expect(res.status).toBe(202);
+      expect(res.body.data.status).toBe('pending');
+      expect(res.body.data.correlationKey).toBe('due:task-1:delay-user');
+      expect(res.body.data.request).toMatchObject({ userId: 'delay-user', type: 'task_due_soon' });
+      expect(res.body.data.request.delaySeconds).toBeUndefined();
+      const delay = new Date(res.body.data.sendAt).getTime() - Date.now();
+      expect(delay).toBeGreaterThan(3590 * 1000);
+      expect(delay).toBeLessThanOrEqual(3600 * 1000);
+
+      expect(new NotificationService(db).list('delay-user').total).toBe(0);
+    });
+
+    it('accepts an absolute sendAt and defaults the key to the id', async () => {
+      const sendAt = '2030-06-01T09:00:00+02:00';
+      const res = await request(app)
+        .post('/notifications/send')
+        .set(serviceHeaders)
+        .send(reminder('at-user', { sendAt }));
+
+      expect(res.status).toBe(202);
+      expect(res.body.data.sendAt).toBe('2030-06-01T07:00:00.000Z');
+      expect(res.body.data.correlationKey).toBe(res.body.data.id);
+    });
+
+    it('rejects a second pending schedule with the same key', async () => {
+      const body = reminder('dup-user', { delaySeconds: 60, correlationKey: 'dup-key' });
+      await request(app).post('/notifications/send').set(serviceHeaders).send(body).expect(202);
+
+      const res = await request(app).post('/notifications/send').set(serviceHeaders).send(body);
+      expect(res.status).toBe(409);
+      expect(res.body.error.code).toBe('CONFLICT');
+    });
+
+    it('validates the schedule fields', async () => {
+      for (const extra of [
+        { sendAt: '2030-01-01T00:00:00Z', delaySeconds: 60 },
+        { delaySeconds: 0 },
+        { delaySeconds: 400 * 24 * 60 * 60 },
+        { sendAt: 'next tuesday' },
+        { correlationKey: 'no-time' },
+      ]) {
+        const res = await request(app).post('/notifications/send').set(serviceHeaders).send(reminder('bad-user', extra));
+        expect(res.status, JSON.stringify(extra)).toBe(400);
+      }
+    });
+  });
+
+  describe('Scheduler', () => {
+    it('sends due notifications through the normal send path', () => {
+      const service = new ScheduledNotificationService(db);
+      const scheduled = service.schedule(
+        { userId: 'fire-user', type: 'task_due_soon', title: 'Due', body: 'Soon', channels: ['in_app'] },
+        inOneHour(),
+        'fire-key',
+      );
+
+      const scheduler = new NotificationScheduler(db);
+      expect(scheduler.runOnce(new Date())).toBe(0);
+      expect(service.getById(scheduled.id)!.status).toBe('pending');
+
+      expect(scheduler.runOnce(inTwoHours())).toBeGreaterThanOrEqual(1);
+      const fired = service.getById(scheduled.id)!;
+      expect(fired.status).toBe('sent');
+      expect(fired.sentAt).not.toBeNull();
+
+      const [notification] = new NotificationService(db).list('fire-user').items;
+      expect(fired.notificationIds).toEqual([notification.id]);
+      expect(notification.title).toBe('Due');
+
+      // Already sent; a later tick does not send it again
+      scheduler.runOnce(inTwoHours());
+      expect(new NotificationService(db).list('fire-user').total).toBe(1);
+    });
+
+    it('marks a schedule failed when its request cannot be sent', () => {
+      const service = new ScheduledNotificationService(db);
+      const scheduled = service.schedule(
+        { userId: 'broken-user', type: 'task_due_soon', title: 'Due', body: 'Soon' },
+        new Date(Date.now() - 1000),
+      );
+      db.prepare("UPDATE scheduled_notifications SET request = '{}' WHERE id = ?").run(scheduled.id);
+
+      new NotificationScheduler(db).runOnce();
+      const failed = service.getById(scheduled.id)!;
+      expect(failed.status).toBe('failed');
+      expect(failed.error).toBeTruthy();
+    });
+  });
+
+  describe('Routes', () => {
+    it('GET /notifications/scheduled filters by user, key and status', async () => {
+      await request(app)
+        .post('/notifications/send')
+        .set(serviceHeaders)
+        .send(reminder('list-user', { delaySeconds: 120, correlationKey: 'list-key-b' }));
+      await request(app)
+        .post('/notifications/send')
+        .set(serviceHeaders)
+        .send(reminder('list-user', { delaySeconds: 60, correlationKey: 'list-key-a' }));
+
+      const res = await request(app).get('/notifications/scheduled?userId=list-user&status=pending').set(serviceHeaders);
+      expect(res.status).toBe(200);
+      expect(res.body.data.total).toBe(2);
+      // Soonest first
+      expect(res.body.data.items.map((s: any) => s.correlationKey)).toEqual(['list-key-a', 'list-key-b']);
+
+      const byKey = await request(app).get('/notifications/scheduled?correlationKey=list-key-b').set(serviceHeaders);
+      expect(byKey.body.data.items).toHaveLength(1);
+    });
+
+    it('PATCH /notifications/scheduled/:key moves the pending send', async () => {
+      await request(app)
+        .post('/notifications/send')
+        .set(serviceHeaders)
+        .send(reminder('move-user', { delaySeconds: 60, correlationKey: 'move-key' }));
+
+      const res = await request(app)
+        .patch('/notifications/scheduled/move-key')
+        .set(serviceHeaders)
+        .send({ sendAt: '2031-01-01T00:00:00Z' });
+      expect(res.status).toBe(200);
+      expect(res.body.data.sendAt).toBe('2031-01-01T00:00:00.000Z');
+      expect(res.body.data.status).toBe('pending');
+
+      const invalid = await request(app).patch('/notifications/scheduled/move-key').set(serviceHeaders).send({});
+      expect(invalid.status).toBe(400);
+    });
+
+    it('DELETE /notifications/scheduled/:key cancels so the scheduler skips it', async () => {
+      const created = await request(app)
+        .post('/notifications/send')
+        .set(serviceHeaders)
+        .send(reminder('cancel-user', { delaySeconds: 60, correlationKey: 'task-done' }));
+
+      const res = await request(app).delete('/notifications/scheduled/task-done').set(serviceHeaders);
+      expect(res.status).toBe(200);
+      expect(res.body.data.status).toBe('cancelled');
+
+      new NotificationScheduler(db).runOnce(inTwoHours());
+      expect(new ScheduledNotificationService(db).getById(created.body.data.id)!.status).toBe('cancelled');
+      expect(new NotificationService(db).list('cancel-user').total).toBe(0);
+
+      // Nothing pending under the key any more, and the key can be reused
+      await request(app).delete('/notifications/scheduled/task-done').set(serviceHeaders).expect(404);
+      await request(app).patch('/notifications/scheduled/task-done').set(serviceHeaders).send({ delaySeconds: 5 }).expect(404);
+      await request(app)
+        .post('/notifications/send')
+        .set(serviceHeaders)
+        .send(reminder('cancel-user', { delaySeconds: 60, correlationKey: 'task-done' }))
+        .expect(202);
+    });
+
+    it('requires the service token', async () => {
+      await request(app).get('/notifications/scheduled').set({ 'x-user-id': 'someone' }).expect(403);
+      await request(app).delete('/notifications/scheduled/any').expect(403);
+    });
+  });
+});
@@ -0,0 +1,11 @@
+import dns from 'dns';
+import { vi } from 'vitest';
+
+// Webhook URLs are resolved before every request; keep tests off real DNS by
+// resolving every hostname to a fixed public address. Tests override per call.
+vi.spyOn(dns.promises, 'lookup').mockImplementation(
+  (async () => [{ address: '93.184.215.14', family: 4 }]) as never,
+);
+
+// Workers built without an explicit transport would print every email
+process.env.EMAIL_TRANSPORT ??= 'memory';
@@ -0,0 +1,325 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import request from 'supertest';
+import Database from 'better-sqlite3';
+import { createApp } from '../src/server.js';
+import { initializeDatabase } from '../src/db/schema.js';
+import { EmailService } from '../src/services/email.service.js';
+import { NotificationService } from '../src/services/notification.service.js';
+import { QueueService } from '../src/services/queue.service.js';
+import { SuppressionService } from '../src/services/suppression.service.js';
+import { MemoryTransport } from '../src/email/memory.transport.js';
+import { parseDsn } from '../src/email/dsn.js';
+
+const HARD_BOUNCE = [
+  'From: Mail Delivery System <MAILER-DAEMON@mx.example.net>',
+  'To: notifications@nexus.local',
+  'Subject: Undelivered Mail Returned to Sender',
+  'MIME-Version: 1.0',
+  'Content-Type: multipart/report; report-type=delivery-status;',
+  '  boundary="BOUNDARY.1"',
+  '',
+  'This is a MIME-encapsulated message.',
+  '',
+  '--BOUNDARY.1',
+  'Content-Type: text/plain; charset=us-ascii',
+  '',
+  'I\'m sorry to have to inform you that your message could not be delivered.',
+  '',
+  '--BOUNDARY.1',
+  'Content-Type: message/delivery-status',
+  '',
+  'Reporting-MTA: dns; mx.example.net',
+  'Arrival-Date: Mon, 15 Jan 2024 10:00:00 +0000',
+  '',
+  'Final-Recipient: rfc822; Gone@Example.com',
+  'Original-Recipient: rfc822; gone@example.com',
+  'Action: failed',
+  'Status: 5.1.1',
+  'Diagnostic-Code: smtp; 550 5.1.1 <gone@example.com>: Recipient address',
+  '  rejected: User unknown',
+  '',
+  'Final-Recipient: rfc822; slow@example.com',
+  'Action: delayed',
+  'Status: 4.4.1',
+  '',
+  'Final-Recipient: rfc822; fine@example.com',
+  'Action: delivered',
+  'Status: 2.0.0',
+  '',
+  '--BOUNDARY.1',
+  'Content-Type: text/rfc822-headers',
+  '',
+  'Message-ID: <bounced@nexus.local>',
+  'From: Nexus <notifications@nexus.local>',
+  'To: gone@example.com',
+  'Subject: New task',
+  '',
+  '--BOUNDARY.1--',
+  '',
+].join('\r\n');
+
+const COMPLAINT = [
+  'From: <staff@hotmail.example>',
+  'Subject: Complaint about message',
+  'MIME-Version: 1.0',
+  'Content-Type: multipart/report; report-type=feedback-report; boundary="part1_13d.2e68ed54"',
+  '',
+  '--part1_13d.2e68ed54',
+  'Content-Type: text/plain; charset="US-ASCII"',
+  '',
+  'This is an email abuse report.',
+  '',
+  '--part1_13d.2e68ed54',
+  'Content-Type: message/feedback-report',
+  '',
+  'Feedback-Type: abuse',
+  'User-Agent: SomeGenerator/1.0',
+  'Version: 1',
+  '',
+  '--part1_13d.2e68ed54',
+  'Content-Type: message/rfc822',
+  'Content-Disposition: inline',
+  '',
+  'Message-ID: <complained@nexus.local>',
+  'From: Nexus <notifications@nexus.local>',
+  'To: Angry Reader <Angry@Example.com>',
+  'Subject: Digest',
+  '',
+  'Your daily digest',
+  '',
+  '--part1_13d.2e68ed54--',
+].join('\r\n');
+
+describe('Email suppressions', () => {
+  let app: ReturnType<typeof createApp>['app'];
+  let db: Database.Database;
+
+  const serviceHeaders = { 'x-service-token': 'nexus-internal-service-token' };
+  const adminHeaders = { 'x-user-id': 'admin-1', 'x-user-role': 'admin' };
+
+  beforeAll(() => {
+    db = new Database(':memory:');
+    initializeDatabase(db);
+    ({ app } = createApp({ db }));
+  });
+
+  afterAll(() => {
+    db.close();
+  });
+
+  describe('DSN parser', () => {
+    it('reports failed and delayed recipients of a delivery status notification', () => {
+      expect(parseDsn(HARD_BOUNCE)).toEqual([
+        {
+          type: 'bounce',
+          email: 'Gone@Example.com',
+          bounceType: 'permanent',
+          diagnostic: '550 5.1.1 <gone@example.com>: Recipient address rejected: User unknown',
+          messageId: '<bounced@nexus.local>',
+        },
+        {
+          type: 'bounce',
+          email: 'slow@example.com',
+          bounceType: 'transient',
+          diagnostic: '4.4.1',
+          messageId: '<bounced@nexus.local>',
+        },
+      ]);
+    });
+
+    it('reads abuse reports as complaints', () => {
+      expect(parseDsn(COMPLAINT)).toEqual([
+        { type: 'complaint', email: 'Angry@Example.com', diagnostic: 'abuse', messageId: '<complained@nexus.local>' },
+      ]);
+    });
+
+    it('decodes base64 report parts and ignores ordinary mail', () => {
+      const report = 'Reporting-MTA: dns; mx\n\nFinal-Recipient: rfc822; b64@example.com\nAction: failed\nStatus: 5.2.1\n';
+      const status = Buffer.from(report).toString('base64');
+      const raw = [
+        'Content-Type: multipart/report; report-type=delivery-status; boundary=b',
+        '',
+        '--b',
+        'Content-Type: message/delivery-status',
+        'Content-Transfer-Encoding: base64',
+        '',
+        status,
+        '--b--',
+      ].join('\n');
+      expect(parseDsn(raw)).toMatchObject([{ email: 'b64@example.com', bounceType: 'permanent' }]);
+      expect(parseDsn('Subject: hello\n\nJust a message')).toEqual([]);
+    });
+  });
+
+  describe('SuppressionService', () => {
+    it('suppresses permanent bounces and complaints but not transient bounces', () => {
+      const results = new SuppressionService(db).ingest([
+        { type: 'bounce', email: 'Hard@Example.com', bounceType: 'permanent', diagnostic: '550 User unknown' },
+        { type: 'bounce', email: 'soft@example.com', bounceType: 'transient' },
+        { type: 'complaint', email: 'spam@example.com' },
+      ]);
+
+      expect(results).toEqual([
+        { email: 'hard@example.com', type: 'bounce', action: 'suppressed' },
+        { email: 'soft@example.com', type: 'bounce', action: 'ignored' },
+        { email: 'spam@example.com', type: 'complaint', action: 'suppressed' },
+      ]);
+      const service = new SuppressionService(db);
+      expect(service.get('HARD@example.com')).toMatchObject({ reason: 'bounce', detail: '550 User unknown' });
+      expect(service.get('soft@example.com')).toBeNull();
+    });
+
+    it('refreshes an existing suppression', () => {
+      const service = new SuppressionService(db);
+      service.suppress('again@example.com', 'bounce');
+      service.suppress('again@example.com', 'complaint', { messageId: '<m@nexus.local>' });
+      expect(service.get('again@example.com')).toMatchObject({ reason: 'complaint', messageId: '<m@nexus.local>' });
+    });
+  });
+
+  describe('Sending', () => {
+    it('records email to a suppressed address as suppressed without queueing it', () => {
+      new SuppressionService(db).suppress('blocked@example.com', 'bounce');
+      const email = new EmailService(db).send({ to: 'Blocked@example.com', subject: 'Hi', text: 'Body' });
+
+      expect(email.status).toBe('suppressed');
+      expect(email.error).toBe('Address is suppressed after a bounce');
+      expect(new QueueService(db).hasActiveJob('email.send', 'emailId', email.id)).toBe(false);
+    });
+
+    it('skips the email channel of a notification', () => {
+      new SuppressionService(db).suppress('complainer@example.com', 'complaint');
+      const [notification] = new NotificationService(db).send({
+        userId: 'complainer',
+        type: 'project_invited',
+        title: 'Invite',
+        body: 'Body',
+        channels: ['email'],
+        email: 'complainer@example.com',
+      });
+
+      expect(notification.delivery).toMatchObject({
+        status: 'skipped',
+        error: 'Address is suppressed after a complaint',
+      });
+    });
+
+    it('does not send a queued email whose address bounced in the meantime', async () => {
+      const service = new EmailService(db);
+      const transport = new MemoryTransport();
+      const email = service.send({ to: 'late@example.com', subject: 'Hi', text: 'Body' });
+      new SuppressionService(db).suppress('late@example.com', 'bounce');
+
+      expect(await service.deliver(email.id, transport, false)).toMatchObject({ ok: false, permanent: true });
+      expect(transport.messages).toHaveLength(0);
+      expect(service.getById(email.id)!.status).toBe('suppressed');
+    });
+
+    it('leaves suppressed cc and bcc addresses out', async () => {
+      const suppressions = new SuppressionService(db);
+      suppressions.suppress('cc-gone@example.com', 'bounce');
+      suppressions.suppress('bcc-gone@example.com', 'complaint');
+      const service = new EmailService(db);
+      const email = service.send({
+        to: 'main@example.com',
+        cc: ['CC-Gone@example.com', 'cc-ok@example.com'],
+        bcc: ['bcc-gone@example.com', 'bcc-ok@example.com', 'bcc-late@example.com'],
+        subject: 'Hi',
+        text: 'Body',
+      });
+
+      expect(email.status).toBe('queued');
+      expect(email.cc).toEqual(['cc-ok@example.com']);
+      expect(email.bcc).toEqual(['bcc-ok@example.com', 'bcc-late@example.com']);
+
+      suppressions.suppress('bcc-late@example.com', 'bounce');
+      const transport = new MemoryTransport();
+      expect(await service.deliver(email.id, transport, false)).toMatchObject({ ok: true });
+      expect(transport.messages[0].envelope.to).toEqual(['main@example.com', 'cc-ok@example.com', 'bcc-ok@example.com']);
+    });
+  });
+
+  describe('Routes', () => {
+    it('POST /emails/events ingests generic JSON events', async () => {
+      const res = await request(app)
+        .post('/emails/events')
+        .set(serviceHeaders)
+        .send({
+          events: [
+            { type: 'bounce', email: 'json-bounce@example.com', bounceType: 'permanent', messageId: '<x@nexus.local>' },
+            { type: 'complaint', email: 'json-complaint@example.com', diagnostic: 'abuse' },
+          ],
+        });
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.results.map((r: any) => r.action)).toEqual(['suppressed', 'suppressed']);
+      expect(new SuppressionService(db).get('json-bounce@example.com')!.messageId).toBe('<x@nexus.local>');
+    });
+
+    it('POST /emails/events validates events', async () => {
+      const send = (events: unknown) => request(app).post('/emails/events').set(serviceHeaders).send({ events });
+
+      expect((await send([])).status).toBe(400);
+      expect((await send([{ type: 'bounce', email: 'x@example.com' }])).status).toBe(400);
+      expect((await send([{ type: 'delivery', email: 'x@example.com' }])).status).toBe(400);
+      expect((await send([{ type: 'complaint', email: 'not-an-email' }])).status).toBe(400);
+    });
+
+    it('POST /emails/events/dsn parses raw bounce messages', async () => {
+      const res = await request(app)
+        .post('/emails/events/dsn')
+        .set(serviceHeaders)
+        .set('Content-Type', 'message/rfc822')
+        .send(HARD_BOUNCE);
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.results).toEqual([
+        { email: 'gone@example.com', type: 'bounce', action: 'suppressed' },
+        { email: 'slow@example.com', type: 'bounce', action: 'ignored' },
+      ]);
+
+      const plain = await request(app)
+        .post('/emails/events/dsn')
+        .set(serviceHeaders)
+        .set('Content-Type', 'text/plain')
+        .send('Subject: hi\n\nnot a report');
+      expect(plain.status).toBe(400);
+    });
+
+    it('lists, filters and removes suppressions', async () => {
+      const service = new SuppressionService(db);
+      service.suppress('list-a@example.com', 'bounce');
+      service.suppress('list-b@example.com', 'complaint');
+
+      const filtered = await request(app)
+        .get('/emails/suppressions?email=LIST-&reason=complaint')
+        .set(adminHeaders);
+      expect(filtered.status).toBe(200);
+      expect(filtered.body.data.items.map((s: any) => s.email)).toEqual(['list-b@example.com']);
+      expect(filtered.body.data.total).toBe(1);
+
+      const removed = await request(app)
+        .delete(`/emails/suppressions/${encodeURIComponent('LIST-B@example.com')}`)
+        .set(adminHeaders);
+      expect(removed.status).toBe(200);
+      expect(removed.body.data.email).toBe('list-b@example.com');
+      expect(service.get('list-b@example.com')).toBeNull();
+
+      await request(app).delete('/emails/suppressions/list-b@example.com').set(adminHeaders).expect(404);
+      await request(app).get('/emails/suppressions?reason=other').set(adminHeaders).expect(400);
+    });
+
+    it('requires the service token for events', async () => {
+      await request(app).post('/emails/events').send({ events: [] }).expect(403);
+      await request(app).post('/emails/events/dsn').send('x').expect(403);
+    });
+
+    it('requires an admin for the suppression list', async () => {
+      const memberHeaders = { 'x-user-id': 'member-1', 'x-user-role': 'member' };
+      await request(app).get('/emails/suppressions').expect(401);
+      await request(app).get('/emails/suppressions').set(serviceHeaders).expect(401);
+      await request(app).get('/emails/suppressions').set(memberHeaders).expect(403);
+      await request(app).delete('/emails/suppressions/a@example.com').set(memberHeaders).expect(403);
+    });
+  });
+});
@@ -0,0 +1,203 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import request from 'supertest';
+import Database from 'better-sqlite3';
+import { createApp } from '../src/server.js';
+import { initializeDatabase } from '../src/db/schema.js';
+import { EmailService } from '../src/services/email.service.js';
+import { TemplateError, TemplateRegistry, templateRegistry } from '../src/templates/registry.js';
+
+describe('Templates', () => {
+  let app: ReturnType<typeof createApp>['app'];
+  let db: Database.Database;
+
+  const serviceHeaders = { 'x-service-token': 'nexus-internal-service-token' };
+  const assignedVariables = { actorName: 'Ana', taskTitle: 'Fix login', projectName: 'Apollo' };
+
+  beforeAll(() => {
+    db = new Database(':memory:');
+    initializeDatabase(db);
+    ({ app } = createApp({ db }));
+  });
+
+  afterAll(() => {
+    db.close();
+  });
+
+  describe('TemplateRegistry', () => {
+    it('renders every part of a template', () => {
+      const rendered = templateRegistry.render('task_assigned', 'en', assignedVariables);
+      expect(rendered).toMatchObject({
+        templateId: 'task_assigned',
+        type: 'task_assigned',
+        locale: 'en',
+        title: 'Ana assigned you "Fix login"',
+        body: 'You are now responsible for "Fix login" in Apollo.',
+      });
+      expect(rendered.email.subject).toBe('New task: Fix login');
+      expect(rendered.email.html).toBe('<p>Ana assigned you <strong>Fix login</strong> in Apollo.</p>');
+    });
+
+    it('falls back to the base language and then the default locale', () => {
+      expect(templateRegistry.render('task_assigned', 'es-MX', assignedVariables).locale).toBe('es');
+      expect(templateRegistry.render('task_assigned', 'ja', assignedVariables).locale).toBe('en');
+      expect(templateRegistry.render('task_assigned', undefined, assignedVariables).title).toContain('assigned you');
+    });
+
+    it('escapes variables in HTML only', () => {
+      const rendered = templateRegistry.render('task_assigned', 'en', { ...assignedVariables, taskTitle: '<b>"x" & y</b>' });
+      expect(rendered.title).toBe('Ana assigned you "<b>"x" & y</b>"');
+      expect(rendered.email.html).toContain('<strong>&lt;b&gt;&quot;x&quot; &amp; y&lt;/b&gt;</strong>');
+    });
+
+    it('rejects unknown templates and missing variables', () => {
+      expect(() => templateRegistry.render('nope', 'en', {})).toThrow(TemplateError);
+      try {
+        templateRegistry.render('task_assigned', 'en', { actorName: 'Ana' });
+        expect.unreachable();
+      } catch (err) {
+        expect((err as TemplateError).missingVariables).toEqual(['projectName', 'taskTitle']);
+      }
+    });
+
+    it('lists templates with their locales and variables', () => {
+      const registry = new TemplateRegistry([
+        {
+          id: 'greeting',
+          type: 'project_invited',
+          locale: 'en',
+          title: 'Hi {{ name }}',
+          body: 'Welcome to {{project}}',
+          email: { subject: 'Hi', text: 'Hi', html: '<p>Hi</p>' },
+        },
+        {
+          id: 'greeting',
+          type: 'project_invited',
+          locale: 'de',
+          title: 'Hallo {{name}}',
+          body: 'Willkommen bei {{project}}',
+          email: { subject: 'Hallo', text: 'Hallo', html: '<p>Hallo</p>' },
+        },
+      ]);
+      expect(registry.list()).toEqual([
+        { id: 'greeting', type: 'project_invited', locales: ['de', 'en'], variables: ['name', 'project'] },
+      ]);
+    });
+  });
+
+  describe('Sending', () => {
+    it('renders the template at send time and emails the HTML variant', async () => {
+      const res = await request(app)
+        .post('/notifications/send')
+        .set(serviceHeaders)
+        .send({
+          userId: 'template-user',
+          type: 'task_assigned',
+          templateId: 'task_assigned',
+          locale: 'es',
+          // taskTitle and projectName come from metadata
+          metadata: { taskId: 't1', taskTitle: 'Arreglar login', projectName: 'Apollo' },
+          variables: { actorName: 'Ana' },
+          channels: ['in_app', 'email'],
+          email: 'template@example.com',
+        });
+
+      expect(res.status).toBe(201);
+      const [inApp, email] = res.body.data;
+      expect(inApp.title).toBe('Ana te asignó "Arreglar login"');
+      expect(inApp.emailContent).toBeNull();
+      expect(email.emailContent.subject).toBe('Nueva tarea: Arreglar login');
+
+      const sent = new EmailService(db).list().find(e => e.id === email.delivery.references[0])!;
+      expect(sent.subject).toBe('Nueva tarea: Arreglar login');
+      expect(sent.body.startsWith('Ana te asignó "Arreglar login" en Apollo.\n\n--\nUnsubscribe: ')).toBe(true);
+      expect(sent.html!.startsWith('<p>Ana te asignó <strong>Arreglar login</strong> en Apollo.</p>\n')).toBe(true);
+    });
+
+    it('rejects missing variables, unknown templates and mismatched types', async () => {
+      const send = (body: Record<string, unknown>) => request(app)
+        .post('/notifications/send')
+        .set(serviceHeaders)
+        .send({ userId: 'template-user', type: 'task_assigned', ...body });
+
+      const missing = await send({ templateId: 'task_assigned', variables: { actorName: 'Ana' } });
+      expect(missing.status).toBe(400);
+      expect(missing.body.error.details.variables[0]).toMatch(/projectName, taskTitle/);
+
+      const unknown = await send({ templateId: 'does_not_exist' });
+      expect(unknown.status).toBe(400);
+      expect(unknown.body.error.details.templateId).toBeDefined();
+
+      const mismatch = await send({ templateId: 'project_invited', variables: { actorName: 'Ana', projectName: 'Apollo' } });
+      expect(mismatch.status).toBe(400);
+
+      expect((await send({ templateId: 'task_assigned', title: 'Raw', variables: assignedVariables })).status).toBe(400);
+      expect((await send({ title: 'Only a title' })).status).toBe(400);
+      expect((await send({ templateId: 'task_assigned', locale: 'not a locale', variables: assignedVariables })).status).toBe(400);
+    });
+
+    it('renders per recipient locale in a batch', async () => {
+      const res = await request(app)
+        .post('/notifications/send-batch')
+        .set(serviceHeaders)
+        .send({
+          recipients: [{ userId: 'batch-en' }, { userId: 'batch-es', locale: 'es' }],
+          notification: {
+            type: 'project_invited',
+            templateId: 'project_invited',
+            variables: { actorName: 'Ana', projectName: 'Apollo' },
+            channels: ['in_app'],
+          },
+        });
+
+      expect(res.body.data.results.map((r: any) => r.data[0].title)).toEqual([
+        'You were invited to Apollo',
+        'Te invitaron a Apollo',
+      ]);
+    });
+  });
+
+  describe('Routes', () => {
+    it('POST /notifications/templates/preview renders without sending', async () => {
+      const before = new EmailService(db).list().length;
+      const res = await request(app)
+        .post('/notifications/templates/preview')
+        .set(serviceHeaders)
+        .send({ templateId: 'task_due_soon', locale: 'en-GB', variables: { taskTitle: 'Report', projectName: 'Apollo', dueDate: 'tomorrow' } });
+
+      expect(res.status).toBe(200);
+      expect(res.body.data).toMatchObject({
+        templateId: 'task_due_soon',
+        locale: 'en',
+        title: '"Report" is due tomorrow',
+        email: { subject: 'Reminder: Report is due tomorrow' },
+      });
+      expect(new EmailService(db).list()).toHaveLength(before);
+    });
+
+    it('POST /notifications/templates/preview reports missing variables', async () => {
+      const res = await request(app)
+        .post('/notifications/templates/preview')
+        .set(serviceHeaders)
+        .send({ templateId: 'task_due_soon' });
+      expect(res.status).toBe(400);
+      expect(res.body.error.details.variables).toBeDefined();
+    });
+
+    it('GET /notifications/templates lists the built-in templates', async () => {
+      const res = await request(app).get('/notifications/templates').set(serviceHeaders);
+      expect(res.status).toBe(200);
+      const assigned = res.body.data.find((t: any) => t.id === 'task_assigned');
+      expect(assigned).toEqual({
+        id: 'task_assigned',
+        type: 'task_assigned',
+        locales: ['en', 'es'],
+        variables: ['actorName', 'projectName', 'taskTitle'],
+      });
+    });
+
+    it('requires the service token', async () => {
+      await request(app).get('/notifications/templates').expect(403);
+      await request(app).post('/notifications/templates/preview').send({ templateId: 'task_assigned' }).expect(403);
+    });
+  });
+});
@@ -0,0 +1,232 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach, vi } from 'vitest';
+import request from 'supertest';
+import Database from 'better-sqlite3';
+import jwt from 'jsonwebtoken';
+import { createApp } from '../src/server.js';
+import { initializeDatabase } from '../src/db/schema.js';
+import { DigestService } from '../src/services/digest.service.js';
+import { EmailService } from '../src/services/email.service.js';
+import { NotificationService } from '../src/services/notification.service.js';
+import { PreferencesService } from '../src/services/preferences.service.js';
+import {
+  createUnsubscribeToken,
+  verifyUnsubscribeToken,
+  withUnsubscribeLinks,
+} from '../src/services/unsubscribe.service.js';
+import { MemoryTransport } from '../src/email/memory.transport.js';
+import type { NotificationType } from '../src/services/notification.service.js';
+
+describe('Unsubscribe', () => {
+  let app: ReturnType<typeof createApp>['app'];
+  let db: Database.Database;
+
+  beforeAll(() => {
+    db = new Database(':memory:');
+    initializeDatabase(db);
+    ({ app } = createApp({ db }));
+  });
+
+  afterAll(() => {
+    db.close();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('Tokens', () => {
+    it('round-trips the user and type', () => {
+      const token = createUnsubscribeToken({ userId: 'u1', type: 'comment_added' });
+      expect(verifyUnsubscribeToken(token)).toEqual({ userId: 'u1', type: 'comment_added' });
+      expect(verifyUnsubscribeToken(createUnsubscribeToken({ userId: 'u1', type: null }))).toEqual({
+        userId: 'u1',
+        type: null,
+      });
+    });
+
+    it('rejects tampered, foreign and expired tokens', () => {
+      const token = createUnsubscribeToken({ userId: 'u1', type: 'comment_added' });
+      const [header, , signature] = token.split('.');
+      const forgedPayload = Buffer.from(JSON.stringify({ sub: 'u2', aud: 'nexus-unsubscribe' })).toString('base64url');
+      expect(verifyUnsubscribeToken(`${header}.${forgedPayload}.${signature}`)).toBeNull();
+      expect(verifyUnsubscribeToken('not-a-token')).toBeNull();
+
+      const sessionToken = jwt.sign({ sub: 'u1' }, 'nexus-dev-secret-change-in-production');
+      expect(verifyUnsubscribeToken(sessionToken)).toBeNull();
+
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(new Date('2024-01-01T00:00:00Z'));
+      const old = createUnsubscribeToken({ userId: 'u1', type: null });
+      vi.setSystemTime(new Date('2024-03-02T00:00:00Z'));
+      expect(verifyUnsubscribeToken(old)).toBeNull();
+    });
+
+    it('adds a footer and the List-Unsubscribe target to a draft', () => {
+      const draft = withUnsubscribeLinks(
+        { to: 'a@example.com', subject: 'Hi', text: 'Body', html: '<p>Body</p>' },
+        { userId: 'u1', type: 'task_assigned' },
+      );
+      expect(draft.listUnsubscribe).toMatch(/^http:\/\/localhost:3003\/unsubscribe\/[\w-]+\.[\w-]+\.[\w-]+$/);
+      expect(draft.text).toBe(`Body\n\n--\nUnsubscribe: ${draft.listUnsubscribe}`);
+      expect(draft.html).toBe(`<p>Body</p>\n<p><a href="${draft.listUnsubscribe}">Unsubscribe</a></p>`);
+
+      const plain = withUnsubscribeLinks({ to: 'a@example.com', subject: 'Hi', text: 'Body' }, { userId: 'u1', type: null });
+      expect(plain.html).toBeUndefined();
+    });
+  });
+
+  describe('Notification emails', () => {
+    it('carry a one-click unsubscribe link for their type', async () => {
+      const [notification] = new NotificationService(db).send({
+        userId: 'mail-user',
+        type: 'project_invited',
+        title: 'Invite',
+        body: 'Join us',
+        channels: ['email'],
+        email: 'mail-user@example.com',
+      });
+      const emails = new EmailService(db);
+      const email = emails.getById(notification.delivery!.references[0])!;
+      expect(email.listUnsubscribe).toContain('/unsubscribe/');
+      expect(email.body).toContain(email.listUnsubscribe);
+
+      const token = email.listUnsubscribe!.split('/').pop()!;
+      expect(verifyUnsubscribeToken(token)).toEqual({ userId: 'mail-user', type: 'project_invited' });
+
+      await emails.deliver(email.id, new MemoryTransport(), false);
+      // Unfold long header lines
+      const raw = emails.getRawMessage(email.id)!.replace(/\r\n(?=[ \t])/g, '');
+      expect(raw).toContain(`List-Unsubscribe: <${email.listUnsubscribe}>`);
+      expect(raw).toContain('List-Unsubscribe-Post: List-Unsubscribe=One-Click');
+    });
+  });
+
+  describe('Routes', () => {
+    it('GET shows a confirmation page without changing preferences', async () => {
+      const token = createUnsubscribeToken({ userId: 'page-user', type: 'task_due_soon' });
+      const res = await request(app).get(`/unsubscribe/${token}`);
+
+      expect(res.status).toBe(200);
+      expect(res.headers['content-type']).toMatch(/^text\/html/);
+      expect(res.text).toContain('Unsubscribe from "task due soon" emails');
+      expect(res.text).toContain('Unsubscribe from all email');
+      expect(new PreferencesService(db).get('page-user').taskDueSoon).toEqual(['in_app', 'email']);
+    });
+
+    it('POST with List-Unsubscribe=One-Click removes email for the type', async () => {
+      new PreferencesService(db).update('one-click-user', { commentAdded: ['in_app', 'email'] });
+      const token = createUnsubscribeToken({ userId: 'one-click-user', type: 'task_due_soon' });
+
+      const res = await request(app)
+        .post(`/unsubscribe/${token}`)
+        .type('form')
+        .send('List-Unsubscribe=One-Click');
+
+      expect(res.status).toBe(200);
+      expect(res.body.data).toEqual({ userId: 'one-click-user', type: 'task_due_soon', channel: 'email' });
+      const preferences = new PreferencesService(db).get('one-click-user');
+      expect(preferences.taskDueSoon).toEqual(['in_app']);
+      expect(preferences.commentAdded).toEqual(['in_app', 'email']);
+      expect(preferences.projectInvited).toEqual(['in_app', 'email']);
+    });
+
+    it('POST with scope=all removes email from every type', async () => {
+      new PreferencesService(db).update('all-user', { taskAssigned: ['in_app', 'email', 'webhook'] });
+      const token = createUnsubscribeToken({ userId: 'all-user', type: 'task_assigned' });
+
+      const res = await request(app)
+        .post(`/unsubscribe/${token}`)
+        .set('Accept', 'text/html')
+        .type('form')
+        .send('scope=all');
+
+      expect(res.status).toBe(200);
+      expect(res.text).toContain('You will no longer receive all email');
+      const preferences = new PreferencesService(db).get('all-user');
+      expect(preferences.taskAssigned).toEqual(['in_app', 'webhook']);
+      expect(preferences.projectInvited).toEqual(['in_app']);
+      expect(preferences.taskDueSoon).toEqual(['in_app']);
+    });
+
+    it('treats tokens without a type (digests) as unsubscribe-from-all', async () => {
+      const token = createUnsubscribeToken({ userId: 'digest-reader', type: null });
+      const res = await request(app).post(`/unsubscribe/${token}`).type('form').send('List-Unsubscribe=One-Click');
+
+      expect(res.body.data.type).toBeNull();
+      expect(new PreferencesService(db).get('digest-reader').projectInvited).toEqual(['in_app']);
+    });
+
+    it('rejects invalid tokens', async () => {
+      const get = await request(app).get('/unsubscribe/nope');
+      expect(get.status).toBe(400);
+      expect(get.text).toContain('invalid or has expired');
+
+      const post = await request(app).post('/unsubscribe/nope').type('form').send('List-Unsubscribe=One-Click');
+      expect(post.status).toBe(400);
+      expect(post.body.error.code).toBe('VALIDATION_ERROR');
+    });
+  });
+
+  describe('Opt-out', () => {
+    async function unsubscribe(userId: string, type: NotificationType | null) {
+      const token = createUnsubscribeToken({ userId, type });
+      await request(app).post(`/unsubscribe/${token}`).type('form').send('List-Unsubscribe=One-Click');
+    }
+
+    function sendEmail(userId: string) {
+      return new NotificationService(db).send({
+        userId,
+        type: 'task_assigned',
+        title: 'Assigned',
+        body: 'Body',
+        channels: ['email'],
+        email: `${userId}@example.com`,
+      })[0];
+    }
+
+    it('skips explicitly requested email after an unsubscribe', async () => {
+      await unsubscribe('explicit-user', 'task_assigned');
+      const notification = sendEmail('explicit-user');
+
+      expect(notification.delivery).toEqual({
+        status: 'skipped',
+        error: 'Recipient unsubscribed from these emails',
+        references: [],
+      });
+      expect(new PreferencesService(db).get('explicit-user').emailUnsubscribed).toEqual(['taskAssigned']);
+    });
+
+    it('lifts the unsubscribe when email is turned back on for the type', async () => {
+      await unsubscribe('returning-user', null);
+      const preferences = new PreferencesService(db).update('returning-user', { taskAssigned: ['in_app', 'email'] });
+
+      expect(preferences.emailUnsubscribed).not.toContain('taskAssigned');
+      expect(preferences.emailUnsubscribed).toContain('projectInvited');
+      expect(sendEmail('returning-user').delivery!.status).toBe('queued');
+    });
+
+    it('drops buffered digest entries for types the user unsubscribed from', async () => {
+      new PreferencesService(db).update('digest-opt-out', { digest: { frequency: 'hourly' } });
+      const [, buffered] = new NotificationService(db).send({
+        userId: 'digest-opt-out',
+        type: 'comment_added',
+        title: 'Buffered',
+        body: 'Body',
+        channels: ['in_app', 'email'],
+        email: 'digest-opt-out@example.com',
+      });
+      expect(buffered.digestId).not.toBeNull();
+
+      await unsubscribe('digest-opt-out', 'comment_added');
+      const emails = new EmailService(db).list().length;
+      const digest = new DigestService(db).send(buffered.digestId!)!;
+
+      expect(digest.status).toBe('sent');
+      expect(digest.notificationIds).toEqual([]);
+      expect(new EmailService(db).list()).toHaveLength(emails);
+      const [stored] = new NotificationService(db).list('digest-opt-out', { channels: ['email'] }).items;
+      expect(stored.delivery).toEqual({ status: 'skipped', error: 'Recipient unsubscribed from these emails', references: [] });
+      expect(stored.digestId).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,233 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach, vi } from 'vitest';
+import request from 'supertest';
+import Database from 'better-sqlite3';
+import { createApp } from '../src/server.js';
+import { initializeDatabase } from '../src/db/schema.js';
+import { WEBHOOK_DELIVERY_JOB, WebhookService } from '../src/services/webhook.service.js';
+import { WebhookHealthService } from '../src/services/webhook-health.service.js';
+import { NotificationService } from '../src/services/notification.service.js';
+import { QueueService } from '../src/services/queue.service.js';
+import { QueueWorker } from '../src/workers/queue.worker.js';
+import { createJobHandlers } from '../src/workers/job-handlers.js';
+
+function markVerified(db: Database.Database, webhookId: string): void {
+  db.prepare("UPDATE webhooks SET verification_status = 'verified' WHERE id = ?").run(webhookId);
+}
+
+describe('Webhook health', () => {
+  let app: ReturnType<typeof createApp>['app'];
+  let db: Database.Database;
+
+  beforeAll(() => {
+    db = new Database(':memory:');
+    initializeDatabase(db);
+    ({ app } = createApp({ db }));
+  });
+
+  afterAll(() => {
+    db.close();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    db.exec('DELETE FROM jobs');
+  });
+
+  function createWebhook(userId: string): string {
+    const webhook = new WebhookService(db).create(userId, {
+      url: `https://${userId}.example.com/hook`,
+      events: ['task_assigned'],
+    });
+    markVerified(db, webhook.id);
+    return webhook.id;
+  }
+
+  function failTimes(health: WebhookHealthService, webhookId: string, times: number, now = new Date()): void {
+    for (let i = 0; i < times; i++) health.recordFailure(webhookId, now);
+  }
+
+  describe('Circuit breaker', () => {
+    it('stays closed below the failure threshold', () => {
+      const webhookId = createWebhook('closed-user');
+      const health = new WebhookHealthService(db);
+      failTimes(health, webhookId, 4);
+
+      const webhook = new WebhookService(db).getById(webhookId, 'closed-user')!;
+      expect(webhook.health.circuitState).toBe('closed');
+      expect(webhook.health.consecutiveFailures).toBe(4);
+      expect(health.acquire(webhookId)).toEqual({ action: 'attempt' });
+    });
+
+    it('opens after consecutive failures and defers until the cooldown ends', () => {
+      const webhookId = createWebhook('open-user');
+      const health = new WebhookHealthService(db);
+      const now = new Date();
+      failTimes(health, webhookId, 5, now);
+
+      expect(new WebhookService(db).getById(webhookId, 'open-user')!.health.circuitState).toBe('open');
+      const decision = health.acquire(webhookId, now);
+      expect(decision.action).toBe('defer');
+      expect((decision as { retryAt: Date }).retryAt.getTime()).toBe(now.getTime() + 300_000);
+    });
+
+    it('lets a single probe through after the cooldown', () => {
+      const webhookId = createWebhook('probe-user');
+      const health = new WebhookHealthService(db);
+      const openedAt = new Date();
+      failTimes(health, webhookId, 5, openedAt);
+
+      const later = new Date(openedAt.getTime() + 300_000);
+      expect(health.acquire(webhookId, later)).toEqual({ action: 'attempt' });
+      expect(health.acquire(webhookId, later).action).toBe('defer');
+      expect(new WebhookService(db).getById(webhookId, 'probe-user')!.health.circuitState).toBe('half_open');
+    });
+
+    it('closes when the probe succeeds and re-opens when it fails', () => {
+      const health = new WebhookHealthService(db);
+      const openedAt = new Date();
+      const later = new Date(openedAt.getTime() + 300_000);
+
+      const recovering = createWebhook('recover-user');
+      failTimes(health, recovering, 5, openedAt);
+      health.acquire(recovering, later);
+      health.recordSuccess(recovering);
+      const recovered = new WebhookService(db).getById(recovering, 'recover-user')!;
+      expect(recovered.health).toEqual({ circuitState: 'closed', consecutiveFailures: 0, failingSince: null, circuitOpenedAt: null });
+
+      const broken = createWebhook('still-broken-user');
+      failTimes(health, broken, 5, openedAt);
+      health.acquire(broken, later);
+      health.recordFailure(broken, later);
+      const stillBroken = new WebhookService(db).getById(broken, 'still-broken-user')!;
+      expect(stillBroken.health.circuitState).toBe('open');
+      expect(stillBroken.health.circuitOpenedAt).toBe(later.toISOString());
+    });
+  });
+
+  describe('Auto-disable', () => {
+    it('disables a webhook after a sustained outage and notifies the owner', () => {
+      const webhookId = createWebhook('outage-user');
+      const health = new WebhookHealthService(db);
+      const start = new Date(Date.now() - 25 * 60 * 60 * 1000);
+      health.recordFailure(webhookId, start);
+      health.recordFailure(webhookId, new Date());
+
+      const webhook = new WebhookService(db).getById(webhookId, 'outage-user')!;
+      expect(webhook.active).toBe(false);
+      expect(webhook.disabledAt).not.toBeNull();
+      expect(webhook.disabledReason).toMatch(/2 consecutive failed deliveries/);
+
+      const { items } = new NotificationService(db).list('outage-user');
+      expect(items).toHaveLength(1);
+      expect(items[0].type).toBe('webhook_disabled');
+      expect(items[0].channel).toBe('in_app');
+      expect(items[0].metadata.webhookId).toBe(webhookId);
+    });
+
+    it('fails the pending deliveries of a webhook it disables', async () => {
+      const webhookId = createWebhook('backlog-user');
+      const service = new WebhookService(db);
+      new WebhookHealthService(db).recordFailure(webhookId, new Date(Date.now() - 25 * 60 * 60 * 1000));
+      const [first] = service.enqueue('task_assigned', { n: 1 }, 'backlog-user');
+      const [second] = service.enqueue('task_assigned', { n: 2 }, 'backlog-user');
+
+      const fetchMock = vi.fn().mockResolvedValue(new Response('down', { status: 503 }));
+      vi.stubGlobal('fetch', fetchMock);
+      await service.attemptDelivery(first.id, false);
+
+      expect(service.getById(webhookId, 'backlog-user')!.active).toBe(false);
+      expect(service.getDelivery(webhookId, first.id, 'backlog-user')!.status).toBe('failed');
+      expect(service.getDelivery(webhookId, second.id, 'backlog-user')!.status).toBe('failed');
+
+      // Their jobs finish without another request, even once the webhook is back on
+      service.update(webhookId, 'backlog-user', { active: true });
+      const job = db.prepare("SELECT id FROM jobs WHERE json_extract(payload, '$.deliveryId') = ?").get(second.id) as { id: string };
+      await createJobHandlers(db)[WEBHOOK_DELIVERY_JOB](new QueueService(db).getById(job.id)!);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('re-enabling clears the failure streak and disabled state', async () => {
+      const webhookId = createWebhook('reenable-user');
+      const health = new WebhookHealthService(db);
+      health.recordFailure(webhookId, new Date(Date.now() - 25 * 60 * 60 * 1000));
+      health.recordFailure(webhookId);
+
+      const res = await request(app)
+        .patch(`/webhooks/${webhookId}`)
+        .set({ 'x-user-id': 'reenable-user' })
+        .send({ active: true });
+      expect(res.status).toBe(200);
+      expect(res.body.data.active).toBe(true);
+      expect(res.body.data.disabledReason).toBeNull();
+      expect(res.body.data.health.consecutiveFailures).toBe(0);
+    });
+  });
+
+  describe('Queued deliveries', () => {
+    it('postpones deliveries while the circuit is open without using an attempt', async () => {
+      const webhookId = createWebhook('deferred-user');
+      const health = new WebhookHealthService(db);
+      failTimes(health, webhookId, 5);
+
+      const fetchMock = vi.fn();
+      vi.stubGlobal('fetch', fetchMock);
+      const [delivery] = new WebhookService(db).enqueue('task_assigned', {}, 'deferred-user');
+
+      await new QueueWorker(db, createJobHandlers(db)).runOnce();
+      expect(fetchMock).not.toHaveBeenCalled();
+
+      const job = db.prepare("SELECT id FROM jobs WHERE json_extract(payload, '$.deliveryId') = ?").get(delivery.id) as { id: string };
+      const queued = new QueueService(db).getById(job.id)!;
+      expect(queued.status).toBe('pending');
+      expect(queued.attempts).toBe(0);
+      expect(Date.parse(queued.nextAttemptAt)).toBeGreaterThan(Date.now());
+    });
+
+    it('fails pending deliveries of a disabled webhook', async () => {
+      const webhookId = createWebhook('disabled-user');
+      const service = new WebhookService(db);
+      const [delivery] = service.enqueue('task_assigned', {}, 'disabled-user');
+      service.update(webhookId, 'disabled-user', { active: false });
+
+      const fetchMock = vi.fn();
+      vi.stubGlobal('fetch', fetchMock);
+      await new QueueWorker(db, createJobHandlers(db)).runOnce();
+
+      expect(fetchMock).not.toHaveBeenCalled();
+      expect(service.getDelivery(webhookId, delivery.id, 'disabled-user')!.status).toBe('failed');
+    });
+
+    it('records delivery outcomes on the webhook health', async () => {
+      const webhookId = createWebhook('outcome-user');
+      const service = new WebhookService(db);
+      const [delivery] = service.enqueue('task_assigned', {}, 'outcome-user');
+
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response('down', { status: 503 })));
+      await service.attemptDelivery(delivery.id, false);
+      expect(service.getById(webhookId, 'outcome-user')!.health.consecutiveFailures).toBe(1);
+
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response('ok', { status: 200 })));
+      await service.attemptDelivery(delivery.id, false);
+      expect(service.getById(webhookId, 'outcome-user')!.health.consecutiveFailures).toBe(0);
+    });
+
+    it('leaves the health alone for test events', async () => {
+      const webhookId = createWebhook('test-ping-user');
+      const service = new WebhookService(db);
+      failTimes(new WebhookHealthService(db), webhookId, 2);
+
+      vi.stubGlobal('fetch', vi.fn().mockImplementation(async () => new Response('down', { status: 503 })));
+      for (let i = 0; i < 5; i++) {
+        await service.sendTestEvent(webhookId, 'test-ping-user', 'task_assigned');
+      }
+      expect(service.getById(webhookId, 'test-ping-user')!.health).toMatchObject({
+        circuitState: 'closed',
+        consecutiveFailures: 2,
+      });
+
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response('ok', { status: 200 })));
+      await service.sendTestEvent(webhookId, 'test-ping-user', 'task_assigned');
+      expect(service.getById(webhookId, 'test-ping-user')!.health.consecutiveFailures).toBe(2);
+    });
+  });
+});
@@ -1,10 +1,24 @@
-import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { describe, it, expect, beforeAll, afterAll, afterEach, vi } from 'vitest';
 import request from 'supertest';
 import crypto from 'crypto';
+import dns from 'dns';
+import http from 'http';
+import type { AddressInfo } from 'net';
 import Database from 'better-sqlite3';
 import { createApp } from '../src/server.js';
 import { initializeDatabase } from '../src/db/schema.js';
-import { WebhookService } from '../src/services/webhook.service.js';
+import { QueueService } from '../src/services/queue.service.js';
+import { WEBHOOK_DELIVERY_JOB, WebhookService, classifyDeliveryError } from '../src/services/webhook.service.js';
+import { createJobHandlers } from '../src/workers/job-handlers.js';
+import { JobDeferredError } from '../src/workers/queue.worker.js';
+import { decryptSecret, isEncrypted } from '../src/utils/secret-box.js';
+import { buildSignatureHeader, signWebhookPayload, verifyWebhookSignature } from '../src/utils/signature.js';
+import { UrlPolicy, isBlockedAddress } from '../src/utils/url-policy.js';
+
+// Deliveries only go to verified webhooks; tests that don't exercise the handshake skip it
+function markVerified(db: Database.Database, webhookId: string): void {
+  db.prepare("UPDATE webhooks SET verification_status = 'verified' WHERE id = ?").run(webhookId);
+}
 
 describe('Webhooks', () => {
   let app: ReturnType<typeof createApp>['app'];
@@ -230,6 +244,456 @@ describe('Webhooks', () => {
     });
   });
 
+  describe('Redelivery', () => {
+    const ownerHeaders = { ...authHeaders, 'x-user-id': 'redeliver-user' };
+    let webhookId: string;
+    let deliveryId: string;
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    beforeAll(async () => {
+      const service = new WebhookService(db);
+      webhookId = service.create('redeliver-user', {
+        url: 'https://partner.example.com/hook',
+        secret: 's',
+        events: ['task_assigned'],
+      }).id;
+      markVerified(db, webhookId);
+
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response('x'.repeat(5000), { status: 502 })));
+      [{ id: deliveryId }] = service.enqueue('task_assigned', { n: 1 }, 'redeliver-user');
+      await service.attemptDelivery(deliveryId, false);
+      await service.attemptDelivery(deliveryId, true);
+      vi.unstubAllGlobals();
+    });
+
+    it('GET /webhooks/:id/dead-letters lists failed deliveries with every attempt', async () => {
+      const res = await request(app)
+        .get(`/webhooks/${webhookId}/dead-letters`)
+        .set(ownerHeaders);
+      expect(res.status).toBe(200);
+      expect(res.body.data).toHaveLength(1);
+
+      const [deadLetter] = res.body.data;
+      expect(deadLetter.id).toBe(deliveryId);
+      expect(deadLetter.status).toBe('failed');
+      expect(deadLetter.attemptHistory.map((a: any) => a.attemptNumber)).toEqual([1, 2]);
+      expect(deadLetter.attemptHistory[0].responseCode).toBe(502);
+      expect(deadLetter.attemptHistory[0].responseBody).toHaveLength(1024);
+    });
+
+    it('POST /webhooks/:id/deliveries/:deliveryId/redeliver requeues a failed delivery', async () => {
+      const res = await request(app)
+        .post(`/webhooks/${webhookId}/deliveries/${deliveryId}/redeliver`)
+        .set(ownerHeaders);
+      expect(res.status).toBe(202);
+      expect(res.body.data.status).toBe('pending');
+    });
+
+    it('POST /webhooks/:id/deliveries/:deliveryId/redeliver rejects a pending delivery', async () => {
+      const res = await request(app)
+        .post(`/webhooks/${webhookId}/deliveries/${deliveryId}/redeliver`)
+        .set(ownerHeaders);
+      expect(res.status).toBe(409);
+      expect(res.body.error.code).toBe('CONFLICT');
+    });
+
+    it('POST /webhooks/:id/deliveries/:deliveryId/redeliver returns 404 for another user', async () => {
+      const res = await request(app)
+        .post(`/webhooks/${webhookId}/deliveries/${deliveryId}/redeliver`)
+        .set({ ...ownerHeaders, 'x-user-id': 'intruder' });
+      expect(res.status).toBe(404);
+    });
+
+    it('POST /webhooks/:id/deliveries/redeliver-failed requeues failures since a timestamp', async () => {
+      const service = new WebhookService(db);
+      vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new Error('connect ECONNREFUSED')));
+      await service.attemptDelivery(deliveryId, true);
+
+      const future = await request(app)
+        .post(`/webhooks/${webhookId}/deliveries/redeliver-failed`)
+        .set(ownerHeaders)
+        .send({ since: new Date(Date.now() + 60_000).toISOString() });
+      expect(future.status).toBe(202);
+      expect(future.body.data.requeued).toBe(0);
+
+      const res = await request(app)
+        .post(`/webhooks/${webhookId}/deliveries/redeliver-failed`)
+        .set(ownerHeaders)
+        .send({ since: new Date(Date.now() - 60_000).toISOString() });
+      expect(res.status).toBe(202);
+      expect(res.body.data.requeued).toBe(1);
+      expect(res.body.data.deliveries[0].id).toBe(deliveryId);
+    });
+
+    it('POST /webhooks/:id/deliveries/redeliver-failed validates since', async () => {
+      const res = await request(app)
+        .post(`/webhooks/${webhookId}/deliveries/redeliver-failed`)
+        .set(ownerHeaders)
+        .send({ since: 'yesterday' });
+      expect(res.status).toBe(400);
+    });
+  });
+
+  describe('Delivery attempt log', () => {
+    const ownerHeaders = { ...authHeaders, 'x-user-id': 'attempt-log-user' };
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    function fetchError(code: string): Error {
+      return Object.assign(new TypeError('fetch failed'), { cause: Object.assign(new Error(code), { code }) });
+    }
+
+    it('classifies delivery errors', () => {
+      expect(classifyDeliveryError(new DOMException('timed out', 'TimeoutError'))).toBe('timeout');
+      expect(classifyDeliveryError(fetchError('ENOTFOUND'))).toBe('dns');
+      expect(classifyDeliveryError(fetchError('ECONNREFUSED'))).toBe('connection_refused');
+      expect(classifyDeliveryError(fetchError('ECONNRESET'))).toBe('connection_reset');
+      expect(classifyDeliveryError(fetchError('CERT_HAS_EXPIRED'))).toBe('tls');
+      expect(classifyDeliveryError(fetchError('ERR_TLS_CERT_ALTNAME_INVALID'))).toBe('tls');
+      expect(classifyDeliveryError(new Error('weird'))).toBe('unknown');
+    });
+
+    it('GET /webhooks/:id/deliveries/:deliveryId/attempts returns every attempt', async () => {
+      const service = new WebhookService(db);
+      const webhook = service.create('attempt-log-user', {
+        url: 'https://log.example.com/hook',
+        secret: 's',
+        events: ['comment_added'],
+      });
+      markVerified(db, webhook.id);
+      const [delivery] = service.enqueue('comment_added', { n: 1 }, 'attempt-log-user');
+
+      vi.stubGlobal('fetch', vi.fn().mockRejectedValueOnce(fetchError('ECONNREFUSED')));
+      await service.attemptDelivery(delivery.id, false);
+
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValueOnce(
+        new Response('{"ok":true}', { status: 200, headers: { 'x-request-id': 'abc' } }),
+      ));
+      await service.attemptDelivery(delivery.id, false);
+
+      const res = await request(app)
+        .get(`/webhooks/${webhook.id}/deliveries/${delivery.id}/attempts`)
+        .set(ownerHeaders);
+      expect(res.status).toBe(200);
+      expect(res.body.data).toHaveLength(2);
+
+      const [refused, ok] = res.body.data;
+      expect(refused.errorClass).toBe('connection_refused');
+      expect(refused.error).toBe('ECONNREFUSED');
+      expect(refused.responseCode).toBeNull();
+      expect(refused.requestHeaders['X-Nexus-Signature']).toBeDefined();
+      expect(typeof refused.durationMs).toBe('number');
+      expect(refused.startedAt).toBeDefined();
+
+      expect(ok.attemptNumber).toBe(2);
+      expect(ok.responseCode).toBe(200);
+      expect(ok.errorClass).toBeNull();
+      expect(ok.responseHeaders['x-request-id']).toBe('abc');
+      expect(ok.responseBody).toBe('{"ok":true}');
+    });
+
+    it('reads only the start of an endless response body', async () => {
+      const service = new WebhookService(db);
+      const webhook = service.create('stream-user', {
+        url: 'https://stream.example.com/hook',
+        secret: 's',
+        events: ['comment_added'],
+      });
+      markVerified(db, webhook.id);
+      const [delivery] = service.enqueue('comment_added', { n: 1 }, 'stream-user');
+
+      let pulled = 0;
+      let cancelled = false;
+      const endless = new ReadableStream<Uint8Array>({
+        pull(controller) {
+          pulled++;
+          controller.enqueue(new TextEncoder().encode('y'.repeat(1000)));
+        },
+        cancel() {
+          cancelled = true;
+        },
+      });
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValueOnce(new Response(endless, { status: 200 })));
+      await service.attemptDelivery(delivery.id, false);
+
+      const [attempt] = service.getAttempts(webhook.id, delivery.id, 'stream-user')!;
+      expect(attempt.responseBody).toBe('y'.repeat(1024));
+      expect(cancelled).toBe(true);
+      expect(pulled).toBeLessThan(10);
+    });
+
+    it('GET /webhooks/:id/deliveries/:deliveryId/attempts returns 404 for unknown delivery', async () => {
+      const res = await request(app)
+        .get('/webhooks/nonexistent/deliveries/nope/attempts')
+        .set(ownerHeaders);
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe('Secret storage', () => {
+    const ownerHeaders = { ...authHeaders, 'x-user-id': 'secret-user' };
+    let webhookId: string;
+
+    it('stores secrets encrypted at rest', () => {
+      const service = new WebhookService(db);
+      const webhook = service.create('secret-user', {
+        url: 'https://secret.example.com/hook',
+        secret: 'super-secret-value',
+        events: ['task_assigned'],
+      });
+      const row = db.prepare('SELECT secret FROM webhooks WHERE id = ?').get(webhook.id) as { secret: string };
+      expect(isEncrypted(row.secret)).toBe(true);
+      expect(row.secret).not.toContain('super-secret-value');
+      expect(decryptSecret(row.secret)).toBe('super-secret-value');
+    });
+
+    it('encrypts secrets stored before encryption existed', () => {
+      db.prepare(`
+        INSERT INTO webhooks (id, user_id, url, secret, events) VALUES ('legacy-hook', 'secret-user', 'https://l.example.com', 'plain', '[]')
+      `).run();
+      const service = new WebhookService(db);
+      expect(service.encryptLegacySecrets()).toBe(1);
+      expect(service.encryptLegacySecrets()).toBe(0);
+      expect(service.revealSecret('legacy-hook', 'secret-user')).toBe('plain');
+    });
+
+    it('POST /webhooks returns the secret once and generates one when omitted', async () => {
+      const res = await request(app)
+        .post('/webhooks')
+        .set(ownerHeaders)
+        .send({ url: 'https://secret.example.com/hook', events: ['task_assigned'] });
+      expect(res.status).toBe(201);
+      expect(res.body.data.secret).toMatch(/^whsec_/);
+      expect(res.body.data.secretHint).toBe(`whsec_****${res.body.data.secret.slice(-4)}`);
+      webhookId = res.body.data.id;
+    });
+
+    it('masks the secret in list and update responses', async () => {
+      const list = await request(app).get('/webhooks').set(ownerHeaders);
+      const listed = list.body.data.find((w: any) => w.id === webhookId);
+      expect(listed.secret).toBeUndefined();
+      expect(listed.secretHint).toMatch(/^whsec_\*{4}/);
+
+      const patch = await request(app)
+        .patch(`/webhooks/${webhookId}`)
+        .set(ownerHeaders)
+        .send({ secret: 'replacement-secret' });
+      expect(patch.body.data.secret).toBeUndefined();
+      expect(patch.body.data.secretHint).toBe('****cret');
+    });
+
+    it('POST /webhooks/:id/secret/reveal returns the secret and audits it', async () => {
+      const res = await request(app)
+        .post(`/webhooks/${webhookId}/secret/reveal`)
+        .set(ownerHeaders);
+      expect(res.status).toBe(200);
+      expect(res.body.data.secret).toBe('replacement-secret');
+
+      const audit = await request(app).get(`/webhooks/${webhookId}/audit`).set(ownerHeaders);
+      expect(audit.status).toBe(200);
+      expect(audit.body.data.map((e: any) => e.action)).toEqual(['secret_revealed', 'secret_rotated']);
+      expect(audit.body.data[0].userId).toBe('secret-user');
+    });
+
+    it('POST /webhooks/:id/secret/reveal returns 404 for another user', async () => {
+      const res = await request(app)
+        .post(`/webhooks/${webhookId}/secret/reveal`)
+        .set({ ...ownerHeaders, 'x-user-id': 'intruder' });
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe('Verification and test events', () => {
+    const ownerHeaders = { ...authHeaders, 'x-user-id': 'verify-user' };
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    function echoingFetch(format: 'json' | 'text' = 'json') {
+      return vi.fn().mockImplementation(async (_url: string, init: RequestInit) => {
+        const { challenge } = JSON.parse(init.body as string);
+        return new Response(format === 'json' ? JSON.stringify({ challenge }) : challenge, { status: 200 });
+      });
+    }
+
+    it('POST /webhooks verifies an endpoint that echoes the challenge', async () => {
+      const fetchMock = echoingFetch();
+      vi.stubGlobal('fetch', fetchMock);
+
+      const res = await request(app)
+        .post('/webhooks')
+        .set(ownerHeaders)
+        .send({ url: 'https://verify.example.com/hook', secret: 'verify-secret', events: ['task_assigned'] });
+      expect(res.status).toBe(201);
+      expect(res.body.data.verificationStatus).toBe('verified');
+      expect(res.body.data.verifiedAt).not.toBeNull();
+      expect(res.body.data.secret).toBe('verify-secret');
+
+      const [, init] = fetchMock.mock.calls[0];
+      expect(JSON.parse(init.body).type).toBe('webhook.verification');
+      expect(verifyWebhookSignature(init.body, init.headers['X-Nexus-Signature'], init.headers['X-Nexus-Timestamp'], 'verify-secret')).toBe(true);
+    });
+
+    it('accepts a plain-text echo', async () => {
+      vi.stubGlobal('fetch', echoingFetch('text'));
+      const service = new WebhookService(db);
+      const webhook = service.create('verify-user', { url: 'https://verify.example.com/text', events: ['task_assigned'] });
+      expect((await service.verify(webhook.id, 'verify-user'))!.verificationStatus).toBe('verified');
+    });
+
+    it('fails verification when the challenge is not echoed', async () => {
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response('ok', { status: 200 })));
+
+      const res = await request(app)
+        .post('/webhooks')
+        .set(ownerHeaders)
+        .send({ url: 'https://noecho.example.com/hook', events: ['comment_added'] });
+      expect(res.status).toBe(201);
+      expect(res.body.data.verificationStatus).toBe('failed');
+      expect(res.body.data.verifiedAt).toBeNull();
+    });
+
+    it('does not deliver events to unverified webhooks', () => {
+      const service = new WebhookService(db);
+      service.create('unverified-user', { url: 'https://pending.example.com/hook', events: ['task_assigned'] });
+      expect(service.enqueue('task_assigned', {}, 'unverified-user')).toEqual([]);
+    });
+
+    it('POST /webhooks/:id/verify retries the handshake', async () => {
+      const service = new WebhookService(db);
+      const webhook = service.create('verify-user', { url: 'https://retry.example.com/hook', events: ['task_assigned'] });
+
+      vi.stubGlobal('fetch', echoingFetch());
+      const res = await request(app).post(`/webhooks/${webhook.id}/verify`).set(ownerHeaders);
+      expect(res.status).toBe(200);
+      expect(res.body.data.verificationStatus).toBe('verified');
+    });
+
+    it('PATCH /webhooks/:id with a new URL verifies it again', async () => {
+      const service = new WebhookService(db);
+      const webhook = service.create('verify-user', { url: 'https://old.example.com/hook', events: ['task_assigned'] });
+      markVerified(db, webhook.id);
+
+      vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new TypeError('fetch failed')));
+      const res = await request(app)
+        .patch(`/webhooks/${webhook.id}`)
+        .set(ownerHeaders)
+        .send({ url: 'https://new.example.com/hook' });
+      expect(res.status).toBe(200);
+      expect(res.body.data.verificationStatus).toBe('failed');
+    });
+
+    it('holds queued deliveries while a new URL is unverified and fails them if it stays so', async () => {
+      const service = new WebhookService(db);
+      const webhook = service.create('moving-user', { url: 'https://moving.example.com/hook', events: ['task_assigned'] });
+      markVerified(db, webhook.id);
+      const [delivery] = service.enqueue('task_assigned', { n: 1 }, 'moving-user');
+      const jobRow = db.prepare(
+        "SELECT id FROM jobs WHERE type = ? AND json_extract(payload, '$.deliveryId') = ?"
+      ).get(WEBHOOK_DELIVERY_JOB, delivery.id) as { id: string };
+      const job = new QueueService(db).getById(jobRow.id)!;
+      const handler = createJobHandlers(db)[WEBHOOK_DELIVERY_JOB];
+
+      const fetchMock = vi.fn().mockResolvedValue(new Response('ok', { status: 200 }));
+      vi.stubGlobal('fetch', fetchMock);
+      service.update(webhook.id, 'moving-user', { url: 'https://moved.example.com/hook' });
+
+      const error = await handler(job).catch(err => err);
+      expect(error).toBeInstanceOf(JobDeferredError);
+      expect(error.message).toBe('Webhook is waiting for verification');
+      expect(fetchMock).not.toHaveBeenCalled();
+
+      // The new endpoint does not echo the challenge
+      await service.verify(webhook.id, 'moving-user');
+      await handler(job);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(JSON.parse(fetchMock.mock.calls[0][1].body).type).toBe('webhook.verification');
+      expect(service.getDelivery(webhook.id, delivery.id, 'moving-user')!.status).toBe('failed');
+
+      const redeliver = await request(app)
+        .post(`/webhooks/${webhook.id}/deliveries/${delivery.id}/redeliver`)
+        .set({ ...ownerHeaders, 'x-user-id': 'moving-user' });
+      expect(redeliver.status).toBe(409);
+      expect(redeliver.body.error.message).toBe('Webhook is not verified');
+    });
+
+    it('POST /webhooks/:id/test sends a synthetic event and returns the result', async () => {
+      const service = new WebhookService(db);
+      const webhook = service.create('verify-user', { url: 'https://test.example.com/hook', events: ['task_assigned'] });
+
+      const fetchMock = vi.fn().mockResolvedValue(new Response('received', { status: 202 }));
+      vi.stubGlobal('fetch', fetchMock);
+      const res = await request(app)
+        .post(`/webhooks/${webhook.id}/test`)
+        .set(ownerHeaders)
+        .send({ type: 'comment_added' });
+      expect(res.status).toBe(200);
+      expect(res.body.data.delivery.status).toBe('delivered');
+      expect(res.body.data.delivery.eventType).toBe('comment_added');
+      expect(res.body.data.attempt.responseCode).toBe(202);
+      expect(res.body.data.attempt.responseBody).toBe('received');
+      expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toMatchObject({ event: 'comment_added', test: true });
+    });
+
+    it('POST /webhooks/:id/test reports a failed delivery inline', async () => {
+      const service = new WebhookService(db);
+      const webhook = service.create('verify-user', { url: 'https://down.example.com/hook', events: ['task_assigned'] });
+
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response('nope', { status: 500 })));
+      const res = await request(app)
+        .post(`/webhooks/${webhook.id}/test`)
+        .set(ownerHeaders)
+        .send({ type: 'task_assigned' });
+      expect(res.status).toBe(200);
+      expect(res.body.data.delivery.status).toBe('failed');
+      expect(res.body.data.attempt.errorClass).toBe('http_error');
+    });
+
+    it('keeps failed test events out of dead letters and redelivery', async () => {
+      const testerHeaders = { ...ownerHeaders, 'x-user-id': 'tester-user' };
+      const service = new WebhookService(db);
+      const webhook = service.create('tester-user', { url: 'https://flaky.example.com/hook', events: ['task_assigned'] });
+      markVerified(db, webhook.id);
+
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response('nope', { status: 500 })));
+      const ping = await request(app).post(`/webhooks/${webhook.id}/test`).set(testerHeaders).send({ type: 'task_assigned' });
+      const deliveryId = ping.body.data.delivery.id;
+      expect(ping.body.data.delivery).toMatchObject({ status: 'failed', test: true });
+      expect(service.getDeliveries(webhook.id, 'tester-user').map(d => d.id)).toEqual([deliveryId]);
+
+      const deadLetters = await request(app).get(`/webhooks/${webhook.id}/dead-letters`).set(testerHeaders);
+      expect(deadLetters.body.data).toEqual([]);
+
+      const bulk = await request(app)
+        .post(`/webhooks/${webhook.id}/deliveries/redeliver-failed`)
+        .set(testerHeaders)
+        .send({ since: new Date(Date.now() - 60_000).toISOString() });
+      expect(bulk.body.data.requeued).toBe(0);
+
+      const single = await request(app)
+        .post(`/webhooks/${webhook.id}/deliveries/${deliveryId}/redeliver`)
+        .set(testerHeaders);
+      expect(single.status).toBe(409);
+      expect(service.getDelivery(webhook.id, deliveryId, 'tester-user')!.status).toBe('failed');
+    });
+
+    it('POST /webhooks/:id/test validates the event type', async () => {
+      const service = new WebhookService(db);
+      const webhook = service.create('verify-user', { url: 'https://test.example.com/hook', events: ['task_assigned'] });
+      const res = await request(app)
+        .post(`/webhooks/${webhook.id}/test`)
+        .set(ownerHeaders)
+        .send({ type: 'not_a_type' });
+      expect(res.status).toBe(400);
+    });
+  });
+
   describe('HMAC Signature', () => {
     it('generates correct HMAC-SHA256 signature', () => {
       const payload = JSON.stringify({ test: 'data' });
@@ -241,5 +705,279 @@ describe('Webhooks', () => {
       expect(actual).toBe(expected);
       expect(actual).toHaveLength(64); // SHA256 hex is 64 chars
     });
+
+    it('signs timestamp.body with a versioned scheme', () => {
+      const payload = JSON.stringify({ test: 'data' });
+      const expected = crypto.createHmac('sha256', 'test-secret').update(`1700000000.${payload}`).digest('hex');
+      expect(signWebhookPayload(payload, 'test-secret', 1700000000)).toBe(`v1=${expected}`);
+    });
+
+    it('verifies a fresh signature and rejects tampering', () => {
+      const payload = '{"a":1}';
+      const now = Math.floor(Date.now() / 1000);
+      const header = signWebhookPayload(payload, 'secret', now);
+      expect(verifyWebhookSignature(payload, header, String(now), 'secret')).toBe(true);
+      expect(verifyWebhookSignature('{"a":2}', header, String(now), 'secret')).toBe(false);
+      expect(verifyWebhookSignature(payload, header, String(now), 'other-secret')).toBe(false);
+      expect(verifyWebhookSignature(payload, header, String(now + 1), 'secret')).toBe(false);
+    });
+
+    it('rejects replayed requests outside the tolerance', () => {
+      const payload = '{"a":1}';
+      const header = signWebhookPayload(payload, 'secret', 1000);
+      expect(verifyWebhookSignature(payload, header, '1000', 'secret', { now: 1200 })).toBe(true);
+      expect(verifyWebhookSignature(payload, header, '1000', 'secret', { now: 2000 })).toBe(false);
+      expect(verifyWebhookSignature(payload, header, 'not-a-number', 'secret', { now: 1000 })).toBe(false);
+    });
+
+    it('accepts either secret when both sign during rotation', () => {
+      const header = buildSignatureHeader('body', ['new-secret', 'old-secret'], 1000);
+      expect(verifyWebhookSignature('body', header, '1000', 'new-secret', { now: 1000 })).toBe(true);
+      expect(verifyWebhookSignature('body', header, '1000', 'old-secret', { now: 1000 })).toBe(true);
+    });
+  });
+
+  describe('Secret rotation', () => {
+    const ownerHeaders = { ...authHeaders, 'x-user-id': 'rotation-user' };
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    async function capturedHeaders(service: WebhookService, deliveryId: string): Promise<Record<string, string>> {
+      const fetchMock = vi.fn().mockResolvedValue(new Response('ok', { status: 200 }));
+      vi.stubGlobal('fetch', fetchMock);
+      await service.attemptDelivery(deliveryId, false);
+      return fetchMock.mock.calls[0][1].headers;
+    }
+
+    it('signs with both secrets during the grace window', async () => {
+      const service = new WebhookService(db);
+      const webhook = service.create('rotation-user', {
+        url: 'https://rotate.example.com/hook',
+        secret: 'old-secret',
+        events: ['task_due_soon'],
+      });
+      markVerified(db, webhook.id);
+      const rotated = service.rotateSecret(webhook.id, 'rotation-user', { secret: 'new-secret', graceSeconds: 3600 })!;
+      expect(rotated.secret).toBe('new-secret');
+      expect(rotated.previousSecretExpiresAt).not.toBeNull();
+
+      const [delivery] = service.enqueue('task_due_soon', { n: 1 }, 'rotation-user');
+      const headers = await capturedHeaders(service, delivery.id);
+      const body = JSON.stringify({ n: 1 });
+      expect(headers['X-Nexus-Signature'].split(',')).toHaveLength(2);
+      expect(verifyWebhookSignature(body, headers['X-Nexus-Signature'], headers['X-Nexus-Timestamp'], 'old-secret')).toBe(true);
+      expect(verifyWebhookSignature(body, headers['X-Nexus-Signature'], headers['X-Nexus-Timestamp'], 'new-secret')).toBe(true);
+    });
+
+    it('stops signing with the old secret once the grace window ends', async () => {
+      const service = new WebhookService(db);
+      const webhook = service.create('rotation-user', {
+        url: 'https://rotate.example.com/hook',
+        secret: 'old-secret',
+        events: ['task_status_changed'],
+      });
+      markVerified(db, webhook.id);
+      const rotated = service.rotateSecret(webhook.id, 'rotation-user', { graceSeconds: 0 })!;
+      expect(rotated.secret).toMatch(/^whsec_/);
+      expect(rotated.previousSecretExpiresAt).toBeNull();
+
+      const [delivery] = service.enqueue('task_status_changed', { n: 2 }, 'rotation-user');
+      const headers = await capturedHeaders(service, delivery.id);
+      expect(headers['X-Nexus-Signature'].split(',')).toHaveLength(1);
+      expect(verifyWebhookSignature(JSON.stringify({ n: 2 }), headers['X-Nexus-Signature'], headers['X-Nexus-Timestamp'], rotated.secret)).toBe(true);
+    });
+
+    it('PATCH /webhooks/:id with a new secret keeps the old one in a grace window', async () => {
+      const service = new WebhookService(db);
+      const webhook = service.create('rotation-user', {
+        url: 'https://rotate.example.com/hook',
+        secret: 'patch-old',
+        events: ['task_assigned'],
+      });
+      const res = await request(app)
+        .patch(`/webhooks/${webhook.id}`)
+        .set(ownerHeaders)
+        .send({ secret: 'patch-new' });
+      expect(res.status).toBe(200);
+      expect(res.body.data.previousSecretExpiresAt).not.toBeNull();
+    });
+
+    it('POST /webhooks/:id/secret/rotate generates a new secret', async () => {
+      const service = new WebhookService(db);
+      const webhook = service.create('rotation-user', {
+        url: 'https://rotate.example.com/hook',
+        secret: 'route-old',
+        events: ['task_assigned'],
+      });
+      const res = await request(app)
+        .post(`/webhooks/${webhook.id}/secret/rotate`)
+        .set(ownerHeaders)
+        .send({ graceSeconds: 600 });
+      expect(res.status).toBe(200);
+      expect(res.body.data.secret).toMatch(/^whsec_/);
+      expect(res.body.data.secret).not.toBe('route-old');
+    });
+
+    it('POST /webhooks/:id/secret/rotate returns 404 for another user', async () => {
+      const service = new WebhookService(db);
+      const webhook = service.create('rotation-user', {
+        url: 'https://rotate.example.com/hook',
+        secret: 's',
+        events: ['task_assigned'],
+      });
+      const res = await request(app)
+        .post(`/webhooks/${webhook.id}/secret/rotate`)
+        .set({ ...ownerHeaders, 'x-user-id': 'intruder' })
+        .send({});
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe('URL policy', () => {
+    const ownerHeaders = { ...authHeaders, 'x-user-id': 'ssrf-user' };
+
+    function resolveTo(address: string) {
+      vi.mocked(dns.promises.lookup).mockResolvedValueOnce([{ address, family: address.includes(':') ? 6 : 4 }] as never);
+    }
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('blocks loopback, private, link-local and metadata addresses', () => {
+      for (const address of ['127.0.0.1', '10.1.2.3', '172.16.0.1', '192.168.1.1', '169.254.169.254', '0.0.0.0', '::1', 'fd00::1', 'fe80::1', '::ffff:127.0.0.1', '::7f00:1', '::a9fe:a9fe']) {
+        expect(isBlockedAddress(address), address).toBe(true);
+      }
+      expect(isBlockedAddress('93.184.215.14')).toBe(false);
+      expect(isBlockedAddress('2606:2800:21f:cb07:6820:80da:af6b:8b2c')).toBe(false);
+    });
+
+    it('enforces the scheme and host allow-lists', async () => {
+      const policy = new UrlPolicy({ allowedSchemes: ['https'], allowedHosts: ['hooks.partner.com', '*.example.com'] });
+      expect((await policy.check('https://api.example.com/hook')).allowed).toBe(true);
+      expect((await policy.check('https://hooks.partner.com/hook')).allowed).toBe(true);
+      expect((await policy.check('http://api.example.com/hook')).allowed).toBe(false);
+      expect((await policy.check('https://evil.com/hook')).allowed).toBe(false);
+    });
+
+    it('rejects hosts that do not resolve unless asked not to', async () => {
+      const policy = new UrlPolicy();
+      vi.mocked(dns.promises.lookup).mockRejectedValueOnce(Object.assign(new Error('not found'), { code: 'ENOTFOUND' }));
+      expect((await policy.check('https://gone.example.com')).allowed).toBe(false);
+      vi.mocked(dns.promises.lookup).mockRejectedValueOnce(Object.assign(new Error('not found'), { code: 'ENOTFOUND' }));
+      expect((await policy.check('https://gone.example.com', { allowUnresolved: true })).allowed).toBe(true);
+    });
+
+    it('POST /webhooks rejects internal targets', async () => {
+      for (const url of ['http://127.0.0.1:8080/hook', 'http://169.254.169.254/latest/meta-data', 'http://localhost/hook', 'http://redis/hook', 'http://[::1]/hook', 'http://[::127.0.0.1]/hook', 'ftp://example.com/hook']) {
+        const res = await request(app)
+          .post('/webhooks')
+          .set(ownerHeaders)
+          .send({ url, events: ['task_assigned'] });
+        expect(res.status, url).toBe(400);
+        expect(res.body.error.details.url).toHaveLength(1);
+      }
+    });
+
+    it('POST /webhooks rejects hostnames that resolve to private addresses', async () => {
+      resolveTo('10.0.0.5');
+      const res = await request(app)
+        .post('/webhooks')
+        .set(ownerHeaders)
+        .send({ url: 'https://internal.example.com/hook', events: ['task_assigned'] });
+      expect(res.status).toBe(400);
+      expect(res.body.error.details.url[0]).toContain('10.0.0.5');
+    });
+
+    it('PATCH /webhooks/:id rejects an internal URL', async () => {
+      const service = new WebhookService(db);
+      const webhook = service.create('ssrf-user', { url: 'https://example.com/hook', events: ['task_assigned'] });
+      const res = await request(app)
+        .patch(`/webhooks/${webhook.id}`)
+        .set(ownerHeaders)
+        .send({ url: 'http://192.168.0.10/hook' });
+      expect(res.status).toBe(400);
+      expect(service.getById(webhook.id, 'ssrf-user')!.url).toBe('https://example.com/hook');
+    });
+
+    it('checks the address again at delivery time', async () => {
+      const service = new WebhookService(db);
+      const webhook = service.create('ssrf-user', { url: 'https://rebind.example.com/hook', events: ['task_assigned'] });
+      markVerified(db, webhook.id);
+      const delivery = service.enqueue('task_assigned', { test: true }, 'ssrf-user').find(d => d.webhookId === webhook.id)!;
+
+      const fetchMock = vi.fn();
+      vi.stubGlobal('fetch', fetchMock);
+      resolveTo('127.0.0.1');
+      const result = await service.attemptDelivery(delivery.id, false);
+
+      expect(result.ok).toBe(false);
+      expect(fetchMock).not.toHaveBeenCalled();
+      const [attempt] = service.getAttempts(webhook.id, delivery.id, 'ssrf-user')!;
+      expect(attempt.errorClass).toBe('blocked');
+      expect(attempt.error).toContain('127.0.0.1');
+    });
+
+    it('refuses to connect when DNS rebinds after the check', async () => {
+      let reached = false;
+      const server = http.createServer((_req, res) => {
+        reached = true;
+        res.end('ok');
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      const { port } = server.address() as AddressInfo;
+
+      // check() gets the public address from tests/setup.ts; the connection resolves to loopback
+      const lookup = vi.spyOn(dns, 'lookup').mockImplementation(((_host: string, _options: unknown, callback: Function) => {
+        callback(null, [{ address: '127.0.0.1', family: 4 }]);
+      }) as never);
+      try {
+        const error = await new UrlPolicy().fetch(`http://rebind.example.com:${port}/hook`, { method: 'POST' }).catch(err => err);
+        expect(classifyDeliveryError(error)).toBe('blocked');
+        expect(error.cause.message).toContain('127.0.0.1');
+        expect(lookup).toHaveBeenCalled();
+        expect(reached).toBe(false);
+      } finally {
+        lookup.mockRestore();
+        await new Promise(resolve => server.close(resolve));
+      }
+    });
+
+    it('does not follow redirects into blocked ranges', async () => {
+      const service = new WebhookService(db);
+      const webhook = service.create('ssrf-user', { url: 'https://redirect.example.com/hook', events: ['task_assigned'] });
+      markVerified(db, webhook.id);
+      const delivery = service.enqueue('task_assigned', { test: true }, 'ssrf-user').find(d => d.webhookId === webhook.id)!;
+
+      const fetchMock = vi.fn().mockResolvedValue(
+        new Response(null, { status: 307, headers: { location: 'http://169.254.169.254/latest/meta-data' } }),
+      );
+      vi.stubGlobal('fetch', fetchMock);
+      const result = await service.attemptDelivery(delivery.id, false);
+
+      expect(result.ok).toBe(false);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(fetchMock.mock.calls[0][1].redirect).toBe('manual');
+      expect(service.getAttempts(webhook.id, delivery.id, 'ssrf-user')![0].errorClass).toBe('blocked');
+    });
+
+    it('follows redirects to allowed hosts', async () => {
+      const service = new WebhookService(db);
+      const webhook = service.create('ssrf-user', { url: 'https://moved.example.com/hook', events: ['task_assigned'] });
+      markVerified(db, webhook.id);
+      const delivery = service.enqueue('task_assigned', { test: true }, 'ssrf-user').find(d => d.webhookId === webhook.id)!;
+
+      const fetchMock = vi.fn()
+        .mockResolvedValueOnce(new Response(null, { status: 308, headers: { location: '/v2/hook' } }))
+        .mockResolvedValueOnce(new Response('ok', { status: 200 }));
+      vi.stubGlobal('fetch', fetchMock);
+      const result = await service.attemptDelivery(delivery.id, false);
+
+      expect(result.ok).toBe(true);
+      expect(fetchMock.mock.calls[1][0]).toBe('https://moved.example.com/v2/hook');
+      expect(fetchMock.mock.calls[1][1].method).toBe('POST');
+    });
   });
 });